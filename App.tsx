@@ -1,29 +1,300 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Briefcase, Sparkles, Loader2, AlertTriangle, X,
   HandCoins, DollarSign, ShoppingBag, CreditCard,
   Plus, Save, Globe, Calendar,
-  Trash2, Download, Copy, Check, RotateCcw
+  Trash2, Download, Copy, Check, RotateCcw, Pencil,
+  Wallet, Users, UserRound, Search, Package, Plane, TrendingUp, Upload, Receipt,
+  ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight, ChevronDown, Boxes, Tag,
+  FileText, Printer, DatabaseBackup, Cloud, CloudOff, RefreshCw, History
 } from 'lucide-react';
 import { GoogleGenAI } from "@google/genai";
+import {
+  ResponsiveContainer, ComposedChart, Line, Scatter, Bar, BarChart, PieChart, Pie, Cell,
+  XAxis, YAxis, CartesianGrid, Tooltip, Legend
+} from 'recharts';
+import {
+  loadStoredData, saveCollection, saveSetting, listQuarantine, clearQuarantine,
+  SCHEMA_VERSION, createBackup, parseBackup, diffStoredData, restoreStoredData,
+  type CollectionName, type StoredData, type ParsedBackup, type RestoreMode
+} from './storage';
+import {
+  runSync, checkServer, detectLocalChanges, applyRemoteChanges, countPendingChanges, emptySyncState,
+  type SyncSettings, type SyncState, type SyncConflict, type RemoteChange
+} from './sync';
+import {
+  convertToLocal, roundLocal, localUnitCost, netForeignCost, lineAmount, lineFigures, marginRatio, marginPercent, averageUnitCost,
+  includedTax, allocateByShare, addAmounts, multiplyAmounts, percentOf, shortfallTo, roundUpToStep, tryCalculate,
+  type LineFigures
+} from './money';
 
 // ==========================================
 // 1. TYPES
 // ==========================================
 
-export type Country = 'JP' | 'KR' | 'OTHER';
+// Code of a SourcingCountry in the user-managed registry (e.g. 'JP', 'KR', 'US')
+export type Country = string;
+
+export type CountryColor = 'red' | 'blue' | 'green' | 'amber' | 'purple' | 'teal' | 'pink' | 'gray';
+
+export interface SourcingCountry {
+  code: Country;
+  label: string;        // Display name, e.g. '日本'
+  currencyCode: string; // ISO 4217 code, e.g. 'JPY'
+  symbol: string;       // Currency symbol shown before foreign amounts
+  rate: number;         // Default cost rate to Local Currency
+  sellingRate: number;  // Default selling rate to Local Currency
+  color: CountryColor;
+}
+
+export type OrderStatus = 'requested' | 'purchased' | 'shipped' | 'arrived' | 'delivered' | 'cancelled';
 
 export interface Transaction {
   id: string;
   country: Country;
-  customerName: string;
+  customerId?: string; // Link to Customer; missing on records created before the directory
+  customerName: string; // Denormalized copy of the customer's name for display/export
   itemName: string;
   quantity: number;
-  costJpy: number;     // Cost per unit in Foreign Currency
+  costForeign: number;     // Cost per unit in Foreign Currency
   exchangeRate: number; // Current Rate (Cost Rate)
   sellingExchangeRate?: number; // Selling Rate (Reference)
   priceSold: number;   // Sold price per unit in Local Currency
   date: string;
+  status?: OrderStatus; // Missing on older records, treated as 'requested'
+  statusHistory?: Partial<Record<OrderStatus, string>>; // ISO timestamp each stage was reached
+  shipmentId?: string; // Shipment (box) this item was sent home in
+  weightGrams?: number; // Weight per unit, used for weight-based cost allocation
+  tripId?: string; // Buying trip this item was purchased on
+  exchangeRateDate?: string; // Rate-table date exchangeRate was taken from; absent when typed by hand
+  cardSettlementId?: string; // Card statement / charge this purchase was settled on
+  taxRefundStatus?: TaxRefundStatus; // Missing means costForeign is simply what was paid
+  taxRate?: number;         // Consumption / VAT rate in percent, e.g. 10
+  taxRefundPerUnit?: number; // Refund per unit in Foreign Currency, deducted from costForeign for net cost
+  taxRefundReceivedAt?: string;
+  fromStock?: boolean; // Sold out of InventoryLots; cost comes from FIFO lot cost instead of costForeign
+  productId?: string; // Catalog product, linked by item name / alias when saved
+  orderId?: string; // Lines entered together share one; older records are single-line orders keyed by their own id
+}
+
+// A customer order as shown in the list: its line items are the transactions sharing an orderId.
+// Customer, date, country and rates are shared by every line and read from the first one.
+export interface Order {
+  id: string;
+  customerId?: string;
+  customerName: string;
+  date: string;
+  country: Country;
+  exchangeRate: number;
+  lines: Transaction[];
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  aliases: string[];         // Other names / spellings that resolve to this product
+  country: Country;          // Usual sourcing country
+  lastCostForeign: number;   // Latest recorded cost per unit in Foreign Currency
+  usualPrice: number;        // Latest selling price per unit in Local Currency
+  category?: string;
+  barcode?: string;          // JAN / EAN code
+  lastRecordedDate?: string; // Date of the transaction the prices were learned from
+  pricesSetOn?: string;      // Day the cost, price or country was last set by hand; older transactions no longer change them
+}
+
+// selling_rate: start from costForeign × sellingExchangeRate; cost_rate: start from the local cost itself
+export type PricingBase = 'selling_rate' | 'cost_rate';
+
+export interface PricingFeeTier {
+  upToCost: number | null; // Upper bound of local unit cost for this band; null = no upper bound
+  fee: number;             // Added per unit in Local Currency
+}
+
+// How the suggested selling price is derived. Steps apply in order: base, markup, handling fee,
+// cost-band fee, minimum profit floor, then rounding up.
+export interface PricingRule {
+  id: string;
+  name: string;
+  country?: Country;        // Missing = every country
+  category?: string;        // Product category; missing = every category
+  base: PricingBase;
+  markupPercent: number;    // Percentage of the base added on top
+  handlingFee: number;      // Fixed fee per unit in Local Currency
+  feeTiers: PricingFeeTier[];
+  minProfit: number;        // Minimum profit per unit over local cost
+  roundTo: number;          // Price is rounded up to a multiple of this (1 = whole dollars)
+}
+
+// Stock bought ahead of demand, not for a specific customer
+export interface InventoryLot {
+  id: string;
+  itemName: string;     // Matched to stock sales by name
+  country: Country;
+  quantity: number;     // Units purchased
+  costForeign: number;      // Cost per unit in Foreign Currency
+  exchangeRate: number; // Cost rate to Local Currency
+  date: string;
+  notes?: string;
+}
+
+// tax_free: bought tax-exempt at the counter, costForeign is already net of tax.
+// pending / received: costForeign is tax-inclusive and taxRefundPerUnit comes back later (e.g. airport refund).
+export type TaxRefundStatus = 'none' | 'tax_free' | 'pending' | 'received';
+
+export interface CardSettlement {
+  id: string;
+  date: string;
+  description: string;  // e.g. "玉山卡 3月帳單"
+  settledAmount: number; // Amount actually billed in Local Currency, before fees
+  foreignFee: number;    // Overseas transaction fee in Local Currency
+  notes?: string;
+}
+
+export interface ExchangeRateEntry {
+  id: string;
+  currencyCode: string; // Matches SourcingCountry.currencyCode
+  date: string;         // YYYY-MM-DD the rate takes effect
+  rate: number;         // Cost rate to Local Currency
+  sellingRate?: number; // Optional selling rate to Local Currency
+}
+
+export type TripExpenseCategory = 'flight' | 'hotel' | 'transport' | 'packaging' | 'other';
+
+export interface TripExpense {
+  id: string;
+  category: TripExpenseCategory;
+  description: string;
+  amount: number;
+  isForeign: boolean;    // Amount is in the trip destination's currency
+  exchangeRate?: number; // Rate to Local Currency, required when isForeign
+}
+
+export interface Trip {
+  id: string;
+  name: string;
+  destination: Country;
+  startDate: string;
+  endDate: string;
+  expenses: TripExpense[];
+  notes?: string;
+}
+
+export type AllocationMethod = 'weight' | 'value' | 'quantity';
+
+export interface Shipment {
+  id: string;
+  name: string;
+  date: string;
+  allocationMethod: AllocationMethod;
+  freight: number;       // International freight in Local Currency
+  forwardingFee: number; // Forwarder / handling fee in Local Currency
+  customsDuty: number;   // Customs duty & import tax in Local Currency
+  notes?: string;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  lineId?: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export type PaymentType = 'deposit' | 'final' | 'refund';
+
+export type PaymentMethod = 'bank_transfer' | 'line_pay' | 'cash' | 'other';
+
+export interface Payment {
+  id: string;
+  transactionId: string;
+  type: PaymentType;
+  method: PaymentMethod;
+  amount: number;      // Always positive, in Local Currency; refunds are subtracted
+  date: string;
+  note?: string;
+}
+
+export interface InvoiceSettings {
+  shopName: string;
+  paymentInstructions: string; // Bank account, LINE Pay ID etc., printed under the total
+  numberPrefix: string;        // e.g. 'INV-'
+  nextNumber: number;          // Sequence the next issued invoice gets
+}
+
+// Customer statement for a set of transactions
+export interface Invoice {
+  id: string;
+  number: string;          // Sequential, e.g. 'INV-0001'; empty until issued
+  customerId?: string;
+  customerName: string;
+  transactionIds: string[];
+  issuedAt: string;        // ISO timestamp; empty until issued
+  total: number;           // Statement total when issued, in Local Currency
+}
+
+// Records removed together by one delete or clear; restoring puts them all back
+export interface TrashedRecords {
+  transactions: Transaction[];
+  payments?: Payment[];
+  shipments?: Shipment[];
+  inventoryLots?: InventoryLot[];
+  trips?: Trip[];
+  cardSettlements?: CardSettlement[];
+  invoices?: Invoice[];
+}
+
+export interface TrashEntry {
+  id: string;
+  deletedAt: string; // ISO timestamp
+  deletedBy: string; // Device name
+  label: string;     // What was deleted, e.g. '王小明 · 合利他命 ×2'
+  records: TrashedRecords;
+}
+
+export type ChangeAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface FieldChange {
+  field: string;
+  from: unknown; // null when the field was empty
+  to: unknown;
+}
+
+// One entry in a transaction's history
+export interface TransactionChange {
+  id: string;
+  transactionId: string;
+  at: string;      // ISO timestamp
+  by: string;      // Device name
+  action: ChangeAction;
+  summary: string; // Customer · item at the time, so the entry stays readable after a delete
+  changes: FieldChange[]; // Only for 'update'
+}
+
+export type ProfitFilter = 'all' | 'loss' | 'profit';
+
+export interface TransactionFilter {
+  query: string;              // Matches customer or item name, case-insensitive
+  country: Country | '';      // '' = every country
+  dateFrom: string;           // YYYY-MM-DD inclusive, '' = open-ended
+  dateTo: string;
+  minQuantity: number | null;
+  maxQuantity: number | null;
+  profit: ProfitFilter;       // 'loss' keeps only loss-making rows
+}
+
+export type TransactionSortKey = 'date' | 'profit' | 'margin' | 'customer';
+
+export interface PeriodSummary {
+  from: string; // YYYY-MM-DD inclusive
+  to: string;
+  sales: number;
+  cost: number;
+  profit: number;
+  margin: number; // profit / sales, 0 when nothing was sold
+  itemCount: number;
+  orderCount: number;
 }
 
 export interface SummaryStats {
@@ -31,13 +302,19 @@ export interface SummaryStats {
   totalCost: number;
   totalProfit: number;
   itemCount: number;
+  orderCount: number;    // Distinct orders, excluding cancelled lines
+  statusCounts: Record<OrderStatus, number>;
+  totalReceived: number;
+  accountsReceivable: number;
+  fxGainLoss: number;    // Realized gain (+) / loss (-) on card-settled purchases vs. the typed rate
+  settledCount: number;  // Number of transactions with a recorded card settlement
 }
 
 // ==========================================
 // 2. SERVICE (Gemini AI)
 // ==========================================
 
-const analyzeSalesData = async (transactions: Transaction[]): Promise<string> => {
+const analyzeSalesData = async (transactions: Transaction[], countries: SourcingCountry[], stockCosts: Record<string, number>): Promise<string> => {
   if (transactions.length === 0) {
     return "尚無銷售數據可供分析。請先新增一些交易紀錄。";
   }
@@ -46,17 +323,17 @@ const analyzeSalesData = async (transactions: Transaction[]): Promise<string> =>
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   const dataSummary = transactions.map(t => ({
-    country: t.country || 'JP',
+    country: t.country || LEGACY_DEFAULT_COUNTRY,
     item: t.itemName,
     qty: t.quantity,
-    cost: t.costJpy,
+    cost: t.costForeign,
     rate: t.exchangeRate,
     sold: t.priceSold,
-    profit: (t.priceSold - (t.costJpy * t.exchangeRate)) * t.quantity
+    profit: getTransactionFigures(t, {}, stockCosts).profit
   }));
 
   const prompt = `
-    你是一位專業的代購銷售分析師。以下是目前的銷售數據 (JSON 格式)，包含不同國家 (JP=日本, KR=韓國, OTHER=其他) 的代購紀錄：
+    你是一位專業的代購銷售分析師。以下是目前的銷售數據 (JSON 格式)，包含不同國家 (${countries.map(c => `${c.code}=${c.label}`).join(', ')}) 的代購紀錄：
     ${JSON.stringify(dataSummary)}
 
     請用繁體中文 (Traditional Chinese) 為我提供一份簡短的分析報告 (約 150-200 字)。
@@ -84,539 +361,7050 @@ const analyzeSalesData = async (transactions: Transaction[]): Promise<string> =>
 // 3. COMPONENTS
 // ==========================================
 
-// --- DashboardStats Component ---
-const StatCard: React.FC<{ title: string; value: string; icon: React.ReactNode; colorClass: string; bgClass: string }> = ({ 
-  title, value, icon, colorClass, bgClass
-}) => (
-  <div className={`rounded-xl shadow-sm p-6 border flex items-center justify-between transition-transform hover:scale-[1.01] ${bgClass}`}>
-    <div>
-      <p className="text-xs font-bold opacity-60 mb-1 tracking-wider uppercase">{title}</p>
-      <h3 className="text-2xl font-black">{value}</h3>
-    </div>
-    <div className={`p-3 rounded-full bg-white bg-opacity-80 shadow-sm`}>
-      {React.isValidElement(icon) 
-        ? React.cloneElement(icon as React.ReactElement<{ className?: string }>, { className: `w-5 h-5 ${colorClass}` })
-        : icon
-      }
-    </div>
-  </div>
-);
+// --- Helpers ---
+const generateId = (): string => Date.now().toString(36) + Math.random().toString(36).substring(2);
 
-const DashboardStats: React.FC<{ stats: SummaryStats }> = ({ stats }) => {
-  return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-      <StatCard 
-        title="總銷售額" 
-        value={`$${stats.totalSales.toLocaleString()}`} 
-        icon={<DollarSign />} 
-        colorClass="text-yellow-600"
-        bgClass="bg-white border-yellow-200 text-yellow-900"
-      />
-      <StatCard 
-        title="總成本 (依匯率)" 
-        value={`$${stats.totalCost.toLocaleString()}`} 
-        icon={<CreditCard />} 
-        colorClass="text-stone-500"
-        bgClass="bg-white border-stone-200 text-stone-700"
-      />
-      <StatCard 
-        title="淨利潤" 
-        value={`$${stats.totalProfit.toLocaleString()}`} 
-        icon={<HandCoins />} 
-        colorClass="text-orange-500"
-        bgClass="bg-white border-orange-200 text-orange-900"
-      />
-      <StatCard 
-        title="總售出商品數" 
-        value={`${stats.itemCount} 件`} 
-        icon={<ShoppingBag />} 
-        colorClass="text-amber-500"
-        bgClass="bg-white border-amber-100 text-amber-900"
-      />
-    </div>
-  );
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 };
 
-// --- TransactionForm Component ---
-const COUNTRY_CONFIG: Record<Country, { label: string; rate: number; sellingRate: number; currency: string }> = {
-  JP: { label: '日本', rate: 0.2, sellingRate: 0.28, currency: '¥' },
-  KR: { label: '韓國', rate: 0.02, sellingRate: 0.035, currency: '₩' },
-  OTHER: { label: '其他', rate: 1.0, sellingRate: 1.0, currency: '$' },
+// --- Country Registry ---
+const COUNTRY_COLOR_CLASSES: Record<CountryColor, string> = {
+  red: 'bg-red-50 text-red-600 border-red-100',
+  blue: 'bg-blue-50 text-blue-600 border-blue-100',
+  green: 'bg-green-50 text-green-600 border-green-100',
+  amber: 'bg-amber-50 text-amber-700 border-amber-100',
+  purple: 'bg-purple-50 text-purple-600 border-purple-100',
+  teal: 'bg-teal-50 text-teal-600 border-teal-100',
+  pink: 'bg-pink-50 text-pink-600 border-pink-100',
+  gray: 'bg-gray-50 text-gray-600 border-gray-200',
 };
 
-const TransactionForm: React.FC<{ onAddTransaction: (t: Transaction) => void; defaultExchangeRate: number }> = ({ onAddTransaction }) => {
-  const [country, setCountry] = useState<Country>('JP');
-  
-  const [formData, setFormData] = useState({
-    date: new Date().toISOString().split('T')[0],
-    customerName: '',
-    itemName: '',
-    quantity: '1',
-    costForeign: '',
-    exchangeRate: String(COUNTRY_CONFIG['JP'].rate),
-    sellingExchangeRate: String(COUNTRY_CONFIG['JP'].sellingRate),
-    priceSold: '',
-  });
+// Records saved before the country field existed were all Japanese purchases
+const LEGACY_DEFAULT_COUNTRY: Country = 'JP';
 
-  const handleCountryChange = (newCountry: Country) => {
-    setCountry(newCountry);
-    const config = COUNTRY_CONFIG[newCountry];
-    
-    const currentCost = parseFloat(formData.costForeign) || 0;
-    const newPriceSold = currentCost > 0 ? String(Math.round(currentCost * config.sellingRate)) : formData.priceSold;
+const DEFAULT_COUNTRIES: SourcingCountry[] = [
+  { code: 'JP', label: '日本', currencyCode: 'JPY', symbol: '¥', rate: 0.2, sellingRate: 0.28, color: 'red' },
+  { code: 'KR', label: '韓國', currencyCode: 'KRW', symbol: '₩', rate: 0.02, sellingRate: 0.035, color: 'blue' },
+  { code: 'OTHER', label: '其他', currencyCode: 'TWD', symbol: '$', rate: 1.0, sellingRate: 1.0, color: 'gray' },
+];
 
-    setFormData(prev => ({
-      ...prev,
-      exchangeRate: String(config.rate),
-      sellingExchangeRate: String(config.sellingRate),
-      priceSold: newPriceSold,
-    }));
-  };
+const findCountry = (countries: SourcingCountry[], code: Country | undefined): SourcingCountry => {
+  const key = code || LEGACY_DEFAULT_COUNTRY;
+  return countries.find(c => c.code === key)
+    || { code: key, label: key, currencyCode: key, symbol: '$', rate: 1, sellingRate: 1, color: 'gray' };
+};
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    
-    setFormData(prev => {
-      const updated = { ...prev, [name]: value };
-      if (name === 'costForeign' || name === 'sellingExchangeRate') {
-        const cost = name === 'costForeign' ? parseFloat(value) : parseFloat(prev.costForeign);
-        const sRate = name === 'sellingExchangeRate' ? parseFloat(value) : parseFloat(prev.sellingExchangeRate);
-        
-        if (!isNaN(cost) && !isNaN(sRate)) {
-          updated.priceSold = String(Math.round(cost * sRate));
-        } else {
-            if (name === 'costForeign' && value === '') {
-                 updated.priceSold = '';
-            }
-        }
-      }
-      return updated;
-    });
-  };
+const getCountryLabel = (countries: SourcingCountry[], c: Country | undefined): string => findCountry(countries, c).label;
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!formData.customerName || !formData.itemName) return;
+const getCurrencySymbol = (countries: SourcingCountry[], c: Country | undefined): string => findCountry(countries, c).symbol;
 
-    const quantity = parseInt(formData.quantity) || 1;
-    const costForeign = parseFloat(formData.costForeign) || 0;
-    const exchangeRate = parseFloat(formData.exchangeRate) || 0;
-    const sellingExchangeRate = parseFloat(formData.sellingExchangeRate) || 0;
-    const priceSold = parseFloat(formData.priceSold) || 0;
+const getCountryColor = (countries: SourcingCountry[], c: Country | undefined): string => COUNTRY_COLOR_CLASSES[findCountry(countries, c).color];
 
-    const newTransaction: Transaction = {
-      id: Date.now().toString(36) + Math.random().toString(36).substring(2),
-      country: country,
-      customerName: formData.customerName,
-      itemName: formData.itemName,
-      quantity: quantity,
-      costJpy: costForeign,
-      exchangeRate: exchangeRate,
-      sellingExchangeRate: sellingExchangeRate,
-      priceSold: priceSold,
-      date: formData.date || new Date().toISOString(),
-    };
+// Fills in the legacy default on records without a country, and registers any code that is
+// referenced by data but missing from the registry so nothing renders as an unknown country.
+const migrateCountryRegistry = (
+  countries: SourcingCountry[],
+  transactions: Transaction[],
+  trips: Trip[]
+): { countries: SourcingCountry[]; transactions: Transaction[] } => {
+  const needsDefault = transactions.some(t => !t.country);
+  const migrated = needsDefault
+    ? transactions.map(t => t.country ? t : { ...t, country: LEGACY_DEFAULT_COUNTRY })
+    : transactions;
 
-    onAddTransaction(newTransaction);
-    
-    setFormData(prev => ({
-      ...prev,
-      customerName: '',
-      itemName: '',
-      quantity: '1',
-      costForeign: '',
-      priceSold: '',
-    }));
+  const known = new Set(countries.map(c => c.code));
+  const missing = [...new Set([...migrated.map(t => t.country), ...trips.map(t => t.destination)])]
+    .filter(code => !known.has(code))
+    .map(code => DEFAULT_COUNTRIES.find(c => c.code === code) || findCountry([], code));
+
+  return {
+    countries: missing.length > 0 ? [...countries, ...missing] : countries,
+    transactions: migrated,
   };
+};
 
-  const quantity = parseInt(formData.quantity) || 0;
-  const costForeign = parseFloat(formData.costForeign) || 0;
-  const exchangeRate = parseFloat(formData.exchangeRate) || 0;
-  const priceSold = parseFloat(formData.priceSold) || 0;
-  const localCostUnit = Math.round(costForeign * exchangeRate);
-  const estimatedProfit = (priceSold - localCostUnit) * quantity;
-  const profitMargin = priceSold > 0 ? Math.round(((priceSold - localCostUnit) / priceSold) * 100) : 0;
-  const currentConfig = COUNTRY_CONFIG[country];
+// --- Exchange Rates ---
+// Latest rate-table entry for the currency on or before the given day
+const findEffectiveRate = (rates: ExchangeRateEntry[], currencyCode: string, date: string): ExchangeRateEntry | null => {
+  const day = date.split('T')[0];
+  return rates.reduce<ExchangeRateEntry | null>((best, r) => {
+    if (r.currencyCode !== currencyCode || r.date > day) return best;
+    return !best || r.date > best.date ? r : best;
+  }, null);
+};
 
-  return (
-    <div className="bg-white rounded-xl shadow-sm p-6 mb-8 border border-yellow-50">
-      <div className="flex items-center gap-2 mb-4 text-gray-700">
-        <Plus className="w-5 h-5 text-yellow-500" />
-        <h2 className="text-lg font-bold">新增銷售紀錄</h2>
-      </div>
+// Rates to prefill for a purchase: the rate table when it has an entry, else the country defaults
+const resolveDefaultRates = (
+  countries: SourcingCountry[],
+  rates: ExchangeRateEntry[],
+  code: Country,
+  date: string
+): { rate: number; sellingRate: number; rateDate: string | null } => {
+  const config = findCountry(countries, code);
+  const entry = findEffectiveRate(rates, config.currencyCode, date);
+  return entry
+    ? { rate: entry.rate, sellingRate: entry.sellingRate ?? config.sellingRate, rateDate: entry.date }
+    : { rate: config.rate, sellingRate: config.sellingRate, rateDate: null };
+};
 
-      <div className="mb-6 space-y-4">
-        <div>
-          <label className="block text-xs font-medium text-gray-400 mb-1 flex items-center gap-1">
-            <Calendar className="w-3.5 h-3.5" /> 交易日期
-          </label>
-          <input
-            type="date"
-            name="date"
-            value={formData.date}
-            onChange={handleChange}
-            className="w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-600"
-            required
-          />
-        </div>
+const normalizeRateDate = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const iso = `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+  return isNaN(new Date(iso).getTime()) ? null : iso;
+};
 
-        <div>
-            <label className="block text-xs font-medium text-gray-400 mb-2 flex items-center gap-1">
-            <Globe className="w-3.5 h-3.5" /> 選擇代購國家
-            </label>
-            <div className="flex gap-2">
-            {(Object.keys(COUNTRY_CONFIG) as Country[]).map((c) => (
-                <button
-                key={c}
-                type="button"
-                onClick={() => handleCountryChange(c)}
-                className={`flex-1 py-2 px-3 rounded-lg text-sm font-bold transition-all border ${
-                    country === c
-                    ? 'bg-yellow-100 text-yellow-800 border-yellow-200 shadow-sm'
-                    : 'bg-white text-gray-400 border-gray-100 hover:bg-gray-50'
-                }`}
-                >
-                {COUNTRY_CONFIG[c].label}
-                </button>
-            ))}
-            </div>
-        </div>
-      </div>
+// Parses "date,rate[,sellingRate]" or "date,currency,rate[,sellingRate]" rows (comma or tab separated).
+// A header row and blank lines are skipped; unparseable lines are reported by line number.
+const parseRateCsv = (text: string, fallbackCurrency: string): { entries: ExchangeRateEntry[]; errors: string[] } => {
+  const entries: ExchangeRateEntry[] = [];
+  const errors: string[] = [];
 
-      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-x-4 gap-y-5">
-        <div className="lg:col-span-2">
-          <label className="block text-xs font-medium text-gray-400 mb-1">客人名字</label>
-          <input
-            type="text"
-            name="customerName"
-            value={formData.customerName}
-            onChange={handleChange}
-            className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300"
-            placeholder="例如: 王小明"
-            required
-          />
-        </div>
-        
-        <div className="lg:col-span-2">
-          <label className="block text-xs font-medium text-gray-400 mb-1">商品名稱</label>
-          <input
-            type="text"
-            name="itemName"
-            value={formData.itemName}
-            onChange={handleChange}
-            className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300"
-            placeholder="例如: 合力他命"
-            required
-          />
-        </div>
+  text.split(/\r?\n/).forEach((line, index) => {
+    const cells = line.split(/[,\t]/).map(c => c.trim().replace(/^"|"$/g, ''));
+    if (cells.every(c => c === '')) return;
 
-        <div className="lg:col-span-2">
-          <label className="block text-xs font-medium text-gray-400 mb-1">數量</label>
-          <input
-            type="number"
-            name="quantity"
+    const date = normalizeRateDate(cells[0]);
+    if (!date) {
+      if (index > 0) errors.push(`第 ${index + 1} 行：日期格式錯誤 (${cells[0]})`);
+      return;
+    }
+
+    const hasCurrency = cells.length > 1 && isNaN(parseFloat(cells[1]));
+    const currencyCode = hasCurrency ? cells[1].toUpperCase() : fallbackCurrency;
+    const [rateCell, sellingCell] = hasCurrency ? cells.slice(2) : cells.slice(1);
+    const rate = parseFloat(rateCell);
+    const sellingRate = parseFloat(sellingCell);
+
+    if (!(rate > 0)) {
+      errors.push(`第 ${index + 1} 行：匯率無效 (${rateCell ?? ''})`);
+      return;
+    }
+    entries.push({ id: generateId(), currencyCode, date, rate, sellingRate: sellingRate > 0 ? sellingRate : undefined });
+  });
+
+  return { entries, errors };
+};
+
+// Adds entries to the table; an entry for the same currency and day replaces the old one
+const mergeRateEntries = (existing: ExchangeRateEntry[], incoming: ExchangeRateEntry[]): ExchangeRateEntry[] => {
+  const keyOf = (r: ExchangeRateEntry) => `${r.currencyCode}|${r.date}`;
+  const incomingKeys = new Set(incoming.map(keyOf));
+  return [...existing.filter(r => !incomingKeys.has(keyOf(r))), ...incoming];
+};
+
+// --- Tax Refunds ---
+const TAX_REFUND_STATUS_LABELS: Record<TaxRefundStatus, string> = {
+  none: '無退稅',
+  tax_free: '免稅購買',
+  pending: '退稅待領',
+  received: '退稅已領',
+};
+
+const hasTaxRefund = (t: Transaction): boolean =>
+  t.taxRefundStatus === 'pending' || t.taxRefundStatus === 'received';
+
+// Foreign cost per unit after any tax refund; all local cost and profit figures build on this
+const getNetForeignCost = (t: Transaction): number =>
+  hasTaxRefund(t) ? netForeignCost(t.costForeign, t.taxRefundPerUnit || 0) : t.costForeign;
+
+// --- Card Settlements ---
+interface SettlementSummary {
+  itemCount: number;
+  estimated: number; // costForeign x exchangeRate as recorded on the purchases (tax-inclusive, as charged)
+  actual: number;    // Billed amount plus overseas fee
+  gainLoss: number;  // estimated - actual; positive means the card billed less than we booked
+}
+
+const summarizeSettlement = (settlement: CardSettlement, transactions: Transaction[]): SettlementSummary => {
+  const items = transactions.filter(t => t.cardSettlementId === settlement.id);
+  const estimated = items.reduce((sum, t) => sum + tryCalculate(() => lineAmount(convertToLocal(t.costForeign, t.exchangeRate), t.quantity), 0), 0);
+  const actual = settlement.settledAmount + settlement.foreignFee;
+  return { itemCount: items.length, estimated, actual, gainLoss: estimated - actual };
+};
+
+// --- Order Status ---
+const ORDER_STATUSES: OrderStatus[] = ['requested', 'purchased', 'shipped', 'arrived', 'delivered', 'cancelled'];
+
+const STATUS_CONFIG: Record<OrderStatus, { label: string; color: string }> = {
+  requested: { label: '已接單', color: 'bg-gray-50 text-gray-600 border-gray-200' },
+  purchased: { label: '已購買', color: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  shipped: { label: '運送回台', color: 'bg-blue-50 text-blue-600 border-blue-100' },
+  arrived: { label: '已到貨', color: 'bg-purple-50 text-purple-600 border-purple-100' },
+  delivered: { label: '已交貨', color: 'bg-green-50 text-green-700 border-green-100' },
+  cancelled: { label: '已取消', color: 'bg-red-50 text-red-400 border-red-100 line-through' },
+};
+
+const getTransactionStatus = (t: Transaction): OrderStatus => t.status || 'requested';
+
+// Moves a transaction to a new stage, stamping the time the stage was first reached
+const applyStatus = (t: Transaction, status: OrderStatus, at: string = new Date().toISOString()): Transaction => {
+  if (getTransactionStatus(t) === status && t.statusHistory?.[status]) return t;
+  return {
+    ...t,
+    status,
+    statusHistory: { ...t.statusHistory, [status]: at },
+  };
+};
+
+const StatusBadge: React.FC<{ status: OrderStatus; timestamp?: string }> = ({ status, timestamp }) => (
+  <span
+    className={`px-2 py-1 rounded-md text-[10px] font-medium border whitespace-nowrap ${STATUS_CONFIG[status].color}`}
+    title={timestamp ? new Date(timestamp).toLocaleString() : undefined}
+  >
+    {STATUS_CONFIG[status].label}
+  </span>
+);
+
+// --- Orders ---
+const getOrderId = (t: Transaction): string => t.orderId || t.id;
+
+// Fields every line of an order shares; editing them on one line carries over to the rest
+const ORDER_SHARED_FIELDS = ['customerId', 'customerName', 'date', 'country', 'exchangeRate', 'sellingExchangeRate', 'exchangeRateDate', 'tripId'] as const;
+
+const applyOrderFields = (line: Transaction, source: Transaction): Transaction => {
+  const shared = Object.fromEntries(ORDER_SHARED_FIELDS.map(key => [key, source[key]])) as Pick<Transaction, typeof ORDER_SHARED_FIELDS[number]>;
+  return { ...line, ...shared };
+};
+
+// Groups lines into orders, keeping the position of each order's first line
+const groupIntoOrders = (transactions: Transaction[]): Order[] => {
+  const orders = new Map<string, Order>();
+  transactions.forEach(t => {
+    const id = getOrderId(t);
+    const existing = orders.get(id);
+    if (existing) {
+      existing.lines.push(t);
+    } else {
+      orders.set(id, {
+        id,
+        customerId: t.customerId,
+        customerName: t.customerName,
+        date: t.date,
+        country: t.country,
+        exchangeRate: t.exchangeRate,
+        lines: [t],
+      });
+    }
+  });
+  return [...orders.values()];
+};
+
+const countOrders = (transactions: Transaction[]): number => new Set(transactions.map(getOrderId)).size;
+
+// Records from before multi-item orders become single-line orders keyed by their own id
+const migrateToOrders = (transactions: Transaction[]): Transaction[] =>
+  transactions.every(t => t.orderId) ? transactions : transactions.map(t => t.orderId ? t : { ...t, orderId: t.id });
+
+// --- Payments ---
+const PAYMENT_TYPE_CONFIG: Record<PaymentType, { label: string; color: string }> = {
+  deposit: { label: '訂金', color: 'text-yellow-700' },
+  final: { label: '尾款', color: 'text-green-700' },
+  refund: { label: '退款', color: 'text-red-500' },
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bank_transfer: '銀行轉帳',
+  line_pay: 'LINE Pay',
+  cash: '現金',
+  other: '其他',
+};
+
+const getAmountDue = (t: Transaction): number =>
+  getTransactionStatus(t) === 'cancelled' ? 0 : tryCalculate(() => lineAmount(t.priceSold, t.quantity), 0);
+
+const getPaidAmount = (payments: Payment[]): number =>
+  payments.reduce((sum, p) => sum + (p.type === 'refund' ? -p.amount : p.amount), 0);
+
+const groupPaymentsByTransaction = (payments: Payment[]): Record<string, Payment[]> =>
+  payments.reduce<Record<string, Payment[]>>((acc, p) => {
+    (acc[p.transactionId] ||= []).push(p);
+    return acc;
+  }, {});
+
+// --- Invoices ---
+const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  shopName: '代購小舖',
+  paymentInstructions: '',
+  numberPrefix: 'INV-',
+  nextNumber: 1,
+};
+
+interface InvoiceLine {
+  transactionId: string;
+  itemName: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+interface InvoiceDocument {
+  invoice: Invoice;
+  settings: InvoiceSettings;
+  lines: InvoiceLine[];
+  total: number;
+  paid: number;
+  balance: number;
+}
+
+// deviceCode keeps numbers unique when several synced devices each count their own sequence, e.g. INV-A1B2-0001
+const formatInvoiceNumber = (settings: InvoiceSettings, sequence: number, deviceCode = ''): string =>
+  `${settings.numberPrefix}${deviceCode ? `${deviceCode}-` : ''}${String(sequence).padStart(4, '0')}`;
+
+// Lines are read from the current records so a reprint reflects later corrections; cancelled items are left off
+const buildInvoiceDocument = (
+  invoice: Invoice,
+  settings: InvoiceSettings,
+  transactions: Transaction[],
+  paymentsByTransaction: Record<string, Payment[]>
+): InvoiceDocument => {
+  const ids = new Set(invoice.transactionIds);
+  const included = transactions
+    .filter(t => ids.has(t.id) && getTransactionStatus(t) !== 'cancelled')
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const lines = included.map(t => ({
+    transactionId: t.id,
+    itemName: t.itemName,
+    quantity: t.quantity,
+    unitPrice: t.priceSold,
+    amount: tryCalculate(() => lineAmount(t.priceSold, t.quantity), 0),
+  }));
+  const total = lines.reduce((sum, l) => sum + l.amount, 0);
+  const paid = included.reduce((sum, t) => sum + getPaidAmount(paymentsByTransaction[t.id] || []), 0);
+  return { invoice, settings, lines, total, paid, balance: total - paid };
+};
+
+const formatInvoiceDate = (iso: string): string => (iso ? new Date(iso) : new Date()).toLocaleDateString();
+
+// Plain-text version for pasting into a LINE chat
+const buildInvoiceText = (doc: InvoiceDocument): string => {
+  const { invoice, settings, lines } = doc;
+  const out = [
+    `【${settings.shopName}】對帳單 ${invoice.number}`,
+    `日期：${formatInvoiceDate(invoice.issuedAt)}`,
+    `客人：${invoice.customerName}`,
+    '',
+    ...lines.map((l, i) => `${i + 1}. ${l.itemName} × ${l.quantity} @ $${l.unitPrice.toLocaleString()} = $${l.amount.toLocaleString()}`),
+    '────────',
+    `合計：$${doc.total.toLocaleString()}`,
+  ];
+  if (doc.paid !== 0) {
+    out.push(`已付：$${doc.paid.toLocaleString()}`, `應付餘額：$${doc.balance.toLocaleString()}`);
+  }
+  if (settings.paymentInstructions.trim()) {
+    out.push('', '付款方式：', settings.paymentInstructions.trim());
+  }
+  return out.join('\n');
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+// Standalone page that opens the print dialog; A4 margins and no app chrome so "Save as PDF" gives a clean file
+const buildInvoiceHtml = (doc: InvoiceDocument): string => {
+  const { invoice, settings, lines } = doc;
+  const money = (n: number) => `$${n.toLocaleString()}`;
+  const rows = lines.map((l, i) => `
+        <tr>
+          <td>${i + 1}</td>
+          <td>${escapeHtml(l.itemName)}</td>
+          <td class="num">${l.quantity}</td>
+          <td class="num">${money(l.unitPrice)}</td>
+          <td class="num">${money(l.amount)}</td>
+        </tr>`).join('');
+  const paidRows = doc.paid !== 0 ? `
+        <tr><td colspan="4" class="num">已付</td><td class="num">${money(doc.paid)}</td></tr>
+        <tr class="grand"><td colspan="4" class="num">應付餘額</td><td class="num">${money(doc.balance)}</td></tr>` : '';
+  const instructions = settings.paymentInstructions.trim()
+    ? `<section class="pay"><h2>付款方式</h2><p>${escapeHtml(settings.paymentInstructions.trim()).replace(/\n/g, '<br>')}</p></section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(invoice.number)} ${escapeHtml(invoice.customerName)}</title>
+<style>
+  @page { size: A4; margin: 18mm; }
+  body { font-family: -apple-system, "Noto Sans TC", "PingFang TC", sans-serif; color: #333; margin: 0; padding: 24px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #333; padding-bottom: 12px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 14px; margin: 0 0 6px; }
+  .meta { text-align: right; font-size: 13px; line-height: 1.6; }
+  .to { margin: 16px 0; font-size: 14px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { padding: 8px 6px; border-bottom: 1px solid #e5e5e5; text-align: left; }
+  th { background: #f7f7f5; }
+  .num { text-align: right; white-space: nowrap; }
+  tfoot td { border-bottom: none; }
+  .grand td { font-weight: bold; font-size: 15px; border-top: 2px solid #333; }
+  .pay { margin-top: 24px; font-size: 13px; line-height: 1.6; }
+  @media print { body { padding: 0; } }
+</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(settings.shopName)}</h1>
+    <div class="meta">
+      <div><strong>對帳單 ${escapeHtml(invoice.number)}</strong></div>
+      <div>日期：${formatInvoiceDate(invoice.issuedAt)}</div>
+    </div>
+  </header>
+  <div class="to">客人：<strong>${escapeHtml(invoice.customerName)}</strong></div>
+  <table>
+    <thead>
+      <tr><th>#</th><th>商品</th><th class="num">數量</th><th class="num">單價</th><th class="num">小計</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+        <tr class="grand"><td colspan="4" class="num">合計</td><td class="num">${money(doc.total)}</td></tr>${paidRows}
+    </tfoot>
+  </table>
+  ${instructions}
+  <script>window.onload = function () { window.print(); };</script>
+</body>
+</html>`;
+};
+
+// --- Customers ---
+// Collapses stray whitespace so "王小明" and "王小明 " resolve to the same person
+const normalizeCustomerName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+// Another customer already going by this name; names must stay unique so records link to one person
+const findNameClash = (customers: Customer[], customer: Customer): Customer | undefined =>
+  customers.find(c => c.id !== customer.id && normalizeCustomerName(c.name) === normalizeCustomerName(customer.name));
+
+const createCustomer = (name: string): Customer => ({
+  id: generateId(),
+  name: normalizeCustomerName(name),
+  createdAt: new Date().toISOString(),
+});
+
+// Links transactions to customer records by normalized name, creating customers as needed.
+// Returns the original arrays untouched when nothing had to change.
+const linkTransactionsToCustomers = (
+  transactions: Transaction[],
+  customers: Customer[]
+): { transactions: Transaction[]; customers: Customer[] } => {
+  const byId = new Map(customers.map(c => [c.id, c]));
+  const byName = new Map(customers.map(c => [normalizeCustomerName(c.name), c]));
+  const created: Customer[] = [];
+  let changed = false;
+
+  const linked = transactions.map(t => {
+    if (t.customerId && byId.has(t.customerId)) return t;
+    const name = normalizeCustomerName(t.customerName);
+    let customer = byName.get(name);
+    if (!customer) {
+      customer = createCustomer(name);
+      byName.set(name, customer);
+      byId.set(customer.id, customer);
+      created.push(customer);
+    }
+    changed = true;
+    return { ...t, customerId: customer.id, customerName: customer.name };
+  });
+
+  return {
+    transactions: changed ? linked : transactions,
+    customers: created.length > 0 ? [...customers, ...created] : customers,
+  };
+};
+
+// --- Shipments ---
+const ALLOCATION_METHOD_LABELS: Record<AllocationMethod, string> = {
+  weight: '依重量',
+  value: '依商品成本',
+  quantity: '依件數',
+};
+
+const getShipmentSharedCost = (s: Shipment): number => s.freight + s.forwardingFee + s.customsDuty;
+
+// Splits each shipment's shared costs across its (non-cancelled) items and returns the
+// landed-cost add-on per transaction line. Rounding leftovers go to the largest share so
+// the allocations always add back up to the shipment total.
+const allocateShipmentCosts = (
+  shipments: Shipment[],
+  transactions: Transaction[],
+  stockCosts: Record<string, number>
+): Record<string, number> => {
+  const allocations: Record<string, number> = {};
+
+  shipments.forEach(shipment => {
+    const items = transactions.filter(t => t.shipmentId === shipment.id && getTransactionStatus(t) !== 'cancelled');
+    const sharedCost = getShipmentSharedCost(shipment);
+    if (items.length === 0 || sharedCost === 0) return;
+
+    const basisOf = (t: Transaction, method: AllocationMethod): number => {
+      switch (method) {
+        case 'weight': return (t.weightGrams || 0) * t.quantity;
+        case 'value': return tryCalculate(() => lineAmount(getLocalUnitCost(t, stockCosts), t.quantity), 0);
+        case 'quantity': return t.quantity;
+      }
+    };
+
+    // Fall back to quantity when e.g. no item has a weight recorded yet
+    let method = shipment.allocationMethod;
+    if (tryCalculate(() => addAmounts(...items.map(t => basisOf(t, method))), 0) <= 0) method = 'quantity';
+
+    // A shipment whose costs are out of range allocates nothing rather than breaking every total
+    const shares = tryCalculate(() => allocateByShare(sharedCost, items.map(t => basisOf(t, method))), null);
+    if (!shares) return;
+    items.forEach((t, i) => {
+      allocations[t.id] = shares[i];
+    });
+  });
+
+  return allocations;
+};
+
+// --- Trips ---
+const TRIP_EXPENSE_CATEGORY_LABELS: Record<TripExpenseCategory, string> = {
+  flight: '機票',
+  hotel: '住宿',
+  transport: '交通',
+  packaging: '包材',
+  other: '其他',
+};
+
+const getTripExpenseLocal = (e: TripExpense): number =>
+  e.isForeign ? tryCalculate(() => convertToLocal(e.amount, e.exchangeRate || 0), 0) : e.amount;
+
+interface TripSummary {
+  itemCount: number;
+  sales: number;
+  itemCost: number;
+  grossProfit: number;
+  expenses: number;
+  netProfit: number;
+  margin: number;
+}
+
+// Trip P&L: gross profit on the items bought during the trip (landed cost included) minus trip expenses
+const summarizeTrip = (
+  trip: Trip,
+  transactions: Transaction[],
+  allocatedCosts: Record<string, number>,
+  stockCosts: Record<string, number>
+): TripSummary => {
+  const items = transactions.filter(t => t.tripId === trip.id && getTransactionStatus(t) !== 'cancelled');
+  const figures = items.map(t => getTransactionFigures(t, allocatedCosts, stockCosts));
+  const sales = figures.reduce((sum, f) => sum + f.sales, 0);
+  const itemCost = figures.reduce((sum, f) => sum + f.cost, 0);
+  const expenses = trip.expenses.reduce((sum, e) => sum + getTripExpenseLocal(e), 0);
+  const netProfit = sales - itemCost - expenses;
+  return {
+    itemCount: items.reduce((sum, t) => sum + t.quantity, 0),
+    sales,
+    itemCost,
+    grossProfit: sales - itemCost,
+    expenses,
+    netProfit,
+    margin: marginPercent(netProfit, sales),
+  };
+};
+
+// --- Inventory ---
+const LOW_STOCK_THRESHOLD = 2; // Alert once on-hand units drop to this or below
+const STOCK_AGING_DAYS = 60;   // Alert when the oldest unsold unit was bought longer ago than this
+
+// Stock is matched to sales by item name, ignoring case and stray whitespace
+const getStockKey = (itemName: string): string => itemName.trim().replace(/\s+/g, ' ').toLowerCase();
+
+interface InventoryLedger {
+  unitCosts: Record<string, number>;  // Stock-sale id -> FIFO cost per unit in Local Currency
+  shortfalls: Record<string, number>; // Stock-sale id -> units sold beyond what the lots held
+  remaining: { lot: InventoryLot; remaining: number }[];
+}
+
+interface StockItemSummary {
+  key: string;
+  itemName: string;
+  onHand: number;
+  value: number;            // Remaining units at their lot cost, in Local Currency
+  oldestDate: string | null; // Purchase date of the oldest unit still on hand
+  ageDays: number;
+  lowStock: boolean;
+  aging: boolean;
+}
+
+// Local cost per unit before shared costs: the FIFO lot cost for stock sales, otherwise net foreign cost x rate.
+// NaN when the cost or rate is out of range.
+const getLocalUnitCost = (t: Transaction, stockCosts: Record<string, number>): number =>
+  t.id in stockCosts ? stockCosts[t.id] : tryCalculate(() => localUnitCost(getNetForeignCost(t), t.exchangeRate), NaN);
+
+// Replays stock sales in date order against lots in purchase order (FIFO).
+// Units sold beyond available stock fall back to the sale's own typed cost and are reported as a shortfall.
+const runInventoryFifo = (lots: InventoryLot[], transactions: Transaction[]): InventoryLedger => {
+  const queues: Record<string, { lot: InventoryLot; remaining: number }[]> = {};
+  const ordered = lots
+    .map((lot, index) => ({ lot, index }))
+    .sort((a, b) => a.lot.date.localeCompare(b.lot.date) || a.index - b.index)
+    .map(({ lot }) => ({ lot, remaining: lot.quantity }));
+  ordered.forEach(entry => {
+    const key = getStockKey(entry.lot.itemName);
+    (queues[key] = queues[key] || []).push(entry);
+  });
+
+  const unitCosts: Record<string, number> = {};
+  const shortfalls: Record<string, number> = {};
+  transactions
+    .map((t, index) => ({ t, index }))
+    .filter(({ t }) => t.fromStock && getTransactionStatus(t) !== 'cancelled' && t.quantity > 0)
+    .sort((a, b) => a.t.date.split('T')[0].localeCompare(b.t.date.split('T')[0]) || a.index - b.index)
+    .forEach(({ t }) => {
+      let needed = t.quantity;
+      let total = 0;
+      for (const entry of queues[getStockKey(t.itemName)] || []) {
+        if (needed === 0) break;
+        const take = Math.min(needed, entry.remaining);
+        entry.remaining -= take;
+        needed -= take;
+        total += tryCalculate(() => lineAmount(convertToLocal(entry.lot.costForeign, entry.lot.exchangeRate), take), NaN);
+      }
+      if (needed > 0) {
+        shortfalls[t.id] = needed;
+        total += tryCalculate(() => lineAmount(getLocalUnitCost(t, {}), needed), NaN);
+      }
+      unitCosts[t.id] = tryCalculate(() => averageUnitCost(total, t.quantity), NaN);
+    });
+
+  return { unitCosts, shortfalls, remaining: ordered };
+};
+
+const summarizeStock = (ledger: InventoryLedger, today: Date = new Date()): StockItemSummary[] => {
+  const items: Record<string, StockItemSummary> = {};
+  ledger.remaining.forEach(({ lot, remaining }) => {
+    const key = getStockKey(lot.itemName);
+    const item = items[key] || (items[key] = {
+      key, itemName: lot.itemName.trim(), onHand: 0, value: 0, oldestDate: null, ageDays: 0, lowStock: false, aging: false,
+    });
+    if (remaining <= 0) return;
+    item.onHand += remaining;
+    item.value += tryCalculate(() => lineAmount(convertToLocal(lot.costForeign, lot.exchangeRate), remaining), 0);
+    if (!item.oldestDate || lot.date < item.oldestDate) item.oldestDate = lot.date;
+  });
+
+  return Object.values(items)
+    .map(item => {
+      const ageDays = item.oldestDate
+        ? Math.floor((today.getTime() - parseDay(item.oldestDate.split('T')[0]).getTime()) / 86400000)
+        : 0;
+      return { ...item, ageDays, lowStock: item.onHand <= LOW_STOCK_THRESHOLD, aging: item.onHand > 0 && ageDays > STOCK_AGING_DAYS };
+    })
+    .sort((a, b) => b.onHand - a.onHand || a.itemName.localeCompare(b.itemName, 'zh-Hant'));
+};
+
+// --- Product Catalog ---
+// Exact match on name, alias or barcode, ignoring case and stray whitespace
+const findProduct = (products: Product[], text: string): Product | undefined => {
+  const key = getStockKey(text);
+  if (!key) return undefined;
+  return products.find(p =>
+    getStockKey(p.name) === key ||
+    p.aliases.some(a => getStockKey(a) === key) ||
+    (p.barcode && p.barcode.trim() === text.trim())
+  );
+};
+
+const createProduct = (t: Transaction): Product => ({
+  id: generateId(),
+  name: t.itemName.trim(),
+  aliases: [],
+  country: t.country,
+  lastCostForeign: t.costForeign,
+  usualPrice: t.priceSold,
+  lastRecordedDate: t.date.split('T')[0],
+});
+
+// Links transactions to catalog products by name/alias, creating products as needed, and refreshes
+// each product's cost and price from its most recent transaction. Editing an older record never
+// overwrites prices learned from a newer one, and prices set by hand are only replaced by a transaction
+// dated after that day. Returns the original arrays untouched when nothing changed.
+const linkTransactionsToProducts = (
+  transactions: Transaction[],
+  products: Product[]
+): { transactions: Transaction[]; products: Product[] } => {
+  let catalog = products;
+  const links: Record<string, string> = {};
+
+  transactions
+    .map((t, index) => ({ t, index }))
+    .filter(({ t }) => t.itemName.trim() !== '')
+    .sort((a, b) => a.t.date.split('T')[0].localeCompare(b.t.date.split('T')[0]) || a.index - b.index)
+    .forEach(({ t }) => {
+      const day = t.date.split('T')[0];
+      const existing = catalog.find(p => p.id === t.productId) || findProduct(catalog, t.itemName);
+      if (!existing) {
+        const created = createProduct(t);
+        catalog = [...catalog, created];
+        links[t.id] = created.id;
+        return;
+      }
+      links[t.id] = existing.id;
+      if (existing.lastRecordedDate && day < existing.lastRecordedDate) return;
+      if (existing.pricesSetOn && day <= existing.pricesSetOn) return;
+      // Stock sales carry a placeholder cost, so only their price is learned
+      const learned: Product = {
+        ...existing,
+        country: t.fromStock ? existing.country : t.country,
+        lastCostForeign: t.fromStock ? existing.lastCostForeign : t.costForeign,
+        usualPrice: t.priceSold,
+        lastRecordedDate: day,
+      };
+      const changed = learned.country !== existing.country || learned.lastCostForeign !== existing.lastCostForeign ||
+        learned.usualPrice !== existing.usualPrice || learned.lastRecordedDate !== existing.lastRecordedDate;
+      if (changed) catalog = catalog.map(p => p.id === existing.id ? learned : p);
+    });
+
+  let relinked = false;
+  const linked = transactions.map(t => {
+    const productId = links[t.id];
+    if (!productId || t.productId === productId) return t;
+    relinked = true;
+    return { ...t, productId };
+  });
+
+  return { transactions: relinked ? linked : transactions, products: catalog };
+};
+
+interface ProductSummary {
+  unitsSold: number;
+  sales: number;
+  profit: number;
+  margin: number;  // Sales-weighted average margin
+  orderCount: number;
+  lastSoldDate: string | null;
+}
+
+const summarizeProducts = (
+  transactions: Transaction[],
+  allocatedCosts: Record<string, number>,
+  stockCosts: Record<string, number>
+): Record<string, ProductSummary> => {
+  const summaries: Record<string, ProductSummary> = {};
+  transactions.forEach(t => {
+    if (!t.productId || getTransactionStatus(t) === 'cancelled') return;
+    const { sales, profit } = getTransactionFigures(t, allocatedCosts, stockCosts);
+    const s = summaries[t.productId] || (summaries[t.productId] = {
+      unitsSold: 0, sales: 0, profit: 0, margin: 0, orderCount: 0, lastSoldDate: null,
+    });
+    s.unitsSold += t.quantity;
+    s.sales += sales;
+    s.profit += profit;
+    s.orderCount += 1;
+    s.margin = marginRatio(s.profit, s.sales);
+    const day = t.date.split('T')[0];
+    if (!s.lastSoldDate || day > s.lastSoldDate) s.lastSoldDate = day;
+  });
+  return summaries;
+};
+
+// --- Pricing Rules ---
+const PRICING_BASE_LABELS: Record<PricingBase, string> = {
+  selling_rate: '外幣成本 × 賣出匯率',
+  cost_rate: '台幣成本 (成本匯率)',
+};
+
+const PRICE_ROUNDING_OPTIONS = [1, 10, 50, 100];
+
+interface PriceStep {
+  label: string;
+  amount: number; // Added to the price at this step; the first step is the base price
+}
+
+interface PriceQuote {
+  price: number;
+  rule?: PricingRule; // Missing when no rule applies and the plain selling-rate default was used
+  steps: PriceStep[];
+}
+
+// The most specific matching rule wins (country + category, then category, then country, then catch-all);
+// between equally specific rules the earlier one in the list wins
+const findPricingRule = (rules: PricingRule[], country: Country, category?: string): PricingRule | undefined => {
+  const specificity = (r: PricingRule) => (r.category ? 2 : 0) + (r.country ? 1 : 0);
+  return rules
+    .filter(r => (!r.country || r.country === country) && (!r.category || r.category === category))
+    .reduce<PricingRule | undefined>((best, r) => !best || specificity(r) > specificity(best) ? r : best, undefined);
+};
+
+// Fee tiers are matched on local unit cost, lowest band first; a band without an upper bound catches the rest
+const sortFeeTiers = (tiers: PricingFeeTier[]): PricingFeeTier[] =>
+  [...tiers].sort((a, b) => (a.upToCost ?? Infinity) - (b.upToCost ?? Infinity));
+
+const quotePrice = (rule: PricingRule | undefined, costForeign: number, exchangeRate: number, sellingRate: number): PriceQuote => {
+  if (!rule) {
+    const price = convertToLocal(costForeign, sellingRate);
+    return { price, steps: [{ label: PRICING_BASE_LABELS.selling_rate, amount: price }] };
+  }
+
+  const localCost = multiplyAmounts(costForeign, exchangeRate);
+  const base = rule.base === 'selling_rate' ? multiplyAmounts(costForeign, sellingRate) : localCost;
+  const steps: PriceStep[] = [{ label: PRICING_BASE_LABELS[rule.base], amount: base }];
+  let price = base;
+
+  const add = (label: string, amount: number) => {
+    if (amount === 0) return;
+    steps.push({ label, amount });
+    price = addAmounts(price, amount);
+  };
+
+  add(`加成 ${rule.markupPercent}%`, percentOf(base, rule.markupPercent));
+  add('每件手續費', rule.handlingFee);
+  const tier = sortFeeTiers(rule.feeTiers).find(t => t.upToCost === null || localCost <= t.upToCost);
+  if (tier) {
+    add(tier.upToCost === null ? '成本級距費 (最高級距)' : `成本級距費 (≤ $${tier.upToCost.toLocaleString()})`, tier.fee);
+  }
+  add(`補足最低利潤 $${rule.minProfit.toLocaleString()}`, shortfallTo(price, addAmounts(localCost, rule.minProfit)));
+
+  // Round up to the configured step; the sum above is exact decimal, so 350 stays 350 rather than becoming 360
+  const roundTo = rule.roundTo > 0 ? rule.roundTo : 1;
+  const rounded = roundUpToStep(price, roundTo);
+  add(roundTo > 1 ? `進位到 ${roundTo} 的倍數` : '進位到整數', addAmounts(rounded, -price));
+
+  return { price: rounded, rule, steps };
+};
+
+// --- Search & Filter ---
+const EMPTY_FILTER: TransactionFilter = {
+  query: '',
+  country: '',
+  dateFrom: '',
+  dateTo: '',
+  minQuantity: null,
+  maxQuantity: null,
+  profit: 'all',
+};
+
+const isFilterActive = (f: TransactionFilter): boolean =>
+  f.query.trim() !== '' || f.country !== '' || f.dateFrom !== '' || f.dateTo !== '' ||
+  f.minQuantity !== null || f.maxQuantity !== null || f.profit !== 'all';
+
+// Line totals in Local Currency, including this line's share of shipment costs
+interface TransactionFigures extends LineFigures {
+  calculable: boolean; // false when an amount or rate is out of range; the figures are then 0 and left out of totals
+}
+
+const UNCALCULABLE_FIGURES: TransactionFigures = { sales: 0, cost: 0, profit: 0, margin: 0, calculable: false };
+
+const getTransactionFigures = (
+  t: Transaction,
+  allocatedCosts: Record<string, number>,
+  stockCosts: Record<string, number>
+): TransactionFigures =>
+  tryCalculate(() => ({
+    ...lineFigures({
+      unitCost: getLocalUnitCost(t, stockCosts),
+      priceSold: t.priceSold,
+      quantity: t.quantity,
+      sharedCost: allocatedCosts[t.id] || 0,
+    }),
+    calculable: true,
+  }), UNCALCULABLE_FIGURES);
+
+// Every line's figures by transaction id, worked out once so filtering, sorting and rendering can share them
+const getFiguresById = (
+  transactions: Transaction[],
+  allocatedCosts: Record<string, number>,
+  stockCosts: Record<string, number>
+): Record<string, TransactionFigures> =>
+  Object.fromEntries(transactions.map(t => [t.id, getTransactionFigures(t, allocatedCosts, stockCosts)]));
+
+// Checked when a record is typed, imported or restored. Records that get in anyway (e.g. through sync)
+// show "—" and are left out of totals instead of breaking the page.
+const isCalculable = (t: Transaction): boolean => getTransactionFigures(t, {}, {}).calculable;
+
+// "$1,234", or "—" when the amount cannot be calculated
+const formatLocal = (calculate: () => number): string => {
+  const amount = tryCalculate(calculate, NaN);
+  return Number.isFinite(amount) ? `$${amount.toLocaleString()}` : '—';
+};
+
+const matchesFilter = (t: Transaction, f: TransactionFilter, figures: Record<string, TransactionFigures>): boolean => {
+  const query = f.query.trim().toLowerCase();
+  if (query && !t.customerName.toLowerCase().includes(query) && !t.itemName.toLowerCase().includes(query)) return false;
+  if (f.country && t.country !== f.country) return false;
+
+  const day = t.date.split('T')[0];
+  if (f.dateFrom && day < f.dateFrom) return false;
+  if (f.dateTo && day > f.dateTo) return false;
+  if (f.minQuantity !== null && t.quantity < f.minQuantity) return false;
+  if (f.maxQuantity !== null && t.quantity > f.maxQuantity) return false;
+
+  if (f.profit !== 'all') {
+    const { profit } = figures[t.id];
+    if (f.profit === 'loss' ? profit >= 0 : profit < 0) return false;
+  }
+  return true;
+};
+
+// Stable sort; ties (e.g. same day) keep newest-entered first like the original list
+const sortTransactions = (
+  transactions: Transaction[],
+  key: TransactionSortKey,
+  direction: 'asc' | 'desc',
+  figures: Record<string, TransactionFigures>
+): Transaction[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  const valueOf = (t: Transaction): number | string => {
+    switch (key) {
+      case 'date': return t.date.split('T')[0];
+      case 'customer': return t.customerName;
+      case 'profit': return figures[t.id].profit;
+      case 'margin': return figures[t.id].margin;
+    }
+  };
+  return transactions
+    .map((t, index) => ({ t, index, value: valueOf(t) }))
+    .sort((a, b) => {
+      const diff = typeof a.value === 'string'
+        ? a.value.localeCompare(b.value as string, 'zh-Hant')
+        : a.value - (b.value as number);
+      return diff !== 0 ? diff * sign : b.index - a.index;
+    })
+    .map(entry => entry.t);
+};
+
+// --- Period Reporting ---
+type ReportPeriod = 'this_month' | 'last_month' | 'this_quarter' | 'this_year' | 'custom';
+
+const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  this_month: '本月',
+  last_month: '上月',
+  this_quarter: '本季',
+  this_year: '今年',
+  custom: '自訂',
+};
+
+// Local calendar day as YYYY-MM-DD (toISOString would shift it to UTC)
+const toDayString = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseDay = (day: string): Date => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const monthRange = (year: number, monthIndex: number, months = 1): { from: string; to: string } => ({
+  from: toDayString(new Date(year, monthIndex, 1)),
+  to: toDayString(new Date(year, monthIndex + months, 0)),
+});
+
+const resolvePeriodRange = (
+  period: ReportPeriod,
+  custom: { from: string; to: string },
+  today: Date = new Date()
+): { from: string; to: string } => {
+  const y = today.getFullYear();
+  const m = today.getMonth();
+  switch (period) {
+    case 'this_month': return monthRange(y, m);
+    case 'last_month': return monthRange(y, m - 1);
+    case 'this_quarter': return monthRange(y, m - (m % 3), 3);
+    case 'this_year': return monthRange(y, 0, 12);
+    case 'custom': return custom;
+  }
+};
+
+// The period right before: the previous month / quarter / year for whole-month ranges,
+// otherwise the same number of days immediately preceding
+const getPreviousRange = (range: { from: string; to: string }): { from: string; to: string } => {
+  const from = parseDay(range.from);
+  const to = parseDay(range.to);
+  const isWholeMonths = from.getDate() === 1 && new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1).getDate() === 1;
+  if (isWholeMonths) {
+    const months = (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth() + 1;
+    return monthRange(from.getFullYear(), from.getMonth() - months, months);
+  }
+  const days = Math.round((to.getTime() - from.getTime()) / 86400000) + 1;
+  return {
+    from: toDayString(new Date(from.getFullYear(), from.getMonth(), from.getDate() - days)),
+    to: toDayString(new Date(from.getFullYear(), from.getMonth(), from.getDate() - 1)),
+  };
+};
+
+// Totals for transactions dated within [from, to]; cancelled orders are left out like the dashboard
+const summarizePeriod = (
+  transactions: Transaction[],
+  allocatedCosts: Record<string, number>,
+  stockCosts: Record<string, number>,
+  from: string,
+  to: string
+): PeriodSummary => {
+  const included = transactions.filter(t => {
+    const day = t.date.split('T')[0];
+    return day >= from && day <= to && getTransactionStatus(t) !== 'cancelled';
+  });
+  const summary = included.reduce((acc, t) => {
+    const figures = getTransactionFigures(t, allocatedCosts, stockCosts);
+    return {
+      ...acc,
+      sales: acc.sales + figures.sales,
+      cost: acc.cost + figures.cost,
+      profit: acc.profit + figures.profit,
+      itemCount: acc.itemCount + t.quantity,
+    };
+  }, { from, to, sales: 0, cost: 0, profit: 0, margin: 0, itemCount: 0, orderCount: countOrders(included) });
+  return { ...summary, margin: marginRatio(summary.profit, summary.sales) };
+};
+
+// Whole months covered by the range; a range inside one month shows the 12 months ending there
+const getReportMonths = (range: { from: string; to: string }): { from: string; to: string }[] => {
+  const from = parseDay(range.from);
+  const to = parseDay(range.to);
+  let months = (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth() + 1;
+  let start = new Date(from.getFullYear(), from.getMonth(), 1);
+  if (months <= 1) {
+    months = 12;
+    start = new Date(to.getFullYear(), to.getMonth() - 11, 1);
+  }
+  return Array.from({ length: months }, (_, i) => monthRange(start.getFullYear(), start.getMonth() + i));
+};
+
+// --- Charts ---
+type ChartGranularity = 'day' | 'week' | 'month';
+
+// Fill colors for charts, matching the badge colors in COUNTRY_COLOR_CLASSES
+const COUNTRY_CHART_COLORS: Record<CountryColor, string> = {
+  red: '#ef4444',
+  blue: '#3b82f6',
+  green: '#22c55e',
+  amber: '#f59e0b',
+  purple: '#a855f7',
+  teal: '#14b8a6',
+  pink: '#ec4899',
+  gray: '#9ca3af',
+};
+
+const MARGIN_BUCKETS: { label: string; max: number }[] = [
+  { label: '虧損', max: 0 },
+  { label: '0–10%', max: 0.1 },
+  { label: '10–20%', max: 0.2 },
+  { label: '20–30%', max: 0.3 },
+  { label: '30–40%', max: 0.4 },
+  { label: '40%+', max: Infinity },
+];
+
+// Day, Monday of the week, or YYYY-MM the transaction falls in
+const getChartBucket = (day: string, granularity: ChartGranularity): string => {
+  if (granularity === 'month') return day.slice(0, 7);
+  if (granularity === 'day') return day;
+  const d = parseDay(day);
+  return toDayString(new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7)));
+};
+
+// Sales and profit per key, sorted by profit (highest first); cancelled orders are skipped
+const groupProfitBy = (
+  transactions: Transaction[],
+  allocatedCosts: Record<string, number>,
+  stockCosts: Record<string, number>,
+  keyOf: (t: Transaction) => string
+): { key: string; sales: number; profit: number }[] => {
+  const groups: Record<string, { key: string; sales: number; profit: number }> = {};
+  transactions.forEach(t => {
+    if (getTransactionStatus(t) === 'cancelled') return;
+    const { sales, profit } = getTransactionFigures(t, allocatedCosts, stockCosts);
+    const key = keyOf(t);
+    const group = groups[key] || (groups[key] = { key, sales: 0, profit: 0 });
+    group.sales += sales;
+    group.profit += profit;
+  });
+  return Object.values(groups).sort((a, b) => b.profit - a.profit);
+};
+
+// --- Transaction Import ---
+type ImportField =
+  | 'date' | 'country' | 'status' | 'customerName' | 'itemName' | 'quantity'
+  | 'costForeign' | 'exchangeRate' | 'sellingExchangeRate' | 'priceSold' | 'id';
+
+type ImportMapping = Partial<Record<ImportField, number>>; // Field -> column index
+
+// Aliases include the headers written by the CSV export and "複製到 Sheets"
+const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: 'date', label: '日期', required: true, aliases: ['日期', 'date'] },
+  { key: 'country', label: '國家', required: false, aliases: ['國家', 'country'] },
+  { key: 'status', label: '狀態', required: false, aliases: ['狀態', 'status'] },
+  { key: 'customerName', label: '客人名字', required: true, aliases: ['客人名字', '客人', 'customer'] },
+  { key: 'itemName', label: '商品名稱', required: true, aliases: ['商品名稱', '商品', 'item'] },
+  { key: 'quantity', label: '數量', required: false, aliases: ['數量', 'qty', 'quantity'] },
+  { key: 'costForeign', label: '外幣成本(單件)', required: true, aliases: ['外幣成本(單件)', '外幣成本', 'cost'] },
+  { key: 'exchangeRate', label: '當日匯率', required: false, aliases: ['當日匯率', '匯率', 'rate'] },
+  { key: 'sellingExchangeRate', label: '賣出匯率', required: false, aliases: ['賣出匯率', 'selling rate'] },
+  { key: 'priceSold', label: '售價(單件)', required: true, aliases: ['售價(單件)', '售價', 'price'] },
+  { key: 'id', label: 'ID', required: false, aliases: ['id'] },
+];
+
+interface ImportRow {
+  line: number;                   // 1-based line in the pasted text / file
+  transaction: Transaction | null; // null when the row has errors
+  errors: string[];
+  duplicate: 'id' | 'content' | null; // Same id as a saved record, or same date/customer/item/qty/cost
+}
+
+// Splits CSV or TSV text into cells; tab-separated when the first line contains a tab.
+// Handles quoted cells with embedded delimiters, newlines and "" escapes.
+const parseDelimitedText = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = (source.split(/\r?\n/, 1)[0] || '').includes('\t') ? '\t' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch !== '"') {
+        cell += ch;
+      } else if (source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.map(r => r.map(c => c.trim()));
+};
+
+// Reads amounts like "¥1,200", "₩15000", "$-30" or "NT$450"; NaN when nothing numeric is left
+const parseAmount = (value: string | undefined): number => {
+  const cleaned = (value || '').replace(/[^\d.-]/g, '');
+  return cleaned === '' || cleaned === '-' ? NaN : Number(cleaned);
+};
+
+// Accepts YYYY-MM-DD / YYYY/M/D (optionally with a time part) and the en-US M/D/YYYY export format
+const parseImportDate = (value: string): string | null => {
+  const day = value.trim().split(/[T\s]/)[0];
+  const iso = normalizeRateDate(day);
+  if (iso) return iso;
+  const us = day.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  return us ? normalizeRateDate(`${us[3]}-${us[1]}-${us[2]}`) : null;
+};
+
+// Guesses the column for each field from the header row
+const autoMapColumns = (headers: string[]): ImportMapping => {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const mapping: ImportMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const index = normalized.findIndex(h => field.aliases.includes(h));
+    if (index >= 0) mapping[field.key] = index;
+  });
+  return mapping;
+};
+
+const getTransactionFingerprint = (t: Pick<Transaction, 'date' | 'customerName' | 'itemName' | 'quantity' | 'costForeign'>): string =>
+  [t.date.split('T')[0], normalizeCustomerName(t.customerName), t.itemName.trim(), t.quantity, t.costForeign].join('|');
+
+// Validates mapped rows and turns them into transactions without touching any state (dry run).
+// Rows without a rate column take the rate table / country default for their date, like the form does.
+const buildImportRows = (
+  rows: string[][],
+  firstLine: number,
+  mapping: ImportMapping,
+  options: {
+    countries: SourcingCountry[];
+    rates: ExchangeRateEntry[];
+    existing: Transaction[];
+    defaultCountry: Country;
+  }
+): ImportRow[] => {
+  const { countries, rates, existing, defaultCountry } = options;
+  const seenIds = new Set(existing.map(t => String(t.id)));
+  const seenFingerprints = new Set(existing.map(getTransactionFingerprint));
+  const result: ImportRow[] = [];
+
+  rows.forEach((cells, index) => {
+    if (cells.every(c => c === '')) return;
+    const read = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] || '').trim();
+    };
+    const errors: string[] = [];
+
+    const date = parseImportDate(read('date'));
+    if (!date) errors.push(`日期格式錯誤 (${read('date')})`);
+
+    const countryCell = read('country');
+    const country = countryCell
+      ? countries.find(c => c.code.toLowerCase() === countryCell.toLowerCase() || c.label === countryCell)?.code
+      : defaultCountry;
+    if (!country) errors.push(`未知國家 (${countryCell})`);
+
+    const statusCell = read('status');
+    const status = statusCell
+      ? ORDER_STATUSES.find(s => s === statusCell || STATUS_CONFIG[s].label === statusCell)
+      : undefined;
+    if (statusCell && !status) errors.push(`未知狀態 (${statusCell})`);
+
+    const customerName = normalizeCustomerName(read('customerName'));
+    if (!customerName) errors.push('缺少客人名字');
+    const itemName = read('itemName');
+    if (!itemName) errors.push('缺少商品名稱');
+
+    const quantity = read('quantity') ? parseAmount(read('quantity')) : 1;
+    if (!Number.isInteger(quantity) || quantity <= 0) errors.push(`數量無效 (${read('quantity')})`);
+
+    const costForeign = parseAmount(read('costForeign'));
+    if (!(costForeign >= 0)) errors.push(`外幣成本無效 (${read('costForeign')})`);
+    const priceSold = parseAmount(read('priceSold'));
+    if (!(priceSold >= 0)) errors.push(`售價無效 (${read('priceSold')})`);
+
+    const rateCell = read('exchangeRate');
+    const typedRate = parseAmount(rateCell);
+    if (rateCell && !(typedRate > 0)) errors.push(`匯率無效 (${rateCell})`);
+    const sellingCell = read('sellingExchangeRate');
+    const typedSelling = parseAmount(sellingCell);
+
+    const line = firstLine + index;
+    if (errors.length > 0 || !date || !country) {
+      result.push({ line, transaction: null, errors, duplicate: null });
+      return;
+    }
+
+    const defaults = resolveDefaultRates(countries, rates, country, date);
+    const base: Transaction = {
+      id: read('id') || generateId(),
+      country,
+      customerName,
+      itemName,
+      quantity,
+      costForeign,
+      exchangeRate: rateCell ? typedRate : defaults.rate,
+      sellingExchangeRate: typedSelling > 0 ? typedSelling : defaults.sellingRate,
+      priceSold,
+      date,
+      exchangeRateDate: !rateCell && defaults.rateDate ? defaults.rateDate : undefined,
+    };
+    const transaction = status ? applyStatus(base, status, new Date(date).toISOString()) : base;
+    if (!isCalculable(transaction)) {
+      result.push({ line, transaction: null, errors: ['金額或匯率過大，無法計算'], duplicate: null });
+      return;
+    }
+
+    const fingerprint = getTransactionFingerprint(transaction);
+    const duplicate = seenIds.has(String(transaction.id)) ? 'id' : seenFingerprints.has(fingerprint) ? 'content' : null;
+    seenIds.add(String(transaction.id));
+    seenFingerprints.add(fingerprint);
+
+    result.push({ line, transaction, errors, duplicate });
+  });
+
+  return result;
+};
+
+// --- Excel Export ---
+const LOCAL_MONEY_FORMAT = '"$"#,##0';
+const ZERO_DECIMAL_CURRENCIES = new Set(['JPY', 'KRW', 'TWD', 'VND', 'IDR']);
+
+const getForeignMoneyFormat = (country: SourcingCountry): string =>
+  `"${country.symbol.replace(/"/g, '')}"#,##0${ZERO_DECIMAL_CURRENCIES.has(country.currencyCode) ? '' : '.00'}`;
+
+// Column letters of the 交易明細 sheet, referenced by the summary formulas
+const SHEET_COLUMNS = {
+  date: 'A', month: 'B', country: 'C', status: 'D', customer: 'E', item: 'F', quantity: 'G',
+  currency: 'H', cost: 'I', refund: 'J', rate: 'K', sellingRate: 'L', localCost: 'M',
+  shared: 'N', price: 'O', sales: 'P', totalCost: 'Q', profit: 'R', id: 'S',
+} as const;
+
+interface WorkbookTotals { count: number; quantity: number; sales: number; cost: number }
+
+// Builds the bookkeeping workbook: typed cells, per-row formulas, and SUMIFS summaries that stay live when
+// rows are edited in Excel. Cached results are written too so previewers that don't recalculate show numbers.
+// Cancelled orders are listed but left out of every summary, matching the dashboard.
+const buildSalesWorkbook = async (
+  transactions: Transaction[],
+  countries: SourcingCountry[],
+  allocatedCosts: Record<string, number>,
+  stockCosts: Record<string, number>
+): Promise<ArrayBuffer> => {
+  // Loaded on demand so the spreadsheet library stays out of the initial bundle
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  workbook.calcProperties.fullCalcOnLoad = true;
+
+  const cancelledLabel = STATUS_CONFIG.cancelled.label;
+  const sorted = transactions.slice().sort((a, b) => a.date.localeCompare(b.date));
+  const firstRow = 2;
+  const lastRow = Math.max(firstRow, sorted.length + 1);
+  const range = (column: string) => `'交易明細'!$${column}$${firstRow}:$${column}$${lastRow}`;
+
+  // --- Sheet 1: one row per transaction ---
+  const detail = workbook.addWorksheet('交易明細', { views: [{ state: 'frozen', ySplit: 1 }] });
+  detail.columns = [
+    { header: '日期', width: 12, style: { numFmt: 'yyyy/mm/dd' } },
+    { header: '月份', width: 9, style: { numFmt: 'yyyy-mm' } },
+    { header: '國家', width: 8 },
+    { header: '狀態', width: 9 },
+    { header: '客人名字', width: 14 },
+    { header: '商品名稱', width: 28 },
+    { header: '數量', width: 7 },
+    { header: '幣別', width: 7 },
+    { header: '外幣成本(單件)', width: 14 },
+    { header: '退稅(單件)', width: 11 },
+    { header: '當日匯率', width: 10, style: { numFmt: '0.0000' } },
+    { header: '賣出匯率', width: 10, style: { numFmt: '0.0000' } },
+    { header: '台幣成本(單件)', width: 14, style: { numFmt: LOCAL_MONEY_FORMAT } },
+    { header: '分攤運費', width: 10, style: { numFmt: LOCAL_MONEY_FORMAT } },
+    { header: '售價(單件)', width: 11, style: { numFmt: LOCAL_MONEY_FORMAT } },
+    { header: '銷售額', width: 12, style: { numFmt: LOCAL_MONEY_FORMAT } },
+    { header: '總成本', width: 12, style: { numFmt: LOCAL_MONEY_FORMAT } },
+    { header: '總利潤', width: 12, style: { numFmt: LOCAL_MONEY_FORMAT } },
+    { header: 'ID', width: 18 },
+  ];
+  detail.getRow(1).font = { bold: true };
+
+  const byCountry = new Map<string, WorkbookTotals>();
+  const byCustomer = new Map<string, WorkbookTotals>();
+  const byMonth = new Map<string, WorkbookTotals>();
+  const addTo = (map: Map<string, WorkbookTotals>, key: string, t: Transaction, sales: number, cost: number) => {
+    const current = map.get(key) || { count: 0, quantity: 0, sales: 0, cost: 0 };
+    map.set(key, {
+      count: current.count + 1,
+      quantity: current.quantity + t.quantity,
+      sales: current.sales + sales,
+      cost: current.cost + cost,
+    });
+  };
+
+  sorted.forEach((t, index) => {
+    const r = firstRow + index;
+    const c = SHEET_COLUMNS;
+    const config = findCountry(countries, t.country);
+    const day = t.date.split('T')[0];
+    const [y, m, d] = day.split('-').map(Number);
+    const refund = hasTaxRefund(t) ? t.taxRefundPerUnit || 0 : 0;
+    const shared = allocatedCosts[t.id] || 0;
+    const { sales, cost, calculable } = getTransactionFigures(t, allocatedCosts, stockCosts);
+    const localCost = calculable ? getLocalUnitCost(t, stockCosts) : null;
+    const status = STATUS_CONFIG[getTransactionStatus(t)].label;
+
+    const row = detail.addRow([
+      new Date(Date.UTC(y, m - 1, d)),
+      new Date(Date.UTC(y, m - 1, 1)),
+      config.label,
+      status,
+      t.customerName,
+      t.itemName,
+      t.quantity,
+      config.currencyCode,
+      t.costForeign,
+      refund,
+      t.exchangeRate,
+      t.sellingExchangeRate ?? null,
+      // Stock sales carry their FIFO lot cost as a plain value; it can't be derived from this row
+      t.id in stockCosts ? localCost : { formula: `ROUND((${c.cost}${r}-${c.refund}${r})*${c.rate}${r},0)`, result: localCost },
+      shared,
+      t.priceSold,
+      { formula: `${c.quantity}${r}*${c.price}${r}`, result: sales },
+      { formula: `${c.localCost}${r}*${c.quantity}${r}+${c.shared}${r}`, result: cost },
+      { formula: `${c.sales}${r}-${c.totalCost}${r}`, result: sales - cost },
+      String(t.id),
+    ]);
+    const foreignFormat = getForeignMoneyFormat(config);
+    row.getCell(c.cost).numFmt = foreignFormat;
+    row.getCell(c.refund).numFmt = foreignFormat;
+
+    if (status === cancelledLabel) {
+      row.font = { color: { argb: 'FF9CA3AF' }, strike: true };
+      return;
+    }
+    addTo(byCountry, config.label, t, sales, cost);
+    addTo(byCustomer, t.customerName, t, sales, cost);
+    addTo(byMonth, day.slice(0, 7), t, sales, cost);
+  });
+
+  detail.autoFilter = { from: 'A1', to: `${SHEET_COLUMNS.id}1` };
+
+  const totalRow = detail.addRow([]);
+  totalRow.getCell(SHEET_COLUMNS.date).value = '合計';
+  (['quantity', 'sales', 'totalCost', 'profit'] as const).forEach(key => {
+    const column = SHEET_COLUMNS[key];
+    totalRow.getCell(column).value = { formula: `SUBTOTAL(9,${column}${firstRow}:${column}${lastRow})` };
+  });
+  totalRow.font = { bold: true };
+
+  // --- Summary blocks: one row per key, SUMIFS against the detail sheet, SUM total underneath ---
+  const SUMMARY_HEADERS = ['筆數', '數量', '銷售額', '成本', '利潤', '毛利率'];
+
+  const writeSummaryBlock = (
+    sheet: ReturnType<typeof workbook.addWorksheet>,
+    startRow: number,
+    title: string,
+    criteriaColumn: string,
+    entries: [string | Date, WorkbookTotals][],
+    keyFormat?: string
+  ): number => {
+    const c = SHEET_COLUMNS;
+    const notCancelled = `${range(c.status)},"<>${cancelledLabel}"`;
+    const header = sheet.getRow(startRow);
+    header.values = [title, ...SUMMARY_HEADERS];
+    header.font = { bold: true };
+
+    entries.forEach(([key, totals], index) => {
+      const r = startRow + 1 + index;
+      const match = `${range(criteriaColumn)},$A${r},${notCancelled}`;
+      const profit = totals.sales - totals.cost;
+      sheet.getRow(r).values = [
+        key,
+        { formula: `COUNTIFS(${match})`, result: totals.count },
+        { formula: `SUMIFS(${range(c.quantity)},${match})`, result: totals.quantity },
+        { formula: `SUMIFS(${range(c.sales)},${match})`, result: totals.sales },
+        { formula: `SUMIFS(${range(c.totalCost)},${match})`, result: totals.cost },
+        { formula: `D${r}-E${r}`, result: profit },
+        { formula: `IF(D${r}=0,0,F${r}/D${r})`, result: totals.sales === 0 ? 0 : profit / totals.sales },
+      ];
+    });
+
+    const first = startRow + 1;
+    const last = startRow + entries.length;
+    const totalAt = last + 1;
+    const sum = (column: string) => entries.length > 0 ? { formula: `SUM(${column}${first}:${column}${last})` } : 0;
+    const total = sheet.getRow(totalAt);
+    total.values = ['合計', sum('B'), sum('C'), sum('D'), sum('E'), sum('F'), { formula: `IF(D${totalAt}=0,0,F${totalAt}/D${totalAt})` }];
+    total.font = { bold: true };
+
+    for (let r = first; r <= totalAt; r++) {
+      ['D', 'E', 'F'].forEach(column => { sheet.getCell(`${column}${r}`).numFmt = LOCAL_MONEY_FORMAT; });
+      sheet.getCell(`G${r}`).numFmt = '0.0%';
+      if (keyFormat && r < totalAt) sheet.getCell(`A${r}`).numFmt = keyFormat;
+    }
+    return totalAt;
+  };
+
+  const setSummaryColumns = (sheet: ReturnType<typeof workbook.addWorksheet>) => {
+    sheet.columns = [{ width: 16 }, { width: 8 }, { width: 8 }, { width: 14 }, { width: 14 }, { width: 14 }, { width: 9 }];
+  };
+
+  // --- Sheet 2: per country, then per customer ---
+  const summary = workbook.addWorksheet('國家與客人彙總');
+  setSummaryColumns(summary);
+  const countryEnd = writeSummaryBlock(summary, 1, '國家', SHEET_COLUMNS.country, [...byCountry.entries()]);
+  writeSummaryBlock(
+    summary,
+    countryEnd + 2,
+    '客人',
+    SHEET_COLUMNS.customer,
+    [...byCustomer.entries()].sort((a, b) => b[1].sales - a[1].sales)
+  );
+
+  // --- Sheet 3: monthly totals ---
+  // Months are real dates (1st of the month) so SUMIFS matches them as numbers, not locale-dependent text
+  const monthly = workbook.addWorksheet('月報');
+  setSummaryColumns(monthly);
+  writeSummaryBlock(
+    monthly,
+    1,
+    '月份',
+    SHEET_COLUMNS.month,
+    [...byMonth.entries()]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([month, totals]): [Date, WorkbookTotals] => {
+        const [y, m] = month.split('-').map(Number);
+        return [new Date(Date.UTC(y, m - 1, 1)), totals];
+      }),
+    'yyyy-mm'
+  );
+
+  return workbook.xlsx.writeBuffer();
+};
+
+// --- Trash & Change History ---
+const UNDO_TOAST_MS = 8000;
+
+const TRANSACTION_FIELD_LABELS: Partial<Record<keyof Transaction, string>> = {
+  date: '日期',
+  country: '國家',
+  customerId: '客人 (連結)',
+  customerName: '客人',
+  itemName: '商品',
+  quantity: '數量',
+  costForeign: '外幣成本',
+  exchangeRate: '當日匯率',
+  sellingExchangeRate: '賣出匯率',
+  priceSold: '售價',
+  status: '狀態',
+  statusHistory: '狀態時間',
+  shipmentId: '運送批次',
+  weightGrams: '重量 (g)',
+  tripId: '代購行程',
+  exchangeRateDate: '匯率日期',
+  cardSettlementId: '刷卡結算',
+  taxRefundStatus: '退稅狀態',
+  taxRate: '稅率',
+  taxRefundPerUnit: '退稅金額',
+  taxRefundReceivedAt: '退稅領取日',
+  fromStock: '庫存出貨',
+  productId: '商品目錄',
+  orderId: '訂單',
+};
+
+const CHANGE_ACTION_LABELS: Record<ChangeAction, string> = {
+  create: '新增',
+  update: '修改',
+  delete: '刪除',
+  restore: '從垃圾桶復原',
+};
+
+const describeTransaction = (t: Transaction): string => `${t.customerName} · ${t.itemName} ×${t.quantity}`;
+
+const formatChangeValue = (field: string, value: unknown, countries: SourcingCountry[]): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'status') return STATUS_CONFIG[value as OrderStatus]?.label ?? String(value);
+  if (field === 'taxRefundStatus') return TAX_REFUND_STATUS_LABELS[value as TaxRefundStatus] ?? String(value);
+  if (field === 'country') return getCountryLabel(countries, value as Country);
+  if (typeof value === 'boolean') return value ? '是' : '否';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// One history entry per transaction created, changed (with the fields that differ) or removed between two versions
+const diffTransactionVersions = (
+  before: Transaction[],
+  after: Transaction[],
+  by: string,
+  restoredIds: Set<string>
+): TransactionChange[] => {
+  const at = new Date().toISOString();
+  const previous = new Map(before.map(t => [t.id, t]));
+  const entries: TransactionChange[] = [];
+  const addEntry = (t: Transaction, action: ChangeAction, changes: FieldChange[] = []) =>
+    entries.push({ id: generateId(), transactionId: t.id, at, by, action, summary: describeTransaction(t), changes });
+
+  after.forEach(t => {
+    const old = previous.get(t.id);
+    previous.delete(t.id);
+    if (!old) {
+      addEntry(t, restoredIds.has(t.id) ? 'restore' : 'create');
+      return;
+    }
+    if (old === t) return;
+    const oldFields = old as unknown as Record<string, unknown>;
+    const newFields = t as unknown as Record<string, unknown>;
+    const fields = Array.from(new Set([...Object.keys(oldFields), ...Object.keys(newFields)]));
+    const changes = fields
+      .filter(f => JSON.stringify(oldFields[f]) !== JSON.stringify(newFields[f]))
+      .map(f => ({ field: f, from: oldFields[f] ?? null, to: newFields[f] ?? null }));
+    if (changes.length > 0) addEntry(t, 'update', changes);
+  });
+  previous.forEach(t => addEntry(t, 'delete'));
+  return entries;
+};
+
+const countTrashedRecords = (records: TrashedRecords): number =>
+  Object.values(records).reduce((sum, list) => sum + (list?.length || 0), 0);
+
+// Applies the entries that are new or changed in next compared to base onto current, which may have moved on since
+const applyChangedRecords = <T extends { id: string }>(current: T[], base: T[], next: T[]): T[] => {
+  const unchanged = new Set(base);
+  const changed = new Map(next.filter(r => !unchanged.has(r)).map(r => [r.id, r]));
+  if (changed.size === 0) return current;
+  const updated = current.map(r => {
+    const replacement = changed.get(r.id);
+    changed.delete(r.id);
+    return replacement || r;
+  });
+  return [...updated, ...changed.values()];
+};
+
+// Puts trashed records back, skipping any whose id is in use again
+const restoreRecords = <T extends { id: string }>(current: T[], trashed: T[] | undefined): T[] => {
+  if (!trashed || trashed.length === 0) return current;
+  const ids = new Set(current.map(r => r.id));
+  const missing = trashed.filter(r => !ids.has(r.id));
+  return missing.length > 0 ? [...current, ...missing] : current;
+};
+
+// --- Stored Data ---
+// App-level upgrades of records written by older versions: orders, customer and product links, the country
+// registry. Runs on the local load and on restore only; records pulled from the sync server are applied as
+// they are, since relinking them would mint new ids on every device and push the rewritten records back.
+const migrateStoredData = (data: StoredData): StoredData => {
+  const stored = data.collections;
+  const linked = linkTransactionsToCustomers(migrateToOrders(stored.transactions), stored.customers);
+  const migrated = migrateCountryRegistry(stored.countries.length > 0 ? stored.countries : DEFAULT_COUNTRIES, linked.transactions, stored.trips);
+  const catalogued = linkTransactionsToProducts(migrated.transactions, stored.products);
+  return {
+    ...data,
+    collections: {
+      ...stored,
+      transactions: catalogued.transactions,
+      customers: linked.customers,
+      countries: migrated.countries,
+      products: catalogued.products,
+    },
+  };
+};
+
+// Devices each create their own customer entry for a name they have not seen, so after a pull the same person
+// can be listed twice. Keeps the earliest entry per name (ties by id, so every device keeps the same one), fills
+// in contact details it lacks from the others and points transactions and statements at it.
+const mergeCustomersByName = (data: StoredData): StoredData => {
+  const { customers, transactions, invoices } = data.collections;
+  const kept = new Map<string, Customer>();
+  const replacedBy = new Map<string, string>();
+  [...customers]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id))
+    .forEach(c => {
+      const name = normalizeCustomerName(c.name);
+      const existing = kept.get(name);
+      if (!existing) {
+        kept.set(name, c);
+        return;
+      }
+      replacedBy.set(c.id, existing.id);
+      kept.set(name, {
+        ...existing,
+        lineId: existing.lineId || c.lineId,
+        phone: existing.phone || c.phone,
+        address: existing.address || c.address,
+        notes: existing.notes || c.notes,
+      });
+    });
+  if (replacedBy.size === 0) return data;
+
+  const byId = new Map([...kept.values()].map(c => [c.id, c]));
+  const relink = <T extends { customerId?: string }>(records: T[]): T[] => records.map(r => {
+    const id = r.customerId && replacedBy.get(r.customerId);
+    return id ? { ...r, customerId: id } : r;
+  });
+  return {
+    ...data,
+    collections: {
+      ...data.collections,
+      customers: customers.filter(c => !replacedBy.has(c.id)).map(c => byId.get(c.id) || c),
+      transactions: relink(transactions),
+      invoices: relink(invoices),
+    },
+  };
+};
+
+// --- Backup ---
+const DEFAULT_BACKUP_REMINDER_DAYS = 7;
+
+const BACKUP_COLLECTION_LABELS: Record<CollectionName, string> = {
+  transactions: '交易紀錄',
+  customers: '客人',
+  payments: '付款紀錄',
+  shipments: '運送批次',
+  inventoryLots: '庫存批次',
+  products: '商品目錄',
+  trips: '代購行程',
+  countries: '國家 / 幣別',
+  exchangeRates: '匯率表',
+  cardSettlements: '刷卡結算',
+  pricingRules: '定價規則',
+  invoices: '對帳單',
+  trash: '垃圾桶',
+  changeLog: '修改紀錄',
+};
+
+// Whole days since the last backup, or null if there has never been one
+const daysSinceBackup = (lastBackupAt: string | null): number | null =>
+  lastBackupAt ? Math.floor((Date.now() - new Date(lastBackupAt).getTime()) / 86400000) : null;
+
+// --- Sync ---
+const SYNC_INTERVAL_MS = 30000;
+
+const createSyncSettings = (): SyncSettings => {
+  const deviceId = generateId();
+  const code = deviceId.slice(-4).toUpperCase();
+  return { enabled: false, serverUrl: '', token: '', deviceId, deviceName: `裝置 ${code}`, invoiceCode: code };
+};
+
+// One-line description of a synced record for the conflict list
+const describeSyncRecord = (collection: CollectionName, record: unknown): string => {
+  if (record === null || typeof record !== 'object') return '(已刪除)';
+  const r = record as Record<string, unknown>;
+  if (collection === 'transactions') return `${r.customerName || '-'} · ${r.itemName || '-'} ×${r.quantity ?? '-'}`;
+  return String(r.name || r.itemName || r.label || r.number || r.customerName || r.id || r.code || '');
+};
+
+// --- DashboardStats Component ---
+const StatCard: React.FC<{ title: string; value: string; icon: React.ReactNode; colorClass: string; bgClass: string; footnote?: React.ReactNode }> = ({ 
+  title, value, icon, colorClass, bgClass, footnote
+}) => (
+  <div className={`rounded-xl shadow-sm p-6 border flex items-center justify-between transition-transform hover:scale-[1.01] ${bgClass}`}>
+    <div>
+      <p className="text-xs font-bold opacity-60 mb-1 tracking-wider uppercase">{title}</p>
+      <h3 className="text-2xl font-black">{value}</h3>
+      {footnote && <p className="text-[11px] mt-1">{footnote}</p>}
+    </div>
+    <div className={`p-3 rounded-full bg-white bg-opacity-80 shadow-sm`}>
+      {React.isValidElement(icon) 
+        ? React.cloneElement(icon as React.ReactElement<{ className?: string }>, { className: `w-5 h-5 ${colorClass}` })
+        : icon
+      }
+    </div>
+  </div>
+);
+
+const DashboardStats: React.FC<{ stats: SummaryStats }> = ({ stats }) => {
+  const openCount = stats.statusCounts.requested + stats.statusCounts.purchased + stats.statusCounts.shipped + stats.statusCounts.arrived;
+
+  return (
+    <>
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-4">
+      <StatCard 
+        title="總銷售額" 
+        value={`$${stats.totalSales.toLocaleString()}`} 
+        icon={<DollarSign />} 
+        colorClass="text-yellow-600"
+        bgClass="bg-white border-yellow-200 text-yellow-900"
+      />
+      <StatCard 
+        title="總成本 (依匯率)" 
+        value={`$${stats.totalCost.toLocaleString()}`} 
+        icon={<CreditCard />} 
+        colorClass="text-stone-500"
+        bgClass="bg-white border-stone-200 text-stone-700"
+        footnote={stats.settledCount > 0 && (
+          <span className={stats.fxGainLoss >= 0 ? 'text-green-600' : 'text-red-500'} title={`${stats.settledCount} 筆已對帳`}>
+            刷卡匯差 {stats.fxGainLoss >= 0 ? '+' : '-'}${Math.abs(stats.fxGainLoss).toLocaleString()}
+          </span>
+        )}
+      />
+      <StatCard 
+        title="淨利潤" 
+        value={`$${stats.totalProfit.toLocaleString()}`} 
+        icon={<HandCoins />} 
+        colorClass="text-orange-500"
+        bgClass="bg-white border-orange-200 text-orange-900"
+      />
+      <StatCard 
+        title="總售出商品數" 
+        value={`${stats.itemCount} 件`} 
+        icon={<ShoppingBag />} 
+        colorClass="text-amber-500"
+        bgClass="bg-white border-amber-100 text-amber-900"
+        footnote={<span className="text-amber-700/70">共 {stats.orderCount} 筆訂單</span>}
+      />
+      <StatCard 
+        title="應收帳款" 
+        value={`$${stats.accountsReceivable.toLocaleString()}`} 
+        icon={<Wallet />} 
+        colorClass="text-rose-500"
+        bgClass="bg-white border-rose-100 text-rose-900"
+      />
+    </div>
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 px-5 py-3 mb-8 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+      <span className="font-bold text-gray-500">訂單狀態</span>
+      {ORDER_STATUSES.map(status => (
+        <span key={status} className="flex items-center gap-1.5">
+          <StatusBadge status={status} />
+          <strong className="text-gray-700">{stats.statusCounts[status]}</strong>
+        </span>
+      ))}
+      <span className="sm:ml-auto text-yellow-800 font-bold">尚未交貨: {openCount} 筆</span>
+    </div>
+    </>
+  );
+};
+
+// --- TransactionForm Component ---
+const TransactionForm: React.FC<{
+  onAddOrder: (lines: Transaction[]) => void;
+  onUpdateTransaction: (t: Transaction) => void;
+  onCancelEdit: () => void;
+  editingTransaction: Transaction | null;
+  appendingOrder: Order | null; // New lines are added to this existing order
+  onCancelAppend: () => void;
+  customers: Customer[];
+  trips: Trip[];
+  countries: SourcingCountry[];
+  exchangeRates: ExchangeRateEntry[];
+  onManageCountries: () => void;
+  onManageRates: () => void;
+  defaultExchangeRate: number;
+  stockItems: StockItemSummary[];
+  products: Product[];
+  pricingRules: PricingRule[];
+  onManagePricing: () => void;
+}> = ({ onAddOrder, onUpdateTransaction, onCancelEdit, editingTransaction, appendingOrder, onCancelAppend, customers, trips, countries, exchangeRates, onManageCountries, onManageRates, stockItems, products, pricingRules, onManagePricing }) => {
+  const [country, setCountry] = useState<Country>(() => countries[0]?.code || LEGACY_DEFAULT_COUNTRY);
+  const [status, setStatus] = useState<OrderStatus>('requested');
+  const [initialRates] = useState(() => resolveDefaultRates(countries, exchangeRates, country, new Date().toISOString()));
+  const [rateDate, setRateDate] = useState<string | null>(initialRates.rateDate);
+  const [pendingLines, setPendingLines] = useState<Transaction[]>([]); // Lines added to the order being entered
+  
+  const [formData, setFormData] = useState({
+    date: new Date().toISOString().split('T')[0],
+    customerName: '',
+    itemName: '',
+    quantity: '1',
+    costForeign: '',
+    exchangeRate: String(initialRates.rate),
+    sellingExchangeRate: String(initialRates.sellingRate),
+    priceSold: '',
+    weightGrams: '',
+    tripId: '',
+    taxRefundStatus: 'none' as TaxRefundStatus,
+    taxRate: '10',
+    taxRefundPerUnit: '',
+    fromStock: false,
+  });
+
+  // Load the selected record into the form when entering edit mode
+  useEffect(() => {
+    if (!editingTransaction) return;
+    const t = editingTransaction;
+    const editCountry = t.country || LEGACY_DEFAULT_COUNTRY;
+    setCountry(editCountry);
+    setStatus(getTransactionStatus(t));
+    setRateDate(t.exchangeRateDate || null);
+    setPendingLines([]);
+    setFormData({
+      date: t.date.split('T')[0],
+      customerName: t.customerName,
+      itemName: t.itemName,
+      quantity: String(t.quantity),
+      costForeign: String(t.costForeign),
+      exchangeRate: String(t.exchangeRate),
+      sellingExchangeRate: String(t.sellingExchangeRate ?? findCountry(countries, editCountry).sellingRate),
+      priceSold: String(t.priceSold),
+      weightGrams: t.weightGrams ? String(t.weightGrams) : '',
+      tripId: t.tripId || '',
+      taxRefundStatus: t.taxRefundStatus || 'none',
+      taxRate: t.taxRate !== undefined ? String(t.taxRate) : '10',
+      taxRefundPerUnit: t.taxRefundPerUnit ? String(t.taxRefundPerUnit) : '',
+      fromStock: !!t.fromStock,
+    });
+  }, [editingTransaction]);
+
+  // Adding to an existing order starts from that order's customer, date, country and rates
+  useEffect(() => {
+    if (!appendingOrder) return;
+    const first = appendingOrder.lines[0];
+    setCountry(first.country);
+    setRateDate(first.exchangeRateDate || null);
+    setPendingLines([]);
+    setFormData(prev => ({
+      ...prev,
+      date: first.date.split('T')[0],
+      customerName: first.customerName,
+      exchangeRate: String(first.exchangeRate),
+      sellingExchangeRate: String(first.sellingExchangeRate ?? findCountry(countries, first.country).sellingRate),
+      tripId: first.tripId || '',
+    }));
+  }, [appendingOrder]);
+
+  const resetLineFields = () => {
+    setFormData(prev => ({
+      ...prev,
+      itemName: '',
+      quantity: '1',
+      costForeign: '',
+      priceSold: '',
+      weightGrams: '',
+      taxRefundStatus: 'none',
+      taxRefundPerUnit: '',
+      fromStock: false,
+    }));
+  };
+
+  const resetItemFields = () => {
+    resetLineFields();
+    setFormData(prev => ({ ...prev, customerName: '' }));
+    setPendingLines([]);
+    setStatus('requested');
+  };
+
+  // Suggested price from the pricing rule matching the country and the catalog category of the item
+  // Null when the typed amounts are out of range
+  const quoteFor = (code: Country, itemName: string, cost: number, rate: number, sellingRate: number): PriceQuote | null =>
+    tryCalculate(() => quotePrice(findPricingRule(pricingRules, code, findProduct(products, itemName)?.category), cost, rate, sellingRate), null);
+
+  const handleCountryChange = (newCountry: Country) => {
+    setCountry(newCountry);
+    const config = resolveDefaultRates(countries, exchangeRates, newCountry, formData.date);
+    setRateDate(config.rateDate);
+    
+    const currentCost = parseFloat(formData.costForeign) || 0;
+    const newPriceSold = currentCost > 0
+      ? String(quoteFor(newCountry, formData.itemName, currentCost, config.rate, config.sellingRate)?.price ?? formData.priceSold)
+      : formData.priceSold;
+
+    setFormData(prev => ({
+      ...prev,
+      exchangeRate: String(config.rate),
+      sellingExchangeRate: String(config.sellingRate),
+      priceSold: newPriceSold,
+    }));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+
+    // A new purchase date picks up the rate effective on that day; a hand-typed rate is no longer from the table
+    let lookup: ReturnType<typeof resolveDefaultRates> | null = null;
+    if (name === 'date' && value && !editingTransaction) {
+      lookup = resolveDefaultRates(countries, exchangeRates, country, value);
+      setRateDate(lookup.rateDate);
+    } else if (name === 'exchangeRate') {
+      setRateDate(null);
+    }
+    
+    setFormData(prev => {
+      const updated = { ...prev, [name]: value };
+      if (lookup) {
+        updated.exchangeRate = String(lookup.rate);
+        updated.sellingExchangeRate = String(lookup.sellingRate);
+        const cost = parseFloat(prev.costForeign);
+        if (!isNaN(cost)) {
+          updated.priceSold = String(quoteFor(country, prev.itemName, cost, lookup.rate, lookup.sellingRate)?.price ?? prev.priceSold);
+        }
+      }
+      // The cost rate only moves the price under a rule (cost-based start, fee bands, minimum profit)
+      const affectsPrice = name === 'costForeign' || name === 'sellingExchangeRate'
+        || (name === 'exchangeRate' && !!findPricingRule(pricingRules, country, findProduct(products, prev.itemName)?.category));
+      if (affectsPrice) {
+        const cost = parseFloat(updated.costForeign);
+        const rate = parseFloat(updated.exchangeRate) || 0;
+        const sRate = parseFloat(updated.sellingExchangeRate);
+        
+        if (!isNaN(cost) && !isNaN(sRate)) {
+          updated.priceSold = String(quoteFor(country, prev.itemName, cost, rate, sRate)?.price ?? prev.priceSold);
+        } else {
+            if (name === 'costForeign' && value === '') {
+                 updated.priceSold = '';
+            }
+        }
+      }
+      return updated;
+    });
+  };
+
+  // Picking a catalog product (by name, alias or scanned barcode) fills in its country, last cost and usual price
+  const handleItemNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    const product = editingTransaction ? undefined : findProduct(products, value);
+    if (!product) {
+      setFormData(prev => ({ ...prev, itemName: value }));
+      return;
+    }
+
+    const rates = product.country !== country ? resolveDefaultRates(countries, exchangeRates, product.country, formData.date) : null;
+    if (rates) {
+      setCountry(product.country);
+      setRateDate(rates.rateDate);
+    }
+    setFormData(prev => {
+      const cost = product.lastCostForeign || parseFloat(prev.costForeign) || 0;
+      const rate = rates ? rates.rate : parseFloat(prev.exchangeRate) || 0;
+      const sellingRate = rates ? rates.sellingRate : parseFloat(prev.sellingExchangeRate) || 0;
+      // A remembered price wins; otherwise price it with the rule for the product's category
+      const priceSold = product.usualPrice
+        ? String(product.usualPrice)
+        : cost > 0 ? String(tryCalculate(() => quotePrice(findPricingRule(pricingRules, product.country, product.category), cost, rate, sellingRate).price, null) ?? prev.priceSold) : prev.priceSold;
+      return {
+        ...prev,
+        itemName: product.name,
+        costForeign: cost > 0 ? String(cost) : prev.costForeign,
+        priceSold,
+        ...(rates ? { exchangeRate: String(rates.rate), sellingExchangeRate: String(rates.sellingRate) } : {}),
+      };
+    });
+  };
+
+  // Builds a line from the current form fields; on save the order's shared fields are applied to every line
+  const buildLine = (): Transaction => {
+    const quantity = parseInt(formData.quantity) || 1;
+    const costForeign = parseFloat(formData.costForeign) || 0;
+    const exchangeRate = parseFloat(formData.exchangeRate) || 0;
+    const sellingExchangeRate = parseFloat(formData.sellingExchangeRate) || 0;
+    const priceSold = parseFloat(formData.priceSold) || 0;
+    const weightGrams = parseFloat(formData.weightGrams) || undefined;
+    const taxRefundStatus = formData.taxRefundStatus;
+    const refundApplies = taxRefundStatus === 'pending' || taxRefundStatus === 'received';
+
+    const baseTransaction: Transaction = {
+      ...editingTransaction,
+      id: editingTransaction ? editingTransaction.id : generateId(),
+      country: country,
+      customerId: undefined, // Re-linked by name in App, so renaming here moves the order to that customer
+      customerName: normalizeCustomerName(formData.customerName),
+      // Likewise a renamed item is looked up in the catalog again instead of staying on the old product
+      productId: editingTransaction && editingTransaction.itemName.trim() === formData.itemName.trim() ? editingTransaction.productId : undefined,
+      itemName: formData.itemName,
+      quantity: quantity,
+      costForeign: costForeign,
+      exchangeRate: exchangeRate,
+      sellingExchangeRate: sellingExchangeRate,
+      priceSold: priceSold,
+      weightGrams: weightGrams,
+      tripId: formData.tripId || undefined,
+      exchangeRateDate: rateDate || undefined,
+      taxRefundStatus: taxRefundStatus === 'none' ? undefined : taxRefundStatus,
+      taxRate: taxRefundStatus === 'none' ? undefined : parseFloat(formData.taxRate) || undefined,
+      taxRefundPerUnit: refundApplies ? parseFloat(formData.taxRefundPerUnit) || undefined : undefined,
+      taxRefundReceivedAt: taxRefundStatus === 'received'
+        ? editingTransaction?.taxRefundReceivedAt || new Date().toISOString()
+        : undefined,
+      fromStock: formData.fromStock || undefined,
+      date: formData.date || new Date().toISOString(),
+    };
+    return applyStatus(baseTransaction, status);
+  };
+
+  const handleAddLine = () => {
+    if (!formData.itemName) return;
+    const line = buildLine();
+    if (!isCalculable(line)) return;
+    setPendingLines(prev => [...prev, line]);
+    resetLineFields();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.customerName || (!formData.itemName && pendingLines.length === 0)) return;
+
+    const current = buildLine();
+    if (formData.itemName && !isCalculable(current)) return;
+
+    if (editingTransaction) {
+      onUpdateTransaction(current);
+      resetItemFields();
+      return;
+    }
+
+    const orderId = appendingOrder ? appendingOrder.id : generateId();
+    const lines = [...pendingLines, ...(formData.itemName ? [current] : [])]
+      .map(line => ({ ...applyOrderFields(line, current), orderId }));
+    onAddOrder(lines);
+    resetItemFields();
+  };
+
+  const handleCancelEdit = () => {
+    resetItemFields();
+    if (appendingOrder) {
+      onCancelAppend();
+    } else {
+      onCancelEdit();
+    }
+  };
+
+  const quantity = parseInt(formData.quantity) || 0;
+  const costForeign = parseFloat(formData.costForeign) || 0;
+  const exchangeRate = parseFloat(formData.exchangeRate) || 0;
+  const priceSold = parseFloat(formData.priceSold) || 0;
+  const sellingRate = parseFloat(formData.sellingExchangeRate) || 0;
+  const quote = costForeign > 0 ? quoteFor(country, formData.itemName, costForeign, exchangeRate, sellingRate) : null;
+  const refundApplies = formData.taxRefundStatus === 'pending' || formData.taxRefundStatus === 'received';
+  const refundPerUnit = refundApplies ? parseFloat(formData.taxRefundPerUnit) || 0 : 0;
+  const stockItem = formData.fromStock ? stockItems.find(item => item.key === getStockKey(formData.itemName)) : undefined;
+  // Stock sales preview with the average cost on hand; the saved figure comes from FIFO
+  // Null while a typed amount is too large to calculate; saving is blocked until it is fixed
+  const preview = tryCalculate(() => {
+    const localCostUnit = stockItem && stockItem.onHand > 0
+      ? averageUnitCost(stockItem.value, stockItem.onHand)
+      : localUnitCost(costForeign, exchangeRate, refundPerUnit);
+    const unitFigures = lineFigures({ unitCost: localCostUnit, priceSold, quantity: 1 });
+    return {
+      localCostUnit,
+      unitProfit: unitFigures.profit,
+      estimatedProfit: lineFigures({ unitCost: localCostUnit, priceSold, quantity }).profit,
+      profitMargin: marginPercent(unitFigures.profit, unitFigures.sales),
+    };
+  }, null);
+  const currentConfig = findCountry(countries, country);
+  // Lines of one order share a currency, so the country is fixed once a line is added
+  const countryLocked = pendingLines.length > 0 || !!appendingOrder;
+  const lineCount = pendingLines.length + (formData.itemName ? 1 : 0);
+
+  return (
+    <div className={`bg-white rounded-xl shadow-sm p-6 mb-8 border ${editingTransaction || appendingOrder ? 'border-yellow-300 ring-2 ring-yellow-100' : 'border-yellow-50'}`}>
+      <div className="flex items-center justify-between mb-4 text-gray-700">
+        <div className="flex items-center gap-2">
+          {editingTransaction ? <Pencil className="w-5 h-5 text-yellow-500" /> : <Plus className="w-5 h-5 text-yellow-500" />}
+          <h2 className="text-lg font-bold">{editingTransaction ? '編輯銷售紀錄' : appendingOrder ? '加入商品到訂單' : '新增銷售紀錄'}</h2>
+        </div>
+        {(editingTransaction || appendingOrder) && (
+          <button
+            type="button"
+            onClick={handleCancelEdit}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600 hover:bg-gray-50 px-2 py-1 rounded transition-colors"
+          >
+            <X className="w-3.5 h-3.5" />
+            {appendingOrder ? '取消加入' : '取消編輯'}
+          </button>
+        )}
+      </div>
+      {appendingOrder && (
+        <p className="-mt-2 mb-4 text-xs text-yellow-700">
+          {appendingOrder.customerName} · {new Date(appendingOrder.date).toLocaleDateString()} 的訂單，目前 {appendingOrder.lines.length} 項商品
+        </p>
+      )}
+
+      <div className="mb-6 space-y-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1 flex items-center gap-1">
+            <Calendar className="w-3.5 h-3.5" /> 交易日期
+          </label>
+          <input
+            type="date"
+            name="date"
+            value={formData.date}
+            onChange={handleChange}
+            className="w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-600"
+            required
+          />
+        </div>
+
+        <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-xs font-medium text-gray-400 flex items-center gap-1">
+              <Globe className="w-3.5 h-3.5" /> 選擇代購國家
+              </label>
+              <button
+                type="button"
+                onClick={onManageCountries}
+                className="text-[10px] text-yellow-700 hover:text-yellow-900 underline"
+              >
+                管理國家與幣別
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+            {countries.map((c) => (
+                <button
+                key={c.code}
+                type="button"
+                onClick={() => handleCountryChange(c.code)}
+                disabled={countryLocked && country !== c.code}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm font-bold transition-all border disabled:opacity-40 disabled:cursor-not-allowed ${
+                    country === c.code
+                    ? 'bg-yellow-100 text-yellow-800 border-yellow-200 shadow-sm'
+                    : 'bg-white text-gray-400 border-gray-100 hover:bg-gray-50'
+                }`}
+                >
+                {c.label}
+                </button>
+            ))}
+            </div>
+        </div>
+
+        {trips.length > 0 && (
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1 flex items-center gap-1">
+              <Plane className="w-3.5 h-3.5" /> 代購團
+            </label>
+            <select
+              value={formData.tripId}
+              onChange={(e) => setFormData(prev => ({ ...prev, tripId: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-600"
+            >
+              <option value="">不屬於任何代購團</option>
+              {trips.map(trip => (
+                <option key={trip.id} value={trip.id}>
+                  {trip.name} ({getCountryLabel(countries, trip.destination)} {trip.startDate} ~ {trip.endDate})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-x-4 gap-y-5">
+        <div className="lg:col-span-2">
+          <label className="block text-xs font-medium text-gray-400 mb-1">客人名字</label>
+          <input
+            type="text"
+            name="customerName"
+            list="customer-options"
+            autoComplete="off"
+            value={formData.customerName}
+            onChange={handleChange}
+            readOnly={!!appendingOrder}
+            className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300"
+            placeholder="例如: 王小明"
+            required
+          />
+          <datalist id="customer-options">
+            {customers.map(c => (
+              <option key={c.id} value={c.name}>{c.lineId ? `LINE: ${c.lineId}` : undefined}</option>
+            ))}
+          </datalist>
+        </div>
+        
+        <div className="lg:col-span-2">
+          <label className="block text-xs font-medium text-gray-400 mb-1">商品名稱</label>
+          <input
+            type="text"
+            name="itemName"
+            value={formData.itemName}
+            onChange={handleItemNameChange}
+            className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300"
+            placeholder="例如: 合力他命"
+            list={formData.fromStock ? 'stock-sale-options' : 'product-options'}
+            autoComplete="off"
+            required={pendingLines.length === 0}
+          />
+          {formData.fromStock ? (
+            <datalist id="stock-sale-options">
+              {stockItems.filter(item => item.onHand > 0).map(item => <option key={item.key} value={item.itemName} />)}
+            </datalist>
+          ) : (
+            <datalist id="product-options">
+              {products.flatMap(p => [p.name, ...p.aliases].map(name => (
+                <option key={`${p.id}-${name}`} value={name}>
+                  {`${getCurrencySymbol(countries, p.country)}${p.lastCostForeign} → $${p.usualPrice}`}
+                </option>
+              )))}
+            </datalist>
+          )}
+          <label className="flex items-center gap-1.5 mt-1 text-[11px] text-gray-500">
+            <input
+              type="checkbox"
+              checked={formData.fromStock}
+              onChange={(e) => setFormData(prev => ({ ...prev, fromStock: e.target.checked }))}
+              className="accent-emerald-500"
+            />
+            從庫存出貨 (成本依進貨批次 FIFO 計算)
+          </label>
+          {formData.fromStock && formData.itemName && (
+            <p className={`text-[10px] mt-0.5 ${stockItem && stockItem.onHand > 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+              {stockItem && stockItem.onHand > 0
+                ? `庫存 ${stockItem.onHand} 件 · 平均成本 ${formatLocal(() => averageUnitCost(stockItem.value, stockItem.onHand))}`
+                : '庫存中沒有這個商品，將以下方輸入的成本計算'}
+            </p>
+          )}
+        </div>
+
+        <div className="lg:col-span-1">
+          <label className="block text-xs font-medium text-gray-400 mb-1">數量</label>
+          <input
+            type="number"
+            name="quantity"
             min="1"
             value={formData.quantity}
             onChange={handleChange}
-            className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700"
+            className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700"
+          />
+        </div>
+
+        <div className="lg:col-span-1">
+          <label className="block text-xs font-medium text-gray-400 mb-1">訂單狀態</label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as OrderStatus)}
+            className="w-full px-2 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 text-sm"
+          >
+            {ORDER_STATUSES.map(s => (
+              <option key={s} value={s}>{STATUS_CONFIG[s].label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="lg:col-span-6 grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">當日匯率 (成本)</label>
+            <input
+              type="number"
+              step="0.0001"
+              name="exchangeRate"
+              value={formData.exchangeRate}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 font-medium"
+            />
+            <button
+              type="button"
+              onClick={onManageRates}
+              className="text-[10px] text-gray-400 hover:text-yellow-700 mt-1 underline decoration-dotted"
+              title="開啟匯率表"
+            >
+              {rateDate ? `匯率表 ${rateDate}` : '手動 / 國家預設'}
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">賣出匯率 (參考)</label>
+            <input
+              type="number"
+              step="0.0001"
+              name="sellingExchangeRate"
+              value={formData.sellingExchangeRate}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">單件重量 (g)</label>
+            <input
+              type="number"
+              min="0"
+              name="weightGrams"
+              value={formData.weightGrams}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-500 placeholder-gray-300"
+              placeholder="選填"
+            />
+          </div>
+        </div>
+
+        <div className="lg:col-span-2">
+          <label className="block text-xs font-medium text-gray-400 mb-1">單件外幣成本 ({currentConfig.label})</label>
+          <div className="relative">
+            <span className="absolute left-3 top-2 text-gray-400 text-xs">{currentConfig.symbol}</span>
+            <input
+              type="number"
+              name="costForeign"
+              value={formData.costForeign}
+              onChange={handleChange}
+              className="w-full pl-8 pr-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700"
+              placeholder="0"
+            />
+          </div>
+        </div>
+
+        <div className="lg:col-span-2">
+            <label className="block text-xs font-medium text-gray-500 mb-1 text-yellow-700">單件台幣成本 (自動計算)</label>
+            <div className="relative">
+                <span className="absolute left-3 top-2 text-gray-400 text-xs">$</span>
+                <input
+                type="text"
+                value={preview ? preview.localCostUnit : '—'}
+                readOnly
+                className="w-full pl-8 pr-3 py-2 border border-yellow-200 bg-yellow-50/50 rounded-lg text-gray-800 font-bold focus:outline-none"
+                />
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1">
+                {stockItem && stockItem.onHand > 0 ? '庫存平均成本' : refundApplies ? '(外幣成本 - 退稅) x 當日匯率' : '外幣成本 x 當日匯率'}
+            </p>
+        </div>
+
+        <div className="lg:col-span-2">
+          <label className="block text-xs font-medium text-gray-400 mb-1">單件賣出價格</label>
+          <div className="relative">
+            <span className="absolute left-3 top-2 text-gray-400 text-xs">$</span>
+            <input
+              type="number"
+              name="priceSold"
+              value={formData.priceSold}
+              onChange={handleChange}
+              className="w-full pl-8 pr-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700"
+              placeholder="自動計算"
+            />
+          </div>
+          <div className="text-[10px] text-gray-400 mt-1 flex items-center justify-between gap-2">
+            <span>{quote?.rule ? `規則：${quote.rule.name}` : '預設：外幣成本 x 賣出匯率'}</span>
+            <button type="button" onClick={onManagePricing} className="hover:text-yellow-700 underline decoration-dotted">
+              定價規則
+            </button>
+          </div>
+        </div>
+
+        {quote?.rule && (
+          <div className="lg:col-span-6 -mt-2 px-3 py-2 rounded-lg bg-gray-50/70 border border-gray-100 text-[11px] text-gray-500">
+            <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5">
+              {quote.steps.map((step, i) => (
+                <span key={step.label}>
+                  {i > 0 && (step.amount < 0 ? '− ' : '+ ')}{step.label} <span className="text-gray-700">${Math.abs(roundLocal(step.amount)).toLocaleString()}</span>
+                </span>
+              ))}
+              <span>= <strong className="text-gray-800">${quote.price.toLocaleString()}</strong></span>
+            </div>
+            {quote.price !== priceSold && (
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, priceSold: String(quote.price) }))}
+                className="mt-1 text-yellow-700 hover:text-yellow-900 underline"
+              >
+                售價與規則建議不同，改用 ${quote.price.toLocaleString()}
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="lg:col-span-6 grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">退稅 / 免稅</label>
+            <select
+              value={formData.taxRefundStatus}
+              onChange={(e) => setFormData(prev => ({ ...prev, taxRefundStatus: e.target.value as TaxRefundStatus }))}
+              className="w-full px-2 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 text-sm"
+            >
+              {(Object.keys(TAX_REFUND_STATUS_LABELS) as TaxRefundStatus[]).map(s => (
+                <option key={s} value={s}>{TAX_REFUND_STATUS_LABELS[s]}</option>
+              ))}
+            </select>
+          </div>
+
+          {formData.taxRefundStatus !== 'none' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">稅率 (%)</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                name="taxRate"
+                value={formData.taxRate}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700"
+              />
+            </div>
+          )}
+
+          {refundApplies && (
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">單件退稅額 ({currentConfig.symbol})</label>
+              <input
+                type="number"
+                min="0"
+                name="taxRefundPerUnit"
+                value={formData.taxRefundPerUnit}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700"
+                placeholder="0"
+              />
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({
+                  ...prev,
+                  taxRefundPerUnit: tryCalculate(() => String(includedTax(parseFloat(prev.costForeign) || 0, parseFloat(prev.taxRate) || 0)), prev.taxRefundPerUnit),
+                }))}
+                className="text-[10px] text-gray-400 hover:text-yellow-700 mt-1 underline decoration-dotted"
+              >
+                依稅率帶入含稅價內的稅額
+              </button>
+            </div>
+          )}
+        </div>
+
+        {pendingLines.length > 0 && (
+          <div className="lg:col-span-6 border border-yellow-100 rounded-lg overflow-hidden">
+            <div className="px-3 py-2 bg-yellow-50/60 text-xs font-medium text-yellow-800">
+              本筆訂單已加入 {pendingLines.length} 項
+            </div>
+            <ul className="divide-y divide-gray-50 text-sm">
+              {pendingLines.map(line => (
+                <li key={line.id} className="flex items-center justify-between px-3 py-1.5 text-gray-600">
+                  <span>
+                    {line.itemName} <span className="text-gray-400">× {line.quantity}</span>
+                  </span>
+                  <span className="flex items-center gap-3">
+                    <span className="text-xs text-gray-400">{currentConfig.symbol}{line.costForeign.toLocaleString()} → ${line.priceSold.toLocaleString()}</span>
+                    <span className="font-medium text-gray-700">{formatLocal(() => lineAmount(line.priceSold, line.quantity))}</span>
+                    <button
+                      type="button"
+                      onClick={() => setPendingLines(prev => prev.filter(l => l.id !== line.id))}
+                      className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                      title="移除此項"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="lg:col-span-6 flex items-end gap-3 mt-2">
+          {!editingTransaction && (
+            <button
+              type="button"
+              onClick={handleAddLine}
+              disabled={!formData.itemName}
+              className="flex-none flex items-center justify-center gap-1 px-4 h-[42px] rounded-lg border border-yellow-200 text-yellow-800 text-sm font-medium hover:bg-yellow-50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+              title="先把這項商品加入訂單，再繼續輸入下一項"
+            >
+              <Plus className="w-4 h-4" />
+              加入下一項
+            </button>
+          )}
+          <button
+            type="submit"
+            className="w-full bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm hover:shadow-md transition-all flex items-center justify-center gap-2 h-[42px] active:transform active:scale-95"
+          >
+            <Save className="w-5 h-5" />
+            {editingTransaction ? '儲存變更' : lineCount > 1 || appendingOrder ? `記錄訂單 (${lineCount} 項)` : '記錄交易'}
+          </button>
+        </div>
+      </form>
+
+      {!preview && (
+        <div className="mt-5 p-3 rounded-lg flex items-center gap-2 text-sm bg-red-50 text-red-700 border border-red-100">
+          <AlertTriangle className="w-4 h-4" />
+          金額或匯率過大，無法計算成本與利潤，請檢查後再儲存。
+        </div>
+      )}
+      {preview && preview.localCostUnit > 0 && priceSold > 0 && (
+        <div className={`mt-5 p-3 rounded-lg flex items-center justify-between text-sm ${preview.estimatedProfit >= 0 ? 'bg-green-50 text-green-800 border border-green-100' : 'bg-red-50 text-red-700 border border-red-100'}`}>
+          <div className="flex gap-4">
+             <span>單件利潤: <strong>${preview.unitProfit}</strong></span>
+             <span>總利潤: <strong>${preview.estimatedProfit}</strong></span>
+          </div>
+          <span className="font-semibold">利潤率: {preview.profitMargin}%</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- TransactionList Component ---
+const TRANSACTION_PAGE_SIZE = 50;
+
+const TransactionList: React.FC<{
+  transactions: Transaction[];    // Already filtered
+  allTransactions: Transaction[];
+  filter: TransactionFilter;
+  onFilterChange: (filter: TransactionFilter) => void;
+  scopeToFilter: boolean;         // Stats, exports and clipboard use the filtered rows
+  onScopeChange: (scoped: boolean) => void;
+  countries: SourcingCountry[];
+  paymentsByTransaction: Record<string, Payment[]>;
+  allocatedCosts: Record<string, number>;
+  stockCosts: Record<string, number>;
+  figures: Record<string, TransactionFigures>;
+  inventoryShortfalls: Record<string, number>;
+  editingId: string | null;
+  onEdit: (t: Transaction) => void;
+  onDelete: (id: string) => void;
+  onManagePayments: (t: Transaction) => void;
+  onAddToOrder: (order: Order) => void;
+  onBulkStatusChange: (ids: string[], status: OrderStatus) => void;
+  onCreateInvoice: (ids: string[]) => void;
+  onClearAll: () => void;
+  onExport: () => void;
+  onExportCsv: () => void;
+  onImport: () => void;
+  onShowHistory: (t: Transaction) => void;
+  trashCount: number;
+  onOpenTrash: () => void;
+}> = ({ transactions, allTransactions, filter, onFilterChange, scopeToFilter, onScopeChange, countries, paymentsByTransaction, allocatedCosts, stockCosts, figures, inventoryShortfalls, editingId, onEdit, onDelete, onManagePayments, onAddToOrder, onBulkStatusChange, onCreateInvoice, onClearAll, onExport, onExportCsv, onImport, onShowHistory, trashCount, onOpenTrash }) => {
+  const [copied, setCopied] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [expandedOrders, setExpandedOrders] = useState<Set<string>>(new Set());
+  const [sortKey, setSortKey] = useState<TransactionSortKey>('date');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(0);
+
+  const sorted = useMemo(
+    () => sortTransactions(transactions, sortKey, sortDirection, figures),
+    [transactions, sortKey, sortDirection, figures]
+  );
+  // Orders take the position of their best-ranked line, and paging counts orders rather than lines
+  const orders = useMemo(() => groupIntoOrders(sorted), [sorted]);
+  const pageCount = Math.max(1, Math.ceil(orders.length / TRANSACTION_PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageOrders = orders.slice(currentPage * TRANSACTION_PAGE_SIZE, (currentPage + 1) * TRANSACTION_PAGE_SIZE);
+  const filterActive = isFilterActive(filter);
+
+  // Back to the first page whenever the result set or its order changes
+  useEffect(() => {
+    setPage(0);
+  }, [filter, sortKey, sortDirection]);
+
+  const updateFilter = (patch: Partial<TransactionFilter>) => onFilterChange({ ...filter, ...patch });
+
+  const toggleSort = (key: TransactionSortKey) => {
+    if (sortKey === key) {
+      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'customer' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortIcon = (key: TransactionSortKey) => {
+    if (sortKey !== key) return <ArrowUpDown className="w-3 h-3 opacity-40" />;
+    return sortDirection === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+  };
+
+  const setThisMonth = () => {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+    updateFilter({
+      dateFrom: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-01`,
+      dateTo: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(lastDay)}`,
+    });
+  };
+
+  const parseQuantityBound = (value: string): number | null => {
+    const n = parseInt(value, 10);
+    return isNaN(n) ? null : n;
+  };
+
+  // Drop selections for rows that no longer exist
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const existing = new Set(transactions.map(t => t.id));
+      const next = new Set([...prev].filter(id => existing.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [transactions]);
+
+  const allSelected = transactions.length > 0 && selectedIds.size === transactions.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(transactions.map(t => t.id)));
+  };
+
+  const toggleOrderSelected = (order: Order) => {
+    const ids = order.lines.map(t => t.id);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const allIn = ids.every(id => next.has(id));
+      ids.forEach(id => allIn ? next.delete(id) : next.add(id));
+      return next;
+    });
+  };
+
+  const toggleExpanded = (orderId: string) => {
+    setExpandedOrders(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  };
+
+  const handleBulkStatus = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const status = e.target.value as OrderStatus;
+    if (!status || selectedIds.size === 0) return;
+    onBulkStatusChange([...selectedIds], status);
+    setSelectedIds(new Set());
+  };
+
+  const handleCopyToClipboard = async () => {
+    const headers = ['日期', '國家', '狀態', '客人名字', '商品名稱', '數量', '外幣成本(單件)', '當日匯率', '賣出匯率', '台幣成本(單件)', '分攤運費', '售價(單件)', '總利潤', 'ID'];
+    
+    const source = scopeToFilter ? sorted : allTransactions.slice().reverse();
+    const rows = source.map(t => {
+      const localCostUnit = getLocalUnitCost(t, stockCosts);
+      const sharedCost = allocatedCosts[t.id] || 0;
+      const { profit: totalProfit, calculable } = figures[t.id];
+      const sellingRate = t.sellingExchangeRate || '-';
+      const currency = getCurrencySymbol(countries, t.country);
+      
+      return [
+        new Date(t.date).toLocaleDateString(),
+        getCountryLabel(countries, t.country),
+        STATUS_CONFIG[getTransactionStatus(t)].label,
+        t.customerName,
+        t.itemName,
+        t.quantity,
+        `${currency}${t.costForeign}`,
+        t.exchangeRate,
+        sellingRate,
+        calculable ? `$${localCostUnit}` : '—',
+        `$${sharedCost}`,
+        `$${t.priceSold}`,
+        calculable ? `$${totalProfit}` : '—',
+        t.id
+      ].join('\t');
+    });
+
+    const textToCopy = [headers.join('\t'), ...rows].join('\n');
+
+    try {
+      await navigator.clipboard.writeText(textToCopy);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy!', err);
+      alert('複製失敗，請手動匯出 CSV');
+    }
+  };
+
+  // Lines of a multi-item order are rendered without their order, indented under the order's header row
+  const renderLine = (t: Transaction, order?: Order) => {
+    const isStandalone = !!order; // A single-line order; otherwise one line under its order's header row
+    const localCostUnit = getLocalUnitCost(t, stockCosts);
+    const sharedCost = allocatedCosts[t.id] || 0;
+    const { profit: totalProfit, margin, calculable } = figures[t.id];
+    const sellingRate = t.sellingExchangeRate || '-';
+    
+    const isProfitable = totalProfit >= 0;
+    const currency = getCurrencySymbol(countries, t.country);
+    const status = getTransactionStatus(t);
+    const paid = getPaidAmount(paymentsByTransaction[t.id] || []);
+    const outstanding = getAmountDue(t) - paid;
+
+    return (
+      <tr
+        key={t.id}
+        onClick={() => onEdit(t)}
+        className={`border-b border-gray-50 transition-colors cursor-pointer ${editingId === t.id ? 'bg-yellow-50' : isStandalone ? 'hover:bg-yellow-50/20' : 'bg-gray-50/40 hover:bg-yellow-50/20'}`}
+      >
+        <td className="p-4" onClick={(e) => e.stopPropagation()}>
+          <input
+            type="checkbox"
+            checked={selectedIds.has(t.id)}
+            onChange={() => toggleSelected(t.id)}
+            className="accent-yellow-500 cursor-pointer"
+          />
+        </td>
+        <td className="p-4 text-gray-400 whitespace-nowrap">{new Date(t.date).toLocaleDateString()}</td>
+        <td className="p-4">
+          <span className={`px-2 py-1 rounded-md text-[10px] font-medium border ${getCountryColor(countries, t.country)}`}>
+            {getCountryLabel(countries, t.country)}
+          </span>
+        </td>
+        <td className="p-4">
+          <StatusBadge status={status} timestamp={t.statusHistory?.[status]} />
+        </td>
+        <td className="p-4 font-medium text-gray-600">{t.customerName}</td>
+        <td className={`p-4 text-gray-600 ${isStandalone ? '' : 'pl-10'}`}>
+          {t.itemName}
+          {t.fromStock && (
+            <div className={`text-[10px] ${t.id in inventoryShortfalls ? 'text-red-500' : 'text-emerald-600'}`}>
+              {t.id in inventoryShortfalls ? `庫存不足 ${inventoryShortfalls[t.id]} 件` : '庫存出貨 · FIFO 成本'}
+            </div>
+          )}
+        </td>
+        <td className="p-4 text-center text-gray-500">{t.quantity}</td>
+        <td className="p-4 text-right text-gray-400 whitespace-nowrap">
+          {currency}{t.costForeign.toLocaleString()}
+          {t.taxRefundStatus && t.taxRefundStatus !== 'none' && (
+            <div className={`text-[10px] ${t.taxRefundStatus === 'pending' ? 'text-amber-500' : 'text-teal-500'}`}>
+              {hasTaxRefund(t)
+                ? `退 ${currency}${(t.taxRefundPerUnit || 0).toLocaleString()} · ${t.taxRefundStatus === 'pending' ? '待領' : '已領'}`
+                : TAX_REFUND_STATUS_LABELS[t.taxRefundStatus]}
+            </div>
+          )}
+        </td>
+        <td
+          className={`p-4 text-right ${t.exchangeRateDate ? 'text-gray-400' : 'text-gray-400 italic'}`}
+          title={t.exchangeRateDate ? `匯率表 ${t.exchangeRateDate}` : '手動輸入'}
+        >
+          {t.exchangeRate}
+        </td>
+        <td className="p-4 text-right text-gray-400">{sellingRate}</td>
+        <td className="p-4 text-right text-gray-500 whitespace-nowrap">
+          {formatLocal(() => localCostUnit)}
+          {sharedCost > 0 && (
+            <div className="text-[10px] text-sky-500" title="運費、代運費、關稅分攤 (整筆)">+運 ${sharedCost.toLocaleString()}</div>
+          )}
+        </td>
+        <td className="p-4 text-right font-medium text-gray-700">${t.priceSold.toLocaleString()}</td>
+        {calculable ? (
+          <td className={`p-4 text-right font-bold ${isProfitable ? 'text-orange-400' : 'text-red-400'}`}>
+            {totalProfit > 0 ? '+' : ''}{totalProfit.toLocaleString()}
+            <div className="text-[10px] font-normal text-gray-400">{(margin * 100).toFixed(1)}%</div>
+          </td>
+        ) : (
+          <td className="p-4 text-right font-bold text-gray-300" title="金額或匯率過大，無法計算">—</td>
+        )}
+        <td className="p-4 text-right whitespace-nowrap">
+          <div className="text-green-600 font-medium">${paid.toLocaleString()}</div>
+          <div className={`text-[11px] ${outstanding > 0 ? 'text-rose-500 font-bold' : outstanding < 0 ? 'text-blue-500' : 'text-gray-300'}`}>
+            {outstanding > 0 ? `欠 $${outstanding.toLocaleString()}` : outstanding < 0 ? `溢收 $${(-outstanding).toLocaleString()}` : '已結清'}
+          </div>
+        </td>
+        <td className="p-4 text-center whitespace-nowrap">
+          {order && (
+            <button
+              type="button"
+              onClick={(e) => {
+                  e.stopPropagation();
+                  e.preventDefault();
+                  onAddToOrder(order);
+              }}
+              className="p-2 rounded-full hover:bg-yellow-50 text-gray-300 hover:text-yellow-600 transition-all active:scale-95 z-10 relative cursor-pointer"
+              title="加入商品到此訂單"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          )}
+          <button 
+            type="button"
+            onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                onManagePayments(t);
+            }}
+            className="p-2 rounded-full hover:bg-green-50 text-gray-300 hover:text-green-600 transition-all active:scale-95 z-10 relative cursor-pointer"
+            title="收款紀錄"
+          >
+            <Wallet className="w-4 h-4" />
+          </button>
+          <button 
+            type="button"
+            onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                onEdit(t);
+            }}
+            className="p-2 rounded-full hover:bg-yellow-50 text-gray-300 hover:text-yellow-600 transition-all active:scale-95 z-10 relative cursor-pointer"
+            title="編輯"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button 
+            type="button"
+            onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                onShowHistory(t);
+            }}
+            className="p-2 rounded-full hover:bg-gray-100 text-gray-300 hover:text-gray-600 transition-all active:scale-95 z-10 relative cursor-pointer"
+            title="修改紀錄"
+          >
+            <History className="w-4 h-4" />
+          </button>
+          <button 
+            type="button"
+            onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                onDelete(t.id);
+            }}
+            className="p-2 rounded-full hover:bg-red-50 text-gray-300 hover:text-red-500 transition-all active:scale-95 z-10 relative cursor-pointer"
+            title="刪除"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </td>
+      </tr>
+    );
+  };
+
+  if (allTransactions.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm p-12 text-center border border-gray-100">
+        <div className="text-gray-400 mb-2">尚無交易紀錄</div>
+        <p className="text-sm text-gray-500">請從上方表單新增您的第一筆代購訂單。</p>
+        <button
+          type="button"
+          onClick={onImport}
+          className="mt-4 inline-flex items-center gap-2 text-sm text-yellow-800 bg-yellow-100 hover:bg-yellow-200 px-3 py-1.5 rounded-md transition-colors border border-yellow-200 font-medium"
+        >
+          <Upload className="w-4 h-4" />
+          匯入舊資料 (CSV / Sheets)
+        </button>
+        {trashCount > 0 && (
+          <button
+            type="button"
+            onClick={onOpenTrash}
+            className="mt-4 ml-2 inline-flex items-center gap-2 text-sm text-gray-500 bg-white hover:bg-gray-50 px-3 py-1.5 rounded-md transition-colors border border-gray-200"
+          >
+            <Trash2 className="w-4 h-4" />
+            垃圾桶 ({trashCount})
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-5 border-b border-gray-100 bg-[#fbfaf8]">
+        <div className="flex flex-col gap-2">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h3 className="font-bold text-gray-700">
+                  交易明細 ({filterActive ? `${transactions.length} / ${allTransactions.length}` : allTransactions.length})
+                </h3>
+                
+                <div className="flex gap-2 w-full sm:w-auto">
+                    <button 
+                        type="button"
+                        onClick={onImport}
+                        className="flex-1 sm:flex-none justify-center sm:justify-start flex items-center gap-2 text-sm px-3 py-1.5 rounded-md transition-all border bg-white text-gray-500 border-gray-200 hover:bg-gray-50"
+                    >
+                        <Upload className="w-4 h-4" />
+                        匯入
+                    </button>
+
+                    <button 
+                        type="button"
+                        onClick={handleCopyToClipboard}
+                        className={`flex-1 sm:flex-none justify-center sm:justify-start flex items-center gap-2 text-sm px-3 py-1.5 rounded-md transition-all border ${
+                        copied 
+                            ? 'bg-green-50 text-green-700 border-green-200' 
+                            : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
+                        }`}
+                    >
+                        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                        {copied ? '已複製！' : '複製到 Sheets'}
+                    </button>
+                    
+                    <button 
+                        type="button"
+                        onClick={onExport}
+                        className="flex-1 sm:flex-none justify-center sm:justify-start flex items-center gap-2 text-sm text-yellow-800 bg-yellow-100 hover:bg-yellow-200 px-3 py-1.5 rounded-md transition-colors border border-yellow-200 font-medium"
+                    >
+                        <Download className="w-4 h-4" />
+                        匯出 Excel
+                    </button>
+
+                    <button 
+                        type="button"
+                        onClick={onExportCsv}
+                        className="flex-none flex items-center text-sm px-3 py-1.5 rounded-md transition-all border bg-white text-gray-500 border-gray-200 hover:bg-gray-50"
+                        title="匯出 CSV (可再匯入)"
+                    >
+                        CSV
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 pt-1 text-xs">
+                <div className="relative flex-1 min-w-[160px]">
+                    <Search className="w-3.5 h-3.5 text-gray-300 absolute left-2.5 top-1/2 -translate-y-1/2" />
+                    <input
+                        type="text"
+                        value={filter.query}
+                        onChange={(e) => updateFilter({ query: e.target.value })}
+                        placeholder="搜尋客人或商品"
+                        className="w-full pl-8 pr-2 py-1.5 border border-gray-200 rounded-md bg-white outline-none focus:border-yellow-300"
+                    />
+                </div>
+                <select
+                    value={filter.country}
+                    onChange={(e) => updateFilter({ country: e.target.value })}
+                    className="px-2 py-1.5 border border-gray-200 rounded-md bg-white outline-none"
+                >
+                    <option value="">全部國家</option>
+                    {countries.map(c => <option key={c.code} value={c.code}>{c.label}</option>)}
+                </select>
+                <input
+                    type="date"
+                    value={filter.dateFrom}
+                    onChange={(e) => updateFilter({ dateFrom: e.target.value })}
+                    className="px-2 py-1 border border-gray-200 rounded-md bg-white outline-none"
+                    title="起始日期"
+                />
+                <span className="text-gray-300">~</span>
+                <input
+                    type="date"
+                    value={filter.dateTo}
+                    onChange={(e) => updateFilter({ dateTo: e.target.value })}
+                    className="px-2 py-1 border border-gray-200 rounded-md bg-white outline-none"
+                    title="結束日期"
+                />
+                <button
+                    type="button"
+                    onClick={setThisMonth}
+                    className="px-2 py-1.5 border border-gray-200 rounded-md bg-white text-gray-500 hover:bg-gray-50"
+                >
+                    本月
+                </button>
+                <input
+                    type="number"
+                    min="1"
+                    value={filter.minQuantity ?? ''}
+                    onChange={(e) => updateFilter({ minQuantity: parseQuantityBound(e.target.value) })}
+                    placeholder="數量≥"
+                    className="w-16 px-2 py-1.5 border border-gray-200 rounded-md bg-white outline-none"
+                />
+                <input
+                    type="number"
+                    min="1"
+                    value={filter.maxQuantity ?? ''}
+                    onChange={(e) => updateFilter({ maxQuantity: parseQuantityBound(e.target.value) })}
+                    placeholder="數量≤"
+                    className="w-16 px-2 py-1.5 border border-gray-200 rounded-md bg-white outline-none"
+                />
+                <select
+                    value={filter.profit}
+                    onChange={(e) => updateFilter({ profit: e.target.value as ProfitFilter })}
+                    className={`px-2 py-1.5 border rounded-md outline-none ${filter.profit === 'loss' ? 'border-red-200 bg-red-50 text-red-500' : 'border-gray-200 bg-white'}`}
+                >
+                    <option value="all">全部損益</option>
+                    <option value="loss">只看虧損</option>
+                    <option value="profit">只看獲利</option>
+                </select>
+                {filterActive && (
+                    <>
+                        <button
+                            type="button"
+                            onClick={() => onFilterChange(EMPTY_FILTER)}
+                            className="text-gray-400 hover:text-gray-600 underline"
+                        >
+                            清除篩選
+                        </button>
+                        <label className="flex items-center gap-1 text-gray-500" title="儀表板數字、匯出 Excel / CSV 與複製只包含篩選結果">
+                            <input
+                                type="checkbox"
+                                checked={scopeToFilter}
+                                onChange={(e) => onScopeChange(e.target.checked)}
+                                className="accent-yellow-500"
+                            />
+                            統計與匯出只計篩選結果
+                        </label>
+                    </>
+                )}
+            </div>
+
+            <div className="flex justify-between items-center pt-1 gap-2">
+                {selectedIds.size > 0 ? (
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <span>已選取 {selectedIds.size} 筆</span>
+                        <select
+                            value=""
+                            onChange={handleBulkStatus}
+                            className="px-2 py-1 border border-yellow-200 rounded-md bg-yellow-50 text-yellow-800 font-medium outline-none"
+                        >
+                            <option value="">批次變更狀態…</option>
+                            {ORDER_STATUSES.map(s => (
+                                <option key={s} value={s}>{STATUS_CONFIG[s].label}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            onClick={() => onCreateInvoice([...selectedIds])}
+                            className="flex items-center gap-1 px-2 py-1 border border-gray-200 rounded-md bg-white text-gray-600 hover:bg-gray-50"
+                        >
+                            <FileText className="w-3.5 h-3.5" />
+                            開立對帳單
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setSelectedIds(new Set())}
+                            className="text-gray-400 hover:text-gray-600 underline"
+                        >
+                            取消選取
+                        </button>
+                    </div>
+                ) : <span />}
+                <div className="flex items-center gap-1">
+                <button
+                    type="button"
+                    onClick={onOpenTrash}
+                    className="flex items-center gap-2 text-xs text-gray-400 hover:text-gray-600 hover:bg-gray-100 px-2 py-1 rounded transition-colors"
+                    title="垃圾桶"
+                >
+                    <Trash2 className="w-3 h-3" />
+                    垃圾桶{trashCount > 0 && ` (${trashCount})`}
+                </button>
+                <button 
+                    type="button"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        e.preventDefault();
+                        onClearAll();
+                    }}
+                    className="flex items-center gap-2 text-xs text-red-500 hover:text-red-700 hover:bg-red-50 px-2 py-1 rounded transition-colors cursor-pointer"
+                    title="清空所有資料"
+                >
+                    <RotateCcw className="w-3 h-3" />
+                    刪除全部
+                </button>
+                </div>
+            </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-[#fbfaf8] text-gray-500 text-xs border-b border-gray-100">
+              <th className="p-4">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleSelectAll}
+                  className="accent-yellow-500 cursor-pointer"
+                  title="全選"
+                />
+              </th>
+              <th className="p-4 font-semibold">
+                <button type="button" onClick={() => toggleSort('date')} className="flex items-center gap-1 hover:text-gray-700">
+                  日期 {sortIcon('date')}
+                </button>
+              </th>
+              <th className="p-4 font-semibold">國家</th>
+              <th className="p-4 font-semibold">狀態</th>
+              <th className="p-4 font-semibold">
+                <button type="button" onClick={() => toggleSort('customer')} className="flex items-center gap-1 hover:text-gray-700">
+                  客人 {sortIcon('customer')}
+                </button>
+              </th>
+              <th className="p-4 font-semibold">商品</th>
+              <th className="p-4 font-semibold text-center">數量</th>
+              <th className="p-4 font-semibold text-right">外幣(單)</th>
+              <th className="p-4 font-semibold text-right">當日匯率</th>
+              <th className="p-4 font-semibold text-right">賣出匯率</th>
+              <th className="p-4 font-semibold text-right">台幣成本(單)</th>
+              <th className="p-4 font-semibold text-right">售價(單)</th>
+              <th className="p-4 font-semibold text-right">
+                <div className="flex flex-col items-end gap-0.5">
+                  <button type="button" onClick={() => toggleSort('profit')} className="flex items-center gap-1 hover:text-gray-700">
+                    總利潤 {sortIcon('profit')}
+                  </button>
+                  <button type="button" onClick={() => toggleSort('margin')} className="flex items-center gap-1 font-normal hover:text-gray-700">
+                    毛利率 {sortIcon('margin')}
+                  </button>
+                </div>
+              </th>
+              <th className="p-4 font-semibold text-right">已收 / 未收</th>
+              <th className="p-4 font-semibold text-center">操作</th>
+            </tr>
+          </thead>
+          <tbody className="text-sm">
+            {pageOrders.map(order => {
+              if (order.lines.length === 1) return renderLine(order.lines[0], order);
+
+              const totals = order.lines.reduce((acc, t) => {
+                const { sales, cost, profit } = figures[t.id];
+                const paid = getPaidAmount(paymentsByTransaction[t.id] || []);
+                return {
+                  quantity: acc.quantity + t.quantity,
+                  sales: acc.sales + sales,
+                  cost: acc.cost + cost,
+                  profit: acc.profit + profit,
+                  paid: acc.paid + paid,
+                  outstanding: acc.outstanding + getAmountDue(t) - paid,
+                };
+              }, { quantity: 0, sales: 0, cost: 0, profit: 0, paid: 0, outstanding: 0 });
+              const margin = marginRatio(totals.profit, totals.sales);
+              const statuses = Array.from(new Set<OrderStatus>(order.lines.map(getTransactionStatus)));
+              const isExpanded = expandedOrders.has(order.id);
+              const isSelected = order.lines.every(t => selectedIds.has(t.id));
+
+              return (
+                <React.Fragment key={order.id}>
+                  <tr
+                    onClick={() => toggleExpanded(order.id)}
+                    className={`border-b border-gray-50 transition-colors cursor-pointer ${isExpanded ? 'bg-yellow-50/40' : 'hover:bg-yellow-50/20'}`}
+                  >
+                    <td className="p-4" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => toggleOrderSelected(order)}
+                        className="accent-yellow-500 cursor-pointer"
+                        title="選取整筆訂單"
+                      />
+                    </td>
+                    <td className="p-4 text-gray-400 whitespace-nowrap">{new Date(order.date).toLocaleDateString()}</td>
+                    <td className="p-4">
+                      <span className={`px-2 py-1 rounded-md text-[10px] font-medium border ${getCountryColor(countries, order.country)}`}>
+                        {getCountryLabel(countries, order.country)}
+                      </span>
+                    </td>
+                    <td className="p-4">
+                      {statuses.length === 1
+                        ? <StatusBadge status={statuses[0]} />
+                        : <span className="text-[10px] text-gray-400 whitespace-nowrap">{statuses.map(s => STATUS_CONFIG[s].label).join(' / ')}</span>}
+                    </td>
+                    <td className="p-4 font-medium text-gray-600">{order.customerName}</td>
+                    <td className="p-4 text-gray-600">
+                      <div className="flex items-center gap-1 font-medium">
+                        {isExpanded ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                        {order.lines.length} 項商品
+                      </div>
+                      {!isExpanded && (
+                        <div className="text-[10px] text-gray-400 truncate max-w-[180px]">{order.lines.map(t => t.itemName).join('、')}</div>
+                      )}
+                    </td>
+                    <td className="p-4 text-center text-gray-500">{totals.quantity}</td>
+                    <td className="p-4" />
+                    <td className="p-4 text-right text-gray-400">{order.exchangeRate}</td>
+                    <td className="p-4" />
+                    <td className="p-4 text-right text-gray-500 whitespace-nowrap">
+                      ${totals.cost.toLocaleString()}
+                      <div className="text-[10px] text-gray-400">成本合計</div>
+                    </td>
+                    <td className="p-4 text-right font-medium text-gray-700 whitespace-nowrap">
+                      ${totals.sales.toLocaleString()}
+                      <div className="text-[10px] font-normal text-gray-400">訂單合計</div>
+                    </td>
+                    <td className={`p-4 text-right font-bold ${totals.profit >= 0 ? 'text-orange-400' : 'text-red-400'}`}>
+                      {totals.profit > 0 ? '+' : ''}{totals.profit.toLocaleString()}
+                      <div className="text-[10px] font-normal text-gray-400">{(margin * 100).toFixed(1)}%</div>
+                    </td>
+                    <td className="p-4 text-right whitespace-nowrap">
+                      <div className="text-green-600 font-medium">${totals.paid.toLocaleString()}</div>
+                      <div className={`text-[11px] ${totals.outstanding > 0 ? 'text-rose-500 font-bold' : totals.outstanding < 0 ? 'text-blue-500' : 'text-gray-300'}`}>
+                        {totals.outstanding > 0 ? `欠 $${totals.outstanding.toLocaleString()}` : totals.outstanding < 0 ? `溢收 $${(-totals.outstanding).toLocaleString()}` : '已結清'}
+                      </div>
+                    </td>
+                    <td className="p-4 text-center whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            e.preventDefault();
+                            onAddToOrder(order);
+                        }}
+                        className="p-2 rounded-full hover:bg-yellow-50 text-gray-300 hover:text-yellow-600 transition-all active:scale-95 z-10 relative cursor-pointer"
+                        title="加入商品到此訂單"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                  {isExpanded && order.lines.map(t => renderLine(t))}
+                </React.Fragment>
+              );
+            })}
+            {pageOrders.length === 0 && (
+              <tr>
+                <td colSpan={15} className="p-10 text-center text-sm text-gray-400">沒有符合篩選條件的交易</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between px-5 py-3 border-t border-gray-100 text-xs text-gray-500">
+          <span>
+            第 {currentPage * TRANSACTION_PAGE_SIZE + 1}–{Math.min((currentPage + 1) * TRANSACTION_PAGE_SIZE, orders.length)} 筆訂單，共 {orders.length} 筆訂單 ({sorted.length} 項)
+          </span>
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="p-1.5 rounded-md border border-gray-200 hover:bg-gray-50 disabled:opacity-40"
+              title="上一頁"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="px-2">{currentPage + 1} / {pageCount}</span>
+            <button
+              type="button"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+              className="p-1.5 rounded-md border border-gray-200 hover:bg-gray-50 disabled:opacity-40"
+              title="下一頁"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- PaymentModal Component ---
+const emptyPaymentForm = () => ({
+  type: 'deposit' as PaymentType,
+  method: 'bank_transfer' as PaymentMethod,
+  amount: '',
+  date: new Date().toISOString().split('T')[0],
+  note: '',
+});
+
+const PaymentModal: React.FC<{
+  transaction: Transaction | null;
+  payments: Payment[];
+  onAddPayment: (p: Payment) => void;
+  onDeletePayment: (id: string) => void;
+  onClose: () => void;
+}> = ({ transaction, payments, onAddPayment, onDeletePayment, onClose }) => {
+  const [formData, setFormData] = useState(emptyPaymentForm);
+
+  // The modal stays mounted, so start each transaction with a fresh form
+  useEffect(() => {
+    setFormData(emptyPaymentForm());
+  }, [transaction?.id]);
+
+  if (!transaction) return null;
+
+  const due = getAmountDue(transaction);
+  const paid = getPaidAmount(payments);
+  const outstanding = due - paid;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(formData.amount) || 0;
+    if (amount <= 0) return;
+
+    onAddPayment({
+      id: generateId(),
+      transactionId: transaction.id,
+      type: formData.type,
+      method: formData.method,
+      amount,
+      date: formData.date || new Date().toISOString(),
+      note: formData.note || undefined,
+    });
+    setFormData(prev => ({ ...prev, amount: '', note: '' }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <Wallet className="w-5 h-5 text-green-600" /> 收款紀錄
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">{transaction.customerName} · {transaction.itemName} x {transaction.quantity}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 p-5 text-center text-sm">
+          <div className="rounded-lg bg-gray-50 p-3">
+            <div className="text-[10px] text-gray-400">應收</div>
+            <div className="font-bold text-gray-700">${due.toLocaleString()}</div>
+          </div>
+          <div className="rounded-lg bg-green-50 p-3">
+            <div className="text-[10px] text-green-600">已收</div>
+            <div className="font-bold text-green-700">${paid.toLocaleString()}</div>
+          </div>
+          <div className={`rounded-lg p-3 ${outstanding > 0 ? 'bg-rose-50' : 'bg-gray-50'}`}>
+            <div className="text-[10px] text-rose-500">未收</div>
+            <div className={`font-bold ${outstanding > 0 ? 'text-rose-600' : 'text-gray-400'}`}>${outstanding.toLocaleString()}</div>
+          </div>
+        </div>
+
+        <div className="px-5 max-h-56 overflow-y-auto">
+          {payments.length === 0 ? (
+            <p className="text-center text-xs text-gray-400 py-4">尚無收款紀錄</p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody>
+                {payments.map(p => (
+                  <tr key={p.id} className="border-b border-gray-50">
+                    <td className="py-2 text-gray-400 whitespace-nowrap">{new Date(p.date).toLocaleDateString()}</td>
+                    <td className={`py-2 font-medium ${PAYMENT_TYPE_CONFIG[p.type].color}`}>{PAYMENT_TYPE_CONFIG[p.type].label}</td>
+                    <td className="py-2 text-gray-500">{PAYMENT_METHOD_LABELS[p.method]}{p.note ? ` · ${p.note}` : ''}</td>
+                    <td className="py-2 text-right font-bold text-gray-700">{p.type === 'refund' ? '-' : ''}${p.amount.toLocaleString()}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => onDeletePayment(p.id)}
+                        className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                        title="刪除"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 grid grid-cols-2 gap-3 border-t border-gray-100 mt-3">
+          <select name="type" value={formData.type} onChange={handleChange} className="px-3 py-2 border border-gray-100 rounded-lg bg-gray-50/50 text-sm text-gray-700 outline-none focus:ring-2 focus:ring-yellow-100">
+            {(Object.keys(PAYMENT_TYPE_CONFIG) as PaymentType[]).map(t => (
+              <option key={t} value={t}>{PAYMENT_TYPE_CONFIG[t].label}</option>
+            ))}
+          </select>
+          <select name="method" value={formData.method} onChange={handleChange} className="px-3 py-2 border border-gray-100 rounded-lg bg-gray-50/50 text-sm text-gray-700 outline-none focus:ring-2 focus:ring-yellow-100">
+            {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => (
+              <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+          <div className="relative">
+            <span className="absolute left-3 top-2 text-gray-400 text-xs">$</span>
+            <input
+              type="number"
+              name="amount"
+              min="0"
+              value={formData.amount}
+              onChange={handleChange}
+              placeholder={outstanding > 0 ? String(outstanding) : '0'}
+              className="w-full pl-8 pr-3 py-2 border border-gray-100 rounded-lg bg-gray-50/50 text-sm text-gray-700 outline-none focus:ring-2 focus:ring-yellow-100"
+            />
+          </div>
+          <input
+            type="date"
+            name="date"
+            value={formData.date}
+            onChange={handleChange}
+            className="px-3 py-2 border border-gray-100 rounded-lg bg-gray-50/50 text-sm text-gray-600 outline-none focus:ring-2 focus:ring-yellow-100"
+          />
+          <input
+            type="text"
+            name="note"
+            value={formData.note}
+            onChange={handleChange}
+            placeholder="備註 (選填)"
+            className="col-span-2 px-3 py-2 border border-gray-100 rounded-lg bg-gray-50/50 text-sm text-gray-700 outline-none focus:ring-2 focus:ring-yellow-100 placeholder-gray-300"
+          />
+          <div className="col-span-2 flex gap-2">
+            {outstanding > 0 && (
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, type: paid > 0 ? 'final' : prev.type, amount: String(outstanding) }))}
+                className="flex-1 py-2 rounded-lg text-sm border border-gray-200 text-gray-500 hover:bg-gray-50"
+              >
+                帶入未收金額
+              </button>
+            )}
+            <button
+              type="submit"
+              className="flex-1 bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all flex items-center justify-center gap-2"
+            >
+              <Plus className="w-4 h-4" /> 新增收款
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+// --- ReceivablesPanel Component ---
+const ReceivablesPanel: React.FC<{ transactions: Transaction[]; paymentsByTransaction: Record<string, Payment[]> }> = ({ transactions, paymentsByTransaction }) => {
+  const rows = useMemo(() => {
+    const byCustomer: Record<string, { name: string; due: number; paid: number }> = {};
+    transactions.forEach(t => {
+      const entry = byCustomer[t.customerId || t.customerName] ||= { name: t.customerName, due: 0, paid: 0 };
+      entry.due += getAmountDue(t);
+      entry.paid += getPaidAmount(paymentsByTransaction[t.id] || []);
+    });
+    return Object.entries(byCustomer)
+      .map(([key, { name, due, paid }]) => ({ key, name, due, paid, outstanding: due - paid }))
+      .filter(r => r.outstanding !== 0)
+      .sort((a, b) => b.outstanding - a.outstanding);
+  }, [transactions, paymentsByTransaction]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-rose-50">
+      <div className="flex items-center gap-2 mb-4 text-gray-700">
+        <Users className="w-5 h-5 text-rose-400" />
+        <h2 className="text-lg font-bold">客人應收帳款</h2>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-400 border-b border-gray-100">
+            <th className="py-2 text-left font-semibold">客人</th>
+            <th className="py-2 text-right font-semibold">已收</th>
+            <th className="py-2 text-right font-semibold">未收</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(r => (
+            <tr key={r.key} className="border-b border-gray-50">
+              <td className="py-2 font-medium text-gray-600">{r.name}</td>
+              <td className="py-2 text-right text-green-600">${r.paid.toLocaleString()}</td>
+              <td className={`py-2 text-right font-bold ${r.outstanding > 0 ? 'text-rose-500' : 'text-blue-500'}`}>
+                {r.outstanding < 0 ? '溢收 ' : ''}${Math.abs(r.outstanding).toLocaleString()}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// --- Customer Directory ---
+interface CustomerSummary {
+  orderCount: number;
+  totalSpend: number;
+  totalProfit: number;
+  outstanding: number;
+  lastOrderDate: string | null;
+}
+
+const summarizeCustomerOrders = (
+  orders: Transaction[],
+  paymentsByTransaction: Record<string, Payment[]>,
+  allocatedCosts: Record<string, number>,
+  stockCosts: Record<string, number>
+): CustomerSummary =>
+  orders.reduce<CustomerSummary>((acc, t) => {
+    const due = getAmountDue(t);
+    const isCancelled = getTransactionStatus(t) === 'cancelled';
+    return {
+      ...acc,
+      totalSpend: acc.totalSpend + due,
+      totalProfit: acc.totalProfit + (isCancelled ? 0 : getTransactionFigures(t, allocatedCosts, stockCosts).profit),
+      outstanding: acc.outstanding + due - getPaidAmount(paymentsByTransaction[t.id] || []),
+      lastOrderDate: !acc.lastOrderDate || t.date > acc.lastOrderDate ? t.date : acc.lastOrderDate,
+    };
+  }, { orderCount: countOrders(orders), totalSpend: 0, totalProfit: 0, outstanding: 0, lastOrderDate: null });
+
+const CustomerDirectory: React.FC<{
+  customers: Customer[];
+  transactions: Transaction[];
+  paymentsByTransaction: Record<string, Payment[]>;
+  allocatedCosts: Record<string, number>;
+  stockCosts: Record<string, number>;
+  onSelect: (c: Customer) => void;
+}> = ({ customers, transactions, paymentsByTransaction, allocatedCosts, stockCosts, onSelect }) => {
+  const [query, setQuery] = useState('');
+
+  const rows = useMemo(() => {
+    const ordersByCustomer: Record<string, Transaction[]> = {};
+    transactions.forEach(t => {
+      if (t.customerId) (ordersByCustomer[t.customerId] ||= []).push(t);
+    });
+    const q = query.trim().toLowerCase();
+    return customers
+      .filter(c => !q || [c.name, c.lineId, c.phone].some(v => v?.toLowerCase().includes(q)))
+      .map(c => ({ customer: c, summary: summarizeCustomerOrders(ordersByCustomer[c.id] || [], paymentsByTransaction, allocatedCosts, stockCosts) }))
+      .sort((a, b) => (b.summary.lastOrderDate || '').localeCompare(a.summary.lastOrderDate || ''));
+  }, [customers, transactions, paymentsByTransaction, allocatedCosts, stockCosts, query]);
+
+  if (customers.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-yellow-50">
+      <div className="flex items-center gap-2 mb-4 text-gray-700">
+        <UserRound className="w-5 h-5 text-yellow-500" />
+        <h2 className="text-lg font-bold">客人名冊 ({customers.length})</h2>
+      </div>
+      <div className="relative mb-3">
+        <Search className="w-3.5 h-3.5 absolute left-3 top-2.5 text-gray-300" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜尋名字、LINE ID、電話"
+          className="w-full pl-8 pr-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300"
+        />
+      </div>
+      <ul className="max-h-72 overflow-y-auto divide-y divide-gray-50">
+        {rows.map(({ customer, summary }) => (
+          <li key={customer.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(customer)}
+              className="w-full flex items-center justify-between py-2 px-1 text-left hover:bg-yellow-50/40 rounded transition-colors"
+            >
+              <div>
+                <div className="text-sm font-medium text-gray-700">{customer.name}</div>
+                <div className="text-[10px] text-gray-400">
+                  {summary.orderCount} 筆 · ${summary.totalSpend.toLocaleString()}
+                  {summary.lastOrderDate ? ` · 最近 ${new Date(summary.lastOrderDate).toLocaleDateString()}` : ''}
+                </div>
+              </div>
+              {summary.outstanding > 0 && (
+                <span className="text-xs font-bold text-rose-500">欠 ${summary.outstanding.toLocaleString()}</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const CustomerDetailModal: React.FC<{
+  customer: Customer | null;
+  customers: Customer[];
+  transactions: Transaction[];
+  paymentsByTransaction: Record<string, Payment[]>;
+  allocatedCosts: Record<string, number>;
+  stockCosts: Record<string, number>;
+  onSave: (c: Customer) => void;
+  onClose: () => void;
+}> = ({ customer, customers, transactions, paymentsByTransaction, allocatedCosts, stockCosts, onSave, onClose }) => {
+  const [formData, setFormData] = useState({ name: '', lineId: '', phone: '', address: '', notes: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!customer) return;
+    setError(null);
+    setFormData({
+      name: customer.name,
+      lineId: customer.lineId || '',
+      phone: customer.phone || '',
+      address: customer.address || '',
+      notes: customer.notes || '',
+    });
+  }, [customer]);
+
+  if (!customer) return null;
+
+  const orders = transactions
+    .filter(t => t.customerId === customer.id)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const summary = summarizeCustomerOrders(orders, paymentsByTransaction, allocatedCosts, stockCosts);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!normalizeCustomerName(formData.name)) return;
+    const updated: Customer = {
+      ...customer,
+      name: normalizeCustomerName(formData.name),
+      lineId: formData.lineId.trim() || undefined,
+      phone: formData.phone.trim() || undefined,
+      address: formData.address.trim() || undefined,
+      notes: formData.notes.trim() || undefined,
+    };
+    if (findNameClash(customers, updated)) {
+      setError(`已有名為「${updated.name}」的客人，請改用其他名字。`);
+      return;
+    }
+    setError(null);
+    onSave(updated);
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <UserRound className="w-5 h-5 text-yellow-500" /> {customer.name}
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 p-5 text-center text-sm">
+            <div className="rounded-lg bg-yellow-50 p-3">
+              <div className="text-[10px] text-yellow-700">總消費</div>
+              <div className="font-bold text-yellow-900">${summary.totalSpend.toLocaleString()}</div>
+            </div>
+            <div className="rounded-lg bg-orange-50 p-3">
+              <div className="text-[10px] text-orange-600">總利潤</div>
+              <div className="font-bold text-orange-700">${summary.totalProfit.toLocaleString()}</div>
+            </div>
+            <div className={`rounded-lg p-3 ${summary.outstanding > 0 ? 'bg-rose-50' : 'bg-gray-50'}`}>
+              <div className="text-[10px] text-rose-500">未收</div>
+              <div className={`font-bold ${summary.outstanding > 0 ? 'text-rose-600' : 'text-gray-400'}`}>${summary.outstanding.toLocaleString()}</div>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-3">
+              <div className="text-[10px] text-gray-400">最近下單</div>
+              <div className="font-bold text-gray-700">{summary.lastOrderDate ? new Date(summary.lastOrderDate).toLocaleDateString() : '-'}</div>
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit} className="px-5 grid grid-cols-2 gap-3">
+            <input name="name" value={formData.name} onChange={handleChange} placeholder="名字" className={inputClass} required />
+            <input name="lineId" value={formData.lineId} onChange={handleChange} placeholder="LINE ID" className={inputClass} />
+            <input name="phone" value={formData.phone} onChange={handleChange} placeholder="電話" className={inputClass} />
+            <input name="address" value={formData.address} onChange={handleChange} placeholder="地址" className={inputClass} />
+            <textarea name="notes" value={formData.notes} onChange={handleChange} placeholder="備註" rows={2} className={`col-span-2 ${inputClass}`} />
+            {error && <p className="col-span-2 text-xs text-red-500">{error}</p>}
+            <button
+              type="submit"
+              className="col-span-2 bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all flex items-center justify-center gap-2"
+            >
+              <Save className="w-4 h-4" /> 儲存客人資料
+            </button>
+          </form>
+
+          <div className="p-5">
+            <h4 className="text-xs font-bold text-gray-500 mb-2">交易紀錄 ({orders.length})</h4>
+            <table className="w-full text-sm">
+              <tbody>
+                {orders.map(t => {
+                  const outstanding = getAmountDue(t) - getPaidAmount(paymentsByTransaction[t.id] || []);
+                  return (
+                    <tr key={t.id} className="border-b border-gray-50">
+                      <td className="py-2 text-gray-400 whitespace-nowrap">{new Date(t.date).toLocaleDateString()}</td>
+                      <td className="py-2 text-gray-600">{t.itemName} x {t.quantity}</td>
+                      <td className="py-2"><StatusBadge status={getTransactionStatus(t)} /></td>
+                      <td className="py-2 text-right font-medium text-gray-700">{formatLocal(() => lineAmount(t.priceSold, t.quantity))}</td>
+                      <td className={`py-2 text-right text-xs ${outstanding > 0 ? 'text-rose-500 font-bold' : 'text-gray-300'}`}>
+                        {outstanding > 0 ? `欠 $${outstanding.toLocaleString()}` : '已結清'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- InvoiceModal Component ---
+const InvoiceModal: React.FC<{
+  invoice: Invoice | null;
+  settings: InvoiceSettings;
+  deviceCode: string;
+  transactions: Transaction[];
+  paymentsByTransaction: Record<string, Payment[]>;
+  onSettingsChange: (settings: InvoiceSettings) => void;
+  onIssue: (invoice: Invoice) => Invoice;
+  onClose: () => void;
+}> = ({ invoice, settings, deviceCode, transactions, paymentsByTransaction, onSettingsChange, onIssue, onClose }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setCopied(false);
+  }, [invoice?.id]);
+
+  if (!invoice) return null;
+
+  const doc = buildInvoiceDocument(invoice, settings, transactions, paymentsByTransaction);
+  const previewNumber = invoice.number || formatInvoiceNumber(settings, settings.nextNumber, deviceCode);
+
+  // The number is taken from the sequence the first time the statement is printed or copied
+  const issuedDocument = (): InvoiceDocument => {
+    const issued = invoice.number ? invoice : onIssue({ ...invoice, total: doc.total });
+    return buildInvoiceDocument(issued, settings, transactions, paymentsByTransaction);
+  };
+
+  const handlePrint = () => {
+    const url = URL.createObjectURL(new Blob([buildInvoiceHtml(issuedDocument())], { type: 'text/html;charset=utf-8' }));
+    const win = window.open(url, '_blank');
+    if (!win) alert('瀏覽器封鎖了彈出視窗，請允許後再列印');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(buildInvoiceText(issuedDocument()));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy!', err);
+      alert('複製失敗，請改用列印');
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <FileText className="w-5 h-5 text-yellow-500" /> 對帳單 {previewNumber}
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">
+              {invoice.number
+                ? `${invoice.customerName} · 開立於 ${formatInvoiceDate(invoice.issuedAt)}`
+                : `${invoice.customerName} · 列印或複製時正式開立並取號`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-auto p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">商店名稱</label>
+              <input
+                value={settings.shopName}
+                onChange={(e) => onSettingsChange({ ...settings, shopName: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">編號前綴</label>
+              <input
+                value={settings.numberPrefix}
+                onChange={(e) => onSettingsChange({ ...settings, numberPrefix: e.target.value })}
+                disabled={!!invoice.number}
+                className={`${inputClass} disabled:opacity-60`}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-400 mb-1">付款方式說明</label>
+              <textarea
+                value={settings.paymentInstructions}
+                onChange={(e) => onSettingsChange({ ...settings, paymentInstructions: e.target.value })}
+                rows={2}
+                placeholder="例如: 玉山銀行 (808) 1234-567-890123 / LINE Pay ID: @daigou"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-400 border-b border-gray-100">
+                <th className="py-2 text-left font-semibold">商品</th>
+                <th className="py-2 text-right font-semibold">數量</th>
+                <th className="py-2 text-right font-semibold">單價</th>
+                <th className="py-2 text-right font-semibold">小計</th>
+              </tr>
+            </thead>
+            <tbody>
+              {doc.lines.map(l => (
+                <tr key={l.transactionId} className="border-b border-gray-50 text-gray-600">
+                  <td className="py-2">{l.itemName}</td>
+                  <td className="py-2 text-right">{l.quantity}</td>
+                  <td className="py-2 text-right">${l.unitPrice.toLocaleString()}</td>
+                  <td className="py-2 text-right">${l.amount.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="text-gray-700">
+              <tr>
+                <td colSpan={3} className="pt-3 text-right font-bold">合計</td>
+                <td className="pt-3 text-right font-bold">${doc.total.toLocaleString()}</td>
+              </tr>
+              {doc.paid !== 0 && (
+                <>
+                  <tr className="text-gray-500">
+                    <td colSpan={3} className="pt-1 text-right">已付</td>
+                    <td className="pt-1 text-right">${doc.paid.toLocaleString()}</td>
+                  </tr>
+                  <tr>
+                    <td colSpan={3} className="pt-1 text-right font-bold text-rose-500">應付餘額</td>
+                    <td className="pt-1 text-right font-bold text-rose-500">${doc.balance.toLocaleString()}</td>
+                  </tr>
+                </>
+              )}
+            </tfoot>
+          </table>
+          {doc.lines.length === 0 && <p className="text-xs text-gray-400">這張對帳單的項目都已刪除或取消。</p>}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">LINE 文字版預覽</label>
+            <pre className="whitespace-pre-wrap text-xs text-gray-600 bg-gray-50 border border-gray-100 rounded-lg p-3 font-sans">
+              {buildInvoiceText({ ...doc, invoice: { ...invoice, number: previewNumber } })}
+            </pre>
+          </div>
+        </div>
+
+        <div className="flex border-t border-gray-100 bg-gray-50/50">
+          <button
+            onClick={handleCopy}
+            disabled={doc.lines.length === 0}
+            className="flex-1 py-4 text-sm font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-800 transition-colors border-r border-gray-100 flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            {copied ? '已複製！' : '複製文字 (LINE)'}
+          </button>
+          <button
+            onClick={handlePrint}
+            disabled={doc.lines.length === 0}
+            className="flex-1 py-4 text-sm font-bold text-yellow-700 hover:bg-yellow-50 transition-colors flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Printer className="w-4 h-4" />
+            列印 / 存成 PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Invoices Panel ---
+const InvoicePanel: React.FC<{
+  invoices: Invoice[];
+  onOpen: (invoice: Invoice) => void;
+}> = ({ invoices, onOpen }) => {
+  if (invoices.length === 0) return null;
+  const recent = [...invoices].sort((a, b) => b.issuedAt.localeCompare(a.issuedAt)).slice(0, 10);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-yellow-50">
+      <div className="flex items-center gap-2 mb-4 text-gray-700">
+        <FileText className="w-5 h-5 text-yellow-500" />
+        <h2 className="text-lg font-bold">對帳單</h2>
+        <span className="text-xs text-gray-400">({invoices.length})</span>
+      </div>
+      <ul className="divide-y divide-gray-50">
+        {recent.map(inv => (
+          <li key={inv.id}>
+            <button
+              type="button"
+              onClick={() => onOpen(inv)}
+              className="w-full flex items-center justify-between py-2 text-left hover:bg-yellow-50/40 rounded px-1"
+            >
+              <div>
+                <div className="text-sm text-gray-700 font-mono">{inv.number}</div>
+                <div className="text-[10px] text-gray-400">{inv.customerName} · {formatInvoiceDate(inv.issuedAt)} · {inv.transactionIds.length} 項</div>
+              </div>
+              <span className="text-sm font-medium text-gray-600">${inv.total.toLocaleString()}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// --- Shipments Panel ---
+const ShipmentPanel: React.FC<{
+  shipments: Shipment[];
+  transactions: Transaction[];
+  onCreate: () => void;
+  onEdit: (s: Shipment) => void;
+  onDelete: (id: string) => void;
+}> = ({ shipments, transactions, onCreate, onEdit, onDelete }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-sky-50">
+      <div className="flex items-center justify-between mb-4 text-gray-700">
+        <div className="flex items-center gap-2">
+          <Package className="w-5 h-5 text-sky-400" />
+          <h2 className="text-lg font-bold">貨運批次</h2>
+        </div>
+        <button
+          type="button"
+          onClick={onCreate}
+          className="flex items-center gap-1 text-xs text-sky-700 bg-sky-50 hover:bg-sky-100 border border-sky-100 px-2 py-1 rounded transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> 新增批次
+        </button>
+      </div>
+      {shipments.length === 0 ? (
+        <p className="text-xs text-gray-400">建立批次來分攤國際運費、代運費與關稅，讓利潤反映實際到岸成本。</p>
+      ) : (
+        <ul className="divide-y divide-gray-50">
+          {shipments.slice().sort((a, b) => b.date.localeCompare(a.date)).map(shipment => {
+            const itemCount = transactions.filter(t => t.shipmentId === shipment.id).length;
+            return (
+              <li key={shipment.id} className="flex items-center justify-between py-2">
+                <button type="button" onClick={() => onEdit(shipment)} className="text-left flex-1 hover:bg-sky-50/40 rounded px-1 py-0.5">
+                  <div className="text-sm font-medium text-gray-700">{shipment.name}</div>
+                  <div className="text-[10px] text-gray-400">
+                    {new Date(shipment.date).toLocaleDateString()} · {itemCount} 筆 · {ALLOCATION_METHOD_LABELS[shipment.allocationMethod]}
+                  </div>
+                </button>
+                <span className="text-sm font-bold text-sky-700 mr-2">${getShipmentSharedCost(shipment).toLocaleString()}</span>
+                <button
+                  type="button"
+                  onClick={() => onDelete(shipment.id)}
+                  className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                  title="刪除批次"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const ShipmentModal: React.FC<{
+  shipment: Shipment | null;
+  transactions: Transaction[];
+  stockCosts: Record<string, number>;
+  onSave: (s: Shipment, transactionIds: string[]) => void;
+  onClose: () => void;
+}> = ({ shipment, transactions, stockCosts, onSave, onClose }) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    date: '',
+    allocationMethod: 'weight' as AllocationMethod,
+    freight: '',
+    forwardingFee: '',
+    customsDuty: '',
+    notes: '',
+  });
+  const [memberIds, setMemberIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!shipment) return;
+    setFormData({
+      name: shipment.name,
+      date: shipment.date.split('T')[0],
+      allocationMethod: shipment.allocationMethod,
+      freight: shipment.freight ? String(shipment.freight) : '',
+      forwardingFee: shipment.forwardingFee ? String(shipment.forwardingFee) : '',
+      customsDuty: shipment.customsDuty ? String(shipment.customsDuty) : '',
+      notes: shipment.notes || '',
+    });
+    setMemberIds(new Set(transactions.filter(t => t.shipmentId === shipment.id).map(t => t.id)));
+    // Only re-initialise when a different shipment is opened
+  }, [shipment]);
+
+  if (!shipment) return null;
+
+  const draft: Shipment = {
+    ...shipment,
+    name: formData.name,
+    date: formData.date,
+    allocationMethod: formData.allocationMethod,
+    freight: parseFloat(formData.freight) || 0,
+    forwardingFee: parseFloat(formData.forwardingFee) || 0,
+    customsDuty: parseFloat(formData.customsDuty) || 0,
+    notes: formData.notes || undefined,
+  };
+
+  // Items already packed in another shipment are not offered here
+  const candidates = transactions
+    .filter(t => !t.shipmentId || t.shipmentId === shipment.id)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const preview = allocateShipmentCosts(
+    [draft],
+    candidates.map(t => ({ ...t, shipmentId: memberIds.has(t.id) ? draft.id : undefined })),
+    stockCosts
+  );
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const toggleMember = (id: string) => {
+    setMemberIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+    onSave({ ...draft, name: formData.name.trim(), date: formData.date || new Date().toISOString() }, [...memberIds]);
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Package className="w-5 h-5 text-sky-400" /> 貨運批次
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <input name="name" value={formData.name} onChange={handleChange} placeholder="批次名稱 (例如: 3月東京第1箱)" className={inputClass} required />
+            <input type="date" name="date" value={formData.date} onChange={handleChange} className={inputClass} />
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">國際運費</label>
+              <input type="number" min="0" name="freight" value={formData.freight} onChange={handleChange} placeholder="0" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">代運 / 手續費</label>
+              <input type="number" min="0" name="forwardingFee" value={formData.forwardingFee} onChange={handleChange} placeholder="0" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">關稅</label>
+              <input type="number" min="0" name="customsDuty" value={formData.customsDuty} onChange={handleChange} placeholder="0" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">分攤方式</label>
+              <select name="allocationMethod" value={formData.allocationMethod} onChange={handleChange} className={inputClass}>
+                {(Object.keys(ALLOCATION_METHOD_LABELS) as AllocationMethod[]).map(m => (
+                  <option key={m} value={m}>{ALLOCATION_METHOD_LABELS[m]}</option>
+                ))}
+              </select>
+            </div>
+            <input name="notes" value={formData.notes} onChange={handleChange} placeholder="備註 (選填)" className={`col-span-2 ${inputClass}`} />
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs font-bold text-gray-500 mb-2">
+              <span>批次內商品 ({memberIds.size})</span>
+              <span className="text-sky-700">共同成本 ${getShipmentSharedCost(draft).toLocaleString()}</span>
+            </div>
+            {candidates.length === 0 ? (
+              <p className="text-xs text-gray-400">沒有可加入的交易紀錄。</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {candidates.map(t => (
+                    <tr key={t.id} className="border-b border-gray-50 cursor-pointer hover:bg-sky-50/30" onClick={() => toggleMember(t.id)}>
+                      <td className="py-2 pr-2">
+                        <input type="checkbox" readOnly checked={memberIds.has(t.id)} className="accent-sky-500" />
+                      </td>
+                      <td className="py-2 text-gray-400 whitespace-nowrap">{new Date(t.date).toLocaleDateString()}</td>
+                      <td className="py-2 text-gray-600">{t.customerName} · {t.itemName} x {t.quantity}</td>
+                      <td className="py-2 text-right text-gray-400 text-xs">{t.weightGrams ? `${t.weightGrams * t.quantity}g` : '-'}</td>
+                      <td className="py-2 text-right font-medium text-sky-700">
+                        {memberIds.has(t.id) && preview[t.id] !== undefined ? `+$${preview[t.id].toLocaleString()}` : ''}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        <div className="p-5 border-t border-gray-100">
+          <button
+            type="submit"
+            className="w-full bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" /> 儲存批次
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// --- Product Catalog Panel ---
+const ProductCatalogPanel: React.FC<{
+  products: Product[];
+  countries: SourcingCountry[];
+  onCreate: () => void;
+  onEdit: (p: Product) => void;
+  onDelete: (id: string) => void;
+}> = ({ products, countries, onCreate, onEdit, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const needle = query.trim().toLowerCase();
+  const visible = products
+    .filter(p => !needle || [p.name, p.category || '', p.barcode || '', ...p.aliases].some(v => v.toLowerCase().includes(needle)))
+    .sort((a, b) => (b.lastRecordedDate || '').localeCompare(a.lastRecordedDate || ''));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-violet-50">
+      <div className="flex items-center justify-between mb-4 text-gray-700">
+        <div className="flex items-center gap-2">
+          <Tag className="w-5 h-5 text-violet-400" />
+          <h2 className="text-lg font-bold">商品目錄</h2>
+          <span className="text-xs text-gray-400">({products.length})</span>
+        </div>
+        <button
+          type="button"
+          onClick={onCreate}
+          className="flex items-center gap-1 text-xs text-violet-700 bg-violet-50 hover:bg-violet-100 border border-violet-100 px-2 py-1 rounded transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> 新增商品
+        </button>
+      </div>
+      {products.length === 0 ? (
+        <p className="text-xs text-gray-400">記錄交易時會自動建立商品，下次輸入商品名稱即可帶入上次的成本與售價。</p>
+      ) : (
+        <>
+          <div className="relative mb-3">
+            <Search className="w-3.5 h-3.5 text-gray-300 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜尋名稱、別名、分類或條碼"
+              className="w-full pl-8 pr-2 py-1.5 text-xs border border-gray-100 rounded-md bg-gray-50/50 outline-none focus:border-violet-200"
+            />
+          </div>
+          <ul className="divide-y divide-gray-50 max-h-72 overflow-y-auto">
+            {visible.map(p => (
+              <li key={p.id} className="flex items-center justify-between py-2">
+                <button type="button" onClick={() => onEdit(p)} className="text-left flex-1 hover:bg-violet-50/40 rounded px-1 py-0.5">
+                  <div className="text-sm text-gray-700">{p.name}</div>
+                  <div className="text-[10px] text-gray-400">
+                    {getCountryLabel(countries, p.country)}
+                    {p.category ? ` · ${p.category}` : ''}
+                    {' · '}{getCurrencySymbol(countries, p.country)}{p.lastCostForeign.toLocaleString()} → ${p.usualPrice.toLocaleString()}
+                  </div>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(p.id)}
+                  className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                  title="刪除商品"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+const ProductModal: React.FC<{
+  product: Product | null;
+  countries: SourcingCountry[];
+  onSave: (p: Product) => void;
+  onClose: () => void;
+}> = ({ product, countries, onSave, onClose }) => {
+  const [formData, setFormData] = useState({ name: '', aliases: '', country: '', lastCostForeign: '', usualPrice: '', category: '', barcode: '' });
+
+  useEffect(() => {
+    if (!product) return;
+    setFormData({
+      name: product.name,
+      aliases: product.aliases.join(', '),
+      country: product.country,
+      lastCostForeign: product.lastCostForeign ? String(product.lastCostForeign) : '',
+      usualPrice: product.usualPrice ? String(product.usualPrice) : '',
+      category: product.category || '',
+      barcode: product.barcode || '',
+    });
+    // Only re-initialise when a different product is opened
+  }, [product]);
+
+  if (!product) return null;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+    const country = formData.country || product.country;
+    const lastCostForeign = parseFloat(formData.lastCostForeign) || 0;
+    const usualPrice = parseFloat(formData.usualPrice) || 0;
+    const pricesChanged = country !== product.country || lastCostForeign !== product.lastCostForeign || usualPrice !== product.usualPrice;
+    onSave({
+      ...product,
+      name: formData.name.trim(),
+      aliases: formData.aliases.split(/[,，、]/).map(a => a.trim()).filter(Boolean),
+      country,
+      lastCostForeign,
+      usualPrice,
+      category: formData.category.trim() || undefined,
+      barcode: formData.barcode.trim() || undefined,
+      // Kept over what older transactions would teach, e.g. when the catalog is relinked on the next load
+      pricesSetOn: pricesChanged ? new Date().toISOString().split('T')[0] : product.pricesSetOn,
+    });
+  };
+
+  const config = findCountry(countries, formData.country || product.country);
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Tag className="w-5 h-5 text-violet-400" /> 商品資料
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 grid grid-cols-2 gap-3">
+          <input name="name" value={formData.name} onChange={handleChange} placeholder="商品名稱" className={`col-span-2 ${inputClass}`} required />
+          <input name="aliases" value={formData.aliases} onChange={handleChange} placeholder="別名 (以逗號分隔)" className={`col-span-2 ${inputClass}`} />
+          <select name="country" value={formData.country} onChange={handleChange} className={inputClass}>
+            {countries.map(c => <option key={c.code} value={c.code}>{c.label}</option>)}
+          </select>
+          <input name="category" value={formData.category} onChange={handleChange} placeholder="分類 (例如: 藥妝)" className={inputClass} />
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">最近成本 ({config.symbol})</label>
+            <input type="number" min="0" step="any" name="lastCostForeign" value={formData.lastCostForeign} onChange={handleChange} placeholder="0" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">常用售價 ($)</label>
+            <input type="number" min="0" name="usualPrice" value={formData.usualPrice} onChange={handleChange} placeholder="0" className={inputClass} />
+          </div>
+          <input name="barcode" value={formData.barcode} onChange={handleChange} placeholder="條碼 / JAN (選填)" className={`col-span-2 font-mono ${inputClass}`} />
+        </div>
+
+        <div className="p-5 border-t border-gray-100">
+          <button
+            type="submit"
+            className="w-full bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" /> 儲存商品
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// --- ProductReport Component ---
+const ProductReport: React.FC<{
+  products: Product[];
+  transactions: Transaction[];
+  countries: SourcingCountry[];
+  allocatedCosts: Record<string, number>;
+  stockCosts: Record<string, number>;
+}> = ({ products, transactions, countries, allocatedCosts, stockCosts }) => {
+  const rows = useMemo(() => {
+    const summaries = summarizeProducts(transactions, allocatedCosts, stockCosts);
+    return products
+      .filter(p => summaries[p.id])
+      .map(p => ({ product: p, summary: summaries[p.id] }))
+      .sort((a, b) => b.summary.unitsSold - a.summary.unitsSold);
+  }, [products, transactions, allocatedCosts, stockCosts]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-center gap-2">
+        <Tag className="w-4 h-4 text-violet-400" />
+        <h3 className="font-bold text-gray-700">商品銷售報表</h3>
+        <span className="text-[11px] text-gray-400">不含已取消</span>
+      </div>
+      <div className="overflow-x-auto max-h-96">
+        <table className="w-full text-sm border-collapse">
+          <thead className="sticky top-0">
+            <tr className="bg-[#fbfaf8] text-gray-500 text-xs border-b border-gray-100">
+              <th className="p-3 font-semibold text-left">商品</th>
+              <th className="p-3 font-semibold text-right">售出件數</th>
+              <th className="p-3 font-semibold text-right">訂單</th>
+              <th className="p-3 font-semibold text-right">銷售額</th>
+              <th className="p-3 font-semibold text-right">利潤</th>
+              <th className="p-3 font-semibold text-right">平均毛利率</th>
+              <th className="p-3 font-semibold text-right">最近售出</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ product, summary }) => (
+              <tr key={product.id} className="border-b border-gray-50 text-gray-600">
+                <td className="p-3">
+                  <div className="text-gray-700">{product.name}</div>
+                  <div className="text-[10px] text-gray-400">
+                    {getCountryLabel(countries, product.country)}{product.category ? ` · ${product.category}` : ''}
+                  </div>
+                </td>
+                <td className="p-3 text-right font-bold text-gray-700">{summary.unitsSold}</td>
+                <td className="p-3 text-right">{summary.orderCount}</td>
+                <td className="p-3 text-right">${summary.sales.toLocaleString()}</td>
+                <td className={`p-3 text-right ${summary.profit < 0 ? 'text-red-400' : 'text-orange-500'}`}>${summary.profit.toLocaleString()}</td>
+                <td className="p-3 text-right">{(summary.margin * 100).toFixed(1)}%</td>
+                <td className="p-3 text-right text-gray-400 whitespace-nowrap">{summary.lastSoldDate}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// --- Inventory Panel ---
+const InventoryPanel: React.FC<{
+  lots: InventoryLot[];
+  ledger: InventoryLedger;
+  countries: SourcingCountry[];
+  onCreate: () => void;
+  onEdit: (lot: InventoryLot) => void;
+  onDelete: (id: string) => void;
+}> = ({ lots, ledger, countries, onCreate, onEdit, onDelete }) => {
+  const [showLots, setShowLots] = useState(false);
+  const items = useMemo(() => summarizeStock(ledger), [ledger]);
+  const totalValue = items.reduce((sum, item) => sum + item.value, 0);
+  const shortfallCount = Object.keys(ledger.shortfalls).length;
+  const remainingById = new Map(ledger.remaining.map(entry => [entry.lot.id, entry.remaining]));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-emerald-50">
+      <div className="flex items-center justify-between mb-4 text-gray-700">
+        <div className="flex items-center gap-2">
+          <Boxes className="w-5 h-5 text-emerald-400" />
+          <h2 className="text-lg font-bold">庫存</h2>
+        </div>
+        <button
+          type="button"
+          onClick={onCreate}
+          className="flex items-center gap-1 text-xs text-emerald-700 bg-emerald-50 hover:bg-emerald-100 border border-emerald-100 px-2 py-1 rounded transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> 新增進貨
+        </button>
+      </div>
+
+      {lots.length === 0 ? (
+        <p className="text-xs text-gray-400">記錄先買起來的現貨，之後勾選「從庫存出貨」的交易會依先進先出 (FIFO) 帶入實際進貨成本。</p>
+      ) : (
+        <>
+          <div className="flex items-baseline justify-between mb-2">
+            <span className="text-xs text-gray-400">庫存價值</span>
+            <span className="text-sm font-bold text-emerald-700">${totalValue.toLocaleString()}</span>
+          </div>
+          {shortfallCount > 0 && (
+            <p className="text-[11px] text-red-500 mb-2 flex items-center gap-1">
+              <AlertTriangle className="w-3.5 h-3.5" /> {shortfallCount} 筆庫存出貨超過庫存量，超出部分以輸入的成本計算
+            </p>
+          )}
+          <ul className="divide-y divide-gray-50 max-h-64 overflow-y-auto">
+            {items.map(item => (
+              <li key={item.key} className="flex items-center justify-between py-2 gap-2">
+                <div>
+                  <div className="text-sm text-gray-700">{item.itemName}</div>
+                  <div className="flex flex-wrap gap-1 mt-0.5">
+                    {item.onHand === 0 ? (
+                      <span className="text-[10px] px-1.5 rounded bg-gray-100 text-gray-500">售完</span>
+                    ) : item.lowStock && (
+                      <span className="text-[10px] px-1.5 rounded bg-amber-50 text-amber-600 border border-amber-100">庫存偏低</span>
+                    )}
+                    {item.aging && (
+                      <span className="text-[10px] px-1.5 rounded bg-red-50 text-red-500 border border-red-100">庫齡 {item.ageDays} 天</span>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <div className="text-sm font-bold text-gray-700">{item.onHand} 件</div>
+                  <div className="text-[10px] text-gray-400">${item.value.toLocaleString()}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            type="button"
+            onClick={() => setShowLots(prev => !prev)}
+            className="mt-3 text-xs text-emerald-700 hover:text-emerald-900 underline"
+          >
+            {showLots ? '隱藏進貨批次' : `顯示進貨批次 (${lots.length})`}
+          </button>
+          {showLots && (
+            <ul className="mt-2 divide-y divide-gray-50 max-h-64 overflow-y-auto">
+              {lots.slice().sort((a, b) => b.date.localeCompare(a.date)).map(lot => (
+                <li key={lot.id} className="flex items-center justify-between py-2">
+                  <button type="button" onClick={() => onEdit(lot)} className="text-left flex-1 hover:bg-emerald-50/40 rounded px-1 py-0.5">
+                    <div className="text-sm text-gray-700">{lot.itemName}</div>
+                    <div className="text-[10px] text-gray-400">
+                      {new Date(lot.date).toLocaleDateString()} · 剩 {remainingById.get(lot.id) ?? lot.quantity} / {lot.quantity} · {getCurrencySymbol(countries, lot.country)}{lot.costForeign.toLocaleString()} x {lot.exchangeRate}
+                    </div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(lot.id)}
+                    className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                    title="刪除進貨批次"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const InventoryLotModal: React.FC<{
+  lot: InventoryLot | null;
+  countries: SourcingCountry[];
+  exchangeRates: ExchangeRateEntry[];
+  knownItems: string[];
+  onSave: (lot: InventoryLot) => void;
+  onClose: () => void;
+}> = ({ lot, countries, exchangeRates, knownItems, onSave, onClose }) => {
+  const [formData, setFormData] = useState({ itemName: '', country: '', date: '', quantity: '', costForeign: '', exchangeRate: '', notes: '' });
+
+  useEffect(() => {
+    if (!lot) return;
+    setFormData({
+      itemName: lot.itemName,
+      country: lot.country,
+      date: lot.date.split('T')[0],
+      quantity: lot.quantity ? String(lot.quantity) : '',
+      costForeign: lot.costForeign ? String(lot.costForeign) : '',
+      exchangeRate: lot.exchangeRate ? String(lot.exchangeRate) : '',
+      notes: lot.notes || '',
+    });
+    // Only re-initialise when a different lot is opened
+  }, [lot]);
+
+  if (!lot) return null;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => {
+      const updated = { ...prev, [name]: value };
+      // Country or date changes pick up the rate in effect, like the transaction form
+      if ((name === 'country' || name === 'date') && updated.country && updated.date) {
+        updated.exchangeRate = String(resolveDefaultRates(countries, exchangeRates, updated.country, updated.date).rate);
+      }
+      return updated;
+    });
+  };
+
+  // Null while the cost or rate is too large to calculate
+  const unitLocal = tryCalculate(() => convertToLocal(parseFloat(formData.costForeign) || 0, parseFloat(formData.exchangeRate) || 0), null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseInt(formData.quantity) || 0;
+    if (!formData.itemName.trim() || quantity <= 0 || unitLocal === null) return;
+    if (tryCalculate(() => lineAmount(unitLocal, quantity), null) === null) return;
+    onSave({
+      ...lot,
+      itemName: formData.itemName.trim(),
+      country: formData.country || lot.country,
+      date: formData.date || new Date().toISOString(),
+      quantity,
+      costForeign: parseFloat(formData.costForeign) || 0,
+      exchangeRate: parseFloat(formData.exchangeRate) || 0,
+      notes: formData.notes.trim() || undefined,
+    });
+  };
+
+  const config = findCountry(countries, formData.country || lot.country);
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Boxes className="w-5 h-5 text-emerald-400" /> 進貨批次
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 grid grid-cols-2 gap-3">
+          <input
+            name="itemName"
+            list="stock-item-options"
+            autoComplete="off"
+            value={formData.itemName}
+            onChange={handleChange}
+            placeholder="商品名稱"
+            className={`col-span-2 ${inputClass}`}
+            required
           />
+          <datalist id="stock-item-options">
+            {knownItems.map(name => <option key={name} value={name} />)}
+          </datalist>
+          <select name="country" value={formData.country} onChange={handleChange} className={inputClass}>
+            {countries.map(c => <option key={c.code} value={c.code}>{c.label}</option>)}
+          </select>
+          <input type="date" name="date" value={formData.date} onChange={handleChange} className={inputClass} />
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">數量</label>
+            <input type="number" min="1" name="quantity" value={formData.quantity} onChange={handleChange} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">單件成本 ({config.symbol})</label>
+            <input type="number" min="0" step="any" name="costForeign" value={formData.costForeign} onChange={handleChange} placeholder="0" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">匯率</label>
+            <input type="number" step="0.0001" name="exchangeRate" value={formData.exchangeRate} onChange={handleChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">單件台幣成本</label>
+            <div className="px-3 py-2 rounded-lg bg-emerald-50/50 border border-emerald-100 text-sm font-bold text-gray-700">{unitLocal === null ? '—' : `$${unitLocal.toLocaleString()}`}</div>
+          </div>
+          <input name="notes" value={formData.notes} onChange={handleChange} placeholder="備註 (選填)" className={`col-span-2 ${inputClass}`} />
+        </div>
+
+        <div className="p-5 border-t border-gray-100">
+          <button
+            type="submit"
+            className="w-full bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" /> 儲存進貨
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// --- Trips Panel ---
+const TripPanel: React.FC<{
+  trips: Trip[];
+  transactions: Transaction[];
+  countries: SourcingCountry[];
+  allocatedCosts: Record<string, number>;
+  stockCosts: Record<string, number>;
+  onCreate: () => void;
+  onEdit: (t: Trip) => void;
+  onDelete: (id: string) => void;
+}> = ({ trips, transactions, countries, allocatedCosts, stockCosts, onCreate, onEdit, onDelete }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-indigo-50">
+      <div className="flex items-center justify-between mb-4 text-gray-700">
+        <div className="flex items-center gap-2">
+          <Plane className="w-5 h-5 text-indigo-400" />
+          <h2 className="text-lg font-bold">代購團</h2>
+        </div>
+        <button
+          type="button"
+          onClick={onCreate}
+          className="flex items-center gap-1 text-xs text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-100 px-2 py-1 rounded transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> 新增代購團
+        </button>
+      </div>
+      {trips.length === 0 ? (
+        <p className="text-xs text-gray-400">記錄機票、住宿、交通與包材等出團開銷，看看每一團是否真的划算。</p>
+      ) : (
+        <ul className="divide-y divide-gray-50">
+          {trips.slice().sort((a, b) => b.startDate.localeCompare(a.startDate)).map(trip => {
+            const summary = summarizeTrip(trip, transactions, allocatedCosts, stockCosts);
+            return (
+              <li key={trip.id} className="flex items-center justify-between py-2">
+                <button type="button" onClick={() => onEdit(trip)} className="text-left flex-1 hover:bg-indigo-50/40 rounded px-1 py-0.5">
+                  <div className="text-sm font-medium text-gray-700">{trip.name}</div>
+                  <div className="text-[10px] text-gray-400">
+                    {getCountryLabel(countries, trip.destination)} · {trip.startDate} ~ {trip.endDate} · {summary.itemCount} 件
+                  </div>
+                </button>
+                <span className={`text-sm font-bold mr-2 ${summary.netProfit >= 0 ? 'text-orange-500' : 'text-red-500'}`}>
+                  {summary.netProfit > 0 ? '+' : ''}{summary.netProfit.toLocaleString()}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onDelete(trip.id)}
+                  className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                  title="刪除代購團"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const TripModal: React.FC<{
+  trip: Trip | null;
+  transactions: Transaction[];
+  countries: SourcingCountry[];
+  onSave: (t: Trip, transactionIds: string[]) => void;
+  onClose: () => void;
+}> = ({ trip, transactions, countries, onSave, onClose }) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    destination: LEGACY_DEFAULT_COUNTRY as Country,
+    startDate: '',
+    endDate: '',
+    notes: '',
+  });
+  const [expenses, setExpenses] = useState<TripExpense[]>([]);
+  const [expenseDraft, setExpenseDraft] = useState({
+    category: 'flight' as TripExpenseCategory,
+    description: '',
+    amount: '',
+    isForeign: false,
+    exchangeRate: '',
+  });
+  const [memberIds, setMemberIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!trip) return;
+    setFormData({
+      name: trip.name,
+      destination: trip.destination,
+      startDate: trip.startDate,
+      endDate: trip.endDate,
+      notes: trip.notes || '',
+    });
+    setExpenses(trip.expenses);
+    setExpenseDraft(prev => ({ ...prev, exchangeRate: String(findCountry(countries, trip.destination).rate) }));
+    setMemberIds(new Set(transactions.filter(t => t.tripId === trip.id).map(t => t.id)));
+    // Only re-initialise when a different trip is opened
+  }, [trip]);
+
+  if (!trip) return null;
+
+  const candidates = transactions
+    .filter(t => (!t.tripId || t.tripId === trip.id) && (t.country || LEGACY_DEFAULT_COUNTRY) === formData.destination)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const expenseTotal = expenses.reduce((sum, e) => sum + getTripExpenseLocal(e), 0);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (name === 'destination') {
+      setExpenseDraft(prev => ({ ...prev, exchangeRate: String(findCountry(countries, value).rate) }));
+    }
+  };
+
+  const toggleMember = (id: string) => {
+    setMemberIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const selectWithinDates = () => {
+    const inRange = candidates.filter(t => {
+      const day = t.date.split('T')[0];
+      return (!formData.startDate || day >= formData.startDate) && (!formData.endDate || day <= formData.endDate);
+    });
+    setMemberIds(prev => new Set([...prev, ...inRange.map(t => t.id)]));
+  };
+
+  const handleAddExpense = () => {
+    const amount = parseFloat(expenseDraft.amount) || 0;
+    if (amount <= 0) return;
+    if (expenseDraft.isForeign && tryCalculate(() => convertToLocal(amount, parseFloat(expenseDraft.exchangeRate) || 0), null) === null) return;
+    setExpenses(prev => [...prev, {
+      id: generateId(),
+      category: expenseDraft.category,
+      description: expenseDraft.description.trim(),
+      amount,
+      isForeign: expenseDraft.isForeign,
+      exchangeRate: expenseDraft.isForeign ? parseFloat(expenseDraft.exchangeRate) || 0 : undefined,
+    }]);
+    setExpenseDraft(prev => ({ ...prev, description: '', amount: '' }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+    // Items from another country cannot belong to this trip
+    const validIds = new Set(candidates.map(t => t.id));
+    onSave({
+      ...trip,
+      name: formData.name.trim(),
+      destination: formData.destination,
+      startDate: formData.startDate,
+      endDate: formData.endDate || formData.startDate,
+      expenses,
+      notes: formData.notes.trim() || undefined,
+    }, [...memberIds].filter(id => validIds.has(id)));
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+  const foreignSymbol = getCurrencySymbol(countries, formData.destination);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Plane className="w-5 h-5 text-indigo-400" /> 代購團
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5">
+          <div className="grid grid-cols-2 gap-3">
+            <input name="name" value={formData.name} onChange={handleChange} placeholder="團名 (例如: 2026 春季東京團)" className={inputClass} required />
+            <select name="destination" value={formData.destination} onChange={handleChange} className={inputClass}>
+              {countries.map(c => (
+                <option key={c.code} value={c.code}>{c.label}</option>
+              ))}
+            </select>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">出發日</label>
+              <input type="date" name="startDate" value={formData.startDate} onChange={handleChange} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">回程日</label>
+              <input type="date" name="endDate" value={formData.endDate} min={formData.startDate} onChange={handleChange} className={inputClass} />
+            </div>
+            <input name="notes" value={formData.notes} onChange={handleChange} placeholder="備註 (選填)" className={`col-span-2 ${inputClass}`} />
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs font-bold text-gray-500 mb-2">
+              <span>出團開銷</span>
+              <span className="text-indigo-700">合計 ${expenseTotal.toLocaleString()}</span>
+            </div>
+            {expenses.length > 0 && (
+              <table className="w-full text-sm mb-3">
+                <tbody>
+                  {expenses.map(e => (
+                    <tr key={e.id} className="border-b border-gray-50">
+                      <td className="py-2 text-gray-500">{TRIP_EXPENSE_CATEGORY_LABELS[e.category]}</td>
+                      <td className="py-2 text-gray-600">{e.description}</td>
+                      <td className="py-2 text-right text-gray-400 text-xs">
+                        {e.isForeign ? `${foreignSymbol}${e.amount.toLocaleString()} x ${e.exchangeRate}` : ''}
+                      </td>
+                      <td className="py-2 text-right font-medium text-gray-700">${getTripExpenseLocal(e).toLocaleString()}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setExpenses(prev => prev.filter(x => x.id !== e.id))}
+                          className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                          title="刪除"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div className="grid grid-cols-6 gap-2 items-center">
+              <select
+                value={expenseDraft.category}
+                onChange={(e) => setExpenseDraft(prev => ({ ...prev, category: e.target.value as TripExpenseCategory }))}
+                className={`col-span-2 ${inputClass}`}
+              >
+                {(Object.keys(TRIP_EXPENSE_CATEGORY_LABELS) as TripExpenseCategory[]).map(c => (
+                  <option key={c} value={c}>{TRIP_EXPENSE_CATEGORY_LABELS[c]}</option>
+                ))}
+              </select>
+              <input
+                value={expenseDraft.description}
+                onChange={(e) => setExpenseDraft(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="說明"
+                className={`col-span-4 ${inputClass}`}
+              />
+              <input
+                type="number"
+                min="0"
+                value={expenseDraft.amount}
+                onChange={(e) => setExpenseDraft(prev => ({ ...prev, amount: e.target.value }))}
+                placeholder={expenseDraft.isForeign ? `金額 (${foreignSymbol})` : '金額 ($)'}
+                className={`col-span-2 ${inputClass}`}
+              />
+              <label className="col-span-2 flex items-center gap-1 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={expenseDraft.isForeign}
+                  onChange={(e) => setExpenseDraft(prev => ({ ...prev, isForeign: e.target.checked }))}
+                  className="accent-indigo-500"
+                />
+                外幣支付
+              </label>
+              {expenseDraft.isForeign ? (
+                <input
+                  type="number"
+                  step="0.0001"
+                  value={expenseDraft.exchangeRate}
+                  onChange={(e) => setExpenseDraft(prev => ({ ...prev, exchangeRate: e.target.value }))}
+                  placeholder="匯率"
+                  className={`col-span-1 ${inputClass}`}
+                />
+              ) : <span className="col-span-1" />}
+              <button
+                type="button"
+                onClick={handleAddExpense}
+                className="col-span-1 flex items-center justify-center py-2 rounded-lg text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-100"
+                title="新增開銷"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center text-xs font-bold text-gray-500 mb-2">
+              <span>團內商品 ({memberIds.size})</span>
+              <button type="button" onClick={selectWithinDates} className="text-indigo-600 hover:text-indigo-800 underline font-medium">
+                加入期間內的{getCountryLabel(countries, formData.destination)}交易
+              </button>
+            </div>
+            {candidates.length === 0 ? (
+              <p className="text-xs text-gray-400">沒有可加入的交易紀錄。</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {candidates.map(t => (
+                    <tr key={t.id} className="border-b border-gray-50 cursor-pointer hover:bg-indigo-50/30" onClick={() => toggleMember(t.id)}>
+                      <td className="py-2 pr-2">
+                        <input type="checkbox" readOnly checked={memberIds.has(t.id)} className="accent-indigo-500" />
+                      </td>
+                      <td className="py-2 text-gray-400 whitespace-nowrap">{new Date(t.date).toLocaleDateString()}</td>
+                      <td className="py-2 text-gray-600">{t.customerName} · {t.itemName} x {t.quantity}</td>
+                      <td className="py-2 text-right text-gray-700">{formatLocal(() => lineAmount(t.priceSold, t.quantity))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        <div className="p-5 border-t border-gray-100">
+          <button
+            type="submit"
+            className="w-full bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" /> 儲存代購團
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// --- PeriodReport Component ---
+const PeriodReport: React.FC<{
+  transactions: Transaction[];
+  allocatedCosts: Record<string, number>;
+}> = ({ transactions, allocatedCosts, stockCosts }) => {
+  const [period, setPeriod] = useState<ReportPeriod>('this_month');
+  const [custom, setCustom] = useState(() => resolvePeriodRange('this_month', { from: '', to: '' }));
+
+  const range = resolvePeriodRange(period, custom);
+  const isValidRange = range.from !== '' && range.to !== '' && range.from <= range.to;
+
+  const { current, previous, months } = useMemo(() => {
+    if (!isValidRange) return { current: null, previous: null, months: [] };
+    const previousRange = getPreviousRange(range);
+    return {
+      current: summarizePeriod(transactions, allocatedCosts, stockCosts, range.from, range.to),
+      previous: summarizePeriod(transactions, allocatedCosts, stockCosts, previousRange.from, previousRange.to),
+      months: getReportMonths(range).map(m => summarizePeriod(transactions, allocatedCosts, stockCosts, m.from, m.to)),
+    };
+  }, [transactions, allocatedCosts, stockCosts, range.from, range.to, isValidRange]);
+
+  if (transactions.length === 0) return null;
+
+  const change = (now: number, before: number) => {
+    if (before === 0) return now === 0 ? null : <span className="text-gray-300">新</span>;
+    const pct = ((now - before) / Math.abs(before)) * 100;
+    return (
+      <span className={pct >= 0 ? 'text-green-600' : 'text-red-500'}>
+        {pct >= 0 ? '▲' : '▼'} {Math.abs(pct).toFixed(1)}%
+      </span>
+    );
+  };
+
+  const metrics: { label: string; render: (s: PeriodSummary) => string; value: (s: PeriodSummary) => number }[] = [
+    { label: '銷售額', render: s => `$${s.sales.toLocaleString()}`, value: s => s.sales },
+    { label: '成本', render: s => `$${s.cost.toLocaleString()}`, value: s => s.cost },
+    { label: '利潤', render: s => `$${s.profit.toLocaleString()}`, value: s => s.profit },
+    { label: '毛利率', render: s => `${(s.margin * 100).toFixed(1)}%`, value: s => s.margin },
+    { label: '商品件數', render: s => `${s.itemCount} 件`, value: s => s.itemCount },
+  ];
+
+  const monthTotal = months.reduce((acc, m) => ({
+    sales: acc.sales + m.sales,
+    cost: acc.cost + m.cost,
+    profit: acc.profit + m.profit,
+    itemCount: acc.itemCount + m.itemCount,
+    orderCount: acc.orderCount + m.orderCount,
+  }), { sales: 0, cost: 0, profit: 0, itemCount: 0, orderCount: 0 });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-yellow-500" />
+          <h3 className="font-bold text-gray-700">期間報表</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {(Object.keys(REPORT_PERIOD_LABELS) as ReportPeriod[]).map(p => (
+            <button
+              key={p}
+              type="button"
+              onClick={() => setPeriod(p)}
+              className={`py-1 px-2.5 rounded-md border transition-all ${
+                period === p
+                  ? 'bg-yellow-100 text-yellow-800 border-yellow-200 font-bold'
+                  : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {REPORT_PERIOD_LABELS[p]}
+            </button>
+          ))}
+          {period === 'custom' && (
+            <>
+              <input
+                type="date"
+                value={custom.from}
+                onChange={(e) => setCustom(prev => ({ ...prev, from: e.target.value }))}
+                className="px-2 py-1 border border-gray-200 rounded-md bg-white outline-none"
+              />
+              <span className="text-gray-300">~</span>
+              <input
+                type="date"
+                value={custom.to}
+                onChange={(e) => setCustom(prev => ({ ...prev, to: e.target.value }))}
+                className="px-2 py-1 border border-gray-200 rounded-md bg-white outline-none"
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {!current || !previous ? (
+        <div className="p-8 text-center text-sm text-gray-400">請選擇有效的日期區間</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-px bg-gray-100 border-b border-gray-100">
+            {metrics.map(metric => (
+              <div key={metric.label} className="bg-white p-4">
+                <div className="text-[11px] text-gray-400">{metric.label}</div>
+                <div className="text-lg font-bold text-gray-700">{metric.render(current)}</div>
+                <div className="text-[10px] text-gray-400 flex gap-1.5">
+                  {change(metric.value(current), metric.value(previous))}
+                  <span>前期 {metric.render(previous)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="px-5 py-2 text-[11px] text-gray-400 border-b border-gray-100">
+            {current.from} ~ {current.to} · {current.orderCount} 筆訂單 · 比較 {previous.from} ~ {previous.to} (不含已取消)
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="bg-[#fbfaf8] text-gray-500 text-xs border-b border-gray-100">
+                  <th className="p-3 font-semibold text-left">月份</th>
+                  <th className="p-3 font-semibold text-right">訂單</th>
+                  <th className="p-3 font-semibold text-right">件數</th>
+                  <th className="p-3 font-semibold text-right">銷售額</th>
+                  <th className="p-3 font-semibold text-right">成本</th>
+                  <th className="p-3 font-semibold text-right">利潤</th>
+                  <th className="p-3 font-semibold text-right">毛利率</th>
+                </tr>
+              </thead>
+              <tbody>
+                {months.map(m => (
+                  <tr key={m.from} className={`border-b border-gray-50 ${m.orderCount === 0 ? 'text-gray-300' : 'text-gray-600'}`}>
+                    <td className="p-3 whitespace-nowrap">{m.from.slice(0, 7)}</td>
+                    <td className="p-3 text-right">{m.orderCount}</td>
+                    <td className="p-3 text-right">{m.itemCount}</td>
+                    <td className="p-3 text-right">${m.sales.toLocaleString()}</td>
+                    <td className="p-3 text-right">${m.cost.toLocaleString()}</td>
+                    <td className={`p-3 text-right font-medium ${m.profit < 0 ? 'text-red-400' : ''}`}>${m.profit.toLocaleString()}</td>
+                    <td className="p-3 text-right">{(m.margin * 100).toFixed(1)}%</td>
+                  </tr>
+                ))}
+                <tr className="bg-[#fbfaf8] font-bold text-gray-700">
+                  <td className="p-3">合計</td>
+                  <td className="p-3 text-right">{monthTotal.orderCount}</td>
+                  <td className="p-3 text-right">{monthTotal.itemCount}</td>
+                  <td className="p-3 text-right">${monthTotal.sales.toLocaleString()}</td>
+                  <td className="p-3 text-right">${monthTotal.cost.toLocaleString()}</td>
+                  <td className="p-3 text-right">${monthTotal.profit.toLocaleString()}</td>
+                  <td className="p-3 text-right">
+                    {(marginRatio(monthTotal.profit, monthTotal.sales) * 100).toFixed(1)}%
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// --- ChartsPanel Component ---
+const ChartsPanel: React.FC<{
+  transactions: Transaction[];
+  countries: SourcingCountry[];
+  allocatedCosts: Record<string, number>;
+  stockCosts: Record<string, number>;
+  dateFrom: string; // Active list date filter; '' = open-ended
+  dateTo: string;
+}> = ({ transactions, countries, allocatedCosts, stockCosts, dateFrom, dateTo }) => {
+  const [granularity, setGranularity] = useState<ChartGranularity>('month');
+
+  const inRange = useMemo(() => transactions.filter(t => {
+    const day = t.date.split('T')[0];
+    return (!dateFrom || day >= dateFrom) && (!dateTo || day <= dateTo);
+  }), [transactions, dateFrom, dateTo]);
+
+  const data = useMemo(() => {
+    const trend = groupProfitBy(inRange, allocatedCosts, stockCosts, t => getChartBucket(t.date.split('T')[0], granularity))
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+    const byCountry = groupProfitBy(inRange, allocatedCosts, stockCosts, t => t.country).map(g => ({
+      ...g,
+      label: getCountryLabel(countries, g.key),
+      fill: COUNTRY_CHART_COLORS[findCountry(countries, g.key).color],
+    }));
+
+    const margins = MARGIN_BUCKETS.map(b => ({ label: b.label, count: 0 }));
+    inRange.forEach(t => {
+      if (getTransactionStatus(t) === 'cancelled') return;
+      const { profit, margin, calculable } = getTransactionFigures(t, allocatedCosts, stockCosts);
+      if (!calculable) return;
+      const index = profit < 0 ? 0 : MARGIN_BUCKETS.findIndex((b, i) => i > 0 && margin < b.max);
+      margins[index].count += 1;
+    });
+
+    // By customer entry rather than the name on each record; unlinked records fall back to the name
+    const customerKey = (t: Transaction) => t.customerId || normalizeCustomerName(t.customerName);
+    const customerNames = new Map(inRange.map(t => [customerKey(t), t.customerName]));
+
+    return {
+      trend,
+      byCountry,
+      topItems: groupProfitBy(inRange, allocatedCosts, stockCosts, t => t.itemName.trim()).slice(0, 10)
+        .map(g => ({ ...g, label: g.key })),
+      topCustomers: groupProfitBy(inRange, allocatedCosts, stockCosts, customerKey).slice(0, 10)
+        .map(g => ({ ...g, label: customerNames.get(g.key) || g.key })),
+      margins,
+    };
+  }, [inRange, allocatedCosts, stockCosts, countries, granularity]);
+
+  if (transactions.length === 0) return null;
+
+  const money = (value: unknown) => `$${Number(value).toLocaleString()}`;
+  const card = "border border-gray-100 rounded-lg p-4";
+  const title = "text-xs font-bold text-gray-500 mb-3";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-orange-400" />
+          <h3 className="font-bold text-gray-700">銷售圖表</h3>
+          <span className="text-[11px] text-gray-400">
+            {dateFrom || dateTo ? `${dateFrom || '…'} ~ ${dateTo || '…'}` : '全部期間'} · 不含已取消
+          </span>
+        </div>
+      </div>
+
+      {inRange.length === 0 ? (
+        <div className="p-8 text-center text-sm text-gray-400">此期間沒有交易</div>
+      ) : (
+        <div className="p-5 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className={`${card} md:col-span-2`}>
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-xs font-bold text-gray-500">銷售額與利潤趨勢</span>
+              <div className="flex gap-1 text-xs">
+                {([['day', '日'], ['week', '週'], ['month', '月']] as [ChartGranularity, string][]).map(([g, label]) => (
+                  <button
+                    key={g}
+                    type="button"
+                    onClick={() => setGranularity(g)}
+                    className={`px-2 py-0.5 rounded border ${granularity === g ? 'bg-yellow-100 text-yellow-800 border-yellow-200 font-bold' : 'bg-white text-gray-400 border-gray-200'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={data.trend} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+                  <XAxis dataKey="key" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} width={60} tickFormatter={money} />
+                  <Tooltip formatter={money} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <Bar dataKey="sales" name="銷售額" fill="#fde68a" />
+                  <Line dataKey="profit" name="利潤" stroke="#f97316" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className={card}>
+            <div className={title}>各國利潤</div>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie data={data.byCountry.filter(c => c.profit > 0)} dataKey="profit" nameKey="label" outerRadius={80} label={({ name }) => String(name)}>
+                    {data.byCountry.filter(c => c.profit > 0).map(c => <Cell key={c.key} fill={c.fill} />)}
+                  </Pie>
+                  <Tooltip formatter={money} />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className={card}>
+            <div className={title}>毛利率分布 (筆數)</div>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data.margins} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} width={30} allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="count" name="筆數">
+                    {data.margins.map((m, i) => <Cell key={m.label} fill={i === 0 ? '#f87171' : '#fbbf24'} />)}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {([['熱賣商品 (依利潤)', data.topItems], ['主要客人 (依利潤)', data.topCustomers]] as [string, typeof data.topItems][]).map(([label, rows]) => (
+            <div key={label} className={card}>
+              <div className={title}>{label}</div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={rows} layout="vertical" margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+                    <XAxis type="number" tick={{ fontSize: 10 }} tickFormatter={money} />
+                    <YAxis type="category" dataKey="label" tick={{ fontSize: 10 }} width={90} />
+                    <Tooltip formatter={money} />
+                    <Bar dataKey="profit" name="利潤">
+                      {rows.map(r => <Cell key={r.key} fill={r.profit >= 0 ? '#fb923c' : '#f87171'} />)}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- TripReport Component ---
+const TripReport: React.FC<{
+  trips: Trip[];
+  transactions: Transaction[];
+  countries: SourcingCountry[];
+  allocatedCosts: Record<string, number>;
+}> = ({ trips, transactions, countries, allocatedCosts, stockCosts }) => {
+  if (trips.length === 0) return null;
+
+  const columns = trips
+    .slice()
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .map(trip => ({ trip, summary: summarizeTrip(trip, transactions, allocatedCosts, stockCosts) }));
+
+  const rows: { label: string; render: (s: TripSummary) => React.ReactNode; strong?: boolean }[] = [
+    { label: '商品件數', render: s => `${s.itemCount} 件` },
+    { label: '銷售額', render: s => `$${s.sales.toLocaleString()}` },
+    { label: '商品成本 (含運費分攤)', render: s => `$${s.itemCost.toLocaleString()}` },
+    { label: '商品毛利', render: s => `$${s.grossProfit.toLocaleString()}` },
+    { label: '出團開銷', render: s => `-$${s.expenses.toLocaleString()}` },
+    {
+      label: '出團淨利',
+      strong: true,
+      render: s => (
+        <span className={s.netProfit >= 0 ? 'text-orange-500' : 'text-red-500'}>
+          {s.netProfit > 0 ? '+' : ''}{s.netProfit.toLocaleString()}
+        </span>
+      ),
+    },
+    { label: '淨利率', render: s => `${s.margin}%` },
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-center gap-2">
+        <Plane className="w-4 h-4 text-indigo-400" />
+        <h3 className="font-bold text-gray-700">代購團損益比較</h3>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="bg-[#fbfaf8] text-gray-500 text-xs border-b border-gray-100">
+              <th className="p-4 font-semibold text-left"></th>
+              {columns.map(({ trip }) => (
+                <th key={trip.id} className="p-4 font-semibold text-right whitespace-nowrap">
+                  <div className="text-gray-700">{trip.name}</div>
+                  <div className="font-normal text-[10px] text-gray-400">{getCountryLabel(countries, trip.destination)} · {trip.startDate}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label} className="border-b border-gray-50">
+                <td className="p-4 text-gray-500 whitespace-nowrap">{row.label}</td>
+                {columns.map(({ trip, summary }) => (
+                  <td key={trip.id} className={`p-4 text-right whitespace-nowrap ${row.strong ? 'font-bold' : 'text-gray-600'}`}>
+                    {row.render(summary)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// --- CountryRegistryModal Component ---
+const CountryRegistryModal: React.FC<{
+  isOpen: boolean;
+  countries: SourcingCountry[];
+  usedCodes: Set<string>;
+  onSave: (countries: SourcingCountry[]) => void;
+  onClose: () => void;
+}> = ({ isOpen, countries, usedCodes, onSave, onClose }) => {
+  const [draft, setDraft] = useState<SourcingCountry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(countries);
+    setError(null);
+  }, [isOpen, countries]);
+
+  if (!isOpen) return null;
+
+  const savedCodes = new Set(countries.map(c => c.code));
+
+  const updateRow = (index: number, patch: Partial<SourcingCountry>) => {
+    setDraft(prev => prev.map((c, i) => i === index ? { ...c, ...patch } : c));
+  };
+
+  const handleAdd = () => {
+    setDraft(prev => [...prev, { code: '', label: '', currencyCode: '', symbol: '$', rate: 1, sellingRate: 1, color: 'gray' }]);
+  };
+
+  const handleSave = () => {
+    const cleaned = draft.map(c => ({ ...c, code: c.code.trim().toUpperCase(), label: c.label.trim(), currencyCode: c.currencyCode.trim().toUpperCase() }));
+    const codes = cleaned.map(c => c.code);
+    if (cleaned.length === 0) {
+      setError('至少需要一個代購國家。');
+      return;
+    }
+    if (cleaned.some(c => !c.code || !c.label)) {
+      setError('每個國家都需要代碼與名稱。');
+      return;
+    }
+    if (new Set(codes).size !== codes.length) {
+      setError('國家代碼不可重複。');
+      return;
+    }
+    const removedInUse = [...usedCodes].filter(code => !codes.includes(code));
+    if (removedInUse.length > 0) {
+      setError(`${removedInUse.join(', ')} 仍有交易、代購團、庫存、商品或定價規則使用，無法刪除。`);
+      return;
+    }
+    onSave(cleaned);
+  };
+
+  const inputClass = "w-full px-2 py-1.5 border border-gray-100 rounded-md text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <Globe className="w-5 h-5 text-yellow-500" /> 代購國家與幣別
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">預設匯率會在新增交易時自動帶入，已記錄的交易不受影響。</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-auto p-5">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-400 border-b border-gray-100">
+                <th className="py-2 pr-2 text-left font-semibold">代碼</th>
+                <th className="py-2 pr-2 text-left font-semibold">名稱</th>
+                <th className="py-2 pr-2 text-left font-semibold">幣別</th>
+                <th className="py-2 pr-2 text-left font-semibold">符號</th>
+                <th className="py-2 pr-2 text-left font-semibold">成本匯率</th>
+                <th className="py-2 pr-2 text-left font-semibold">賣出匯率</th>
+                <th className="py-2 pr-2 text-left font-semibold">顏色</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((c, i) => (
+                <tr key={i} className="border-b border-gray-50">
+                  <td className="py-2 pr-2 w-20">
+                    <input
+                      value={c.code}
+                      onChange={(e) => updateRow(i, { code: e.target.value })}
+                      disabled={savedCodes.has(c.code) && usedCodes.has(c.code)}
+                      placeholder="US"
+                      className={`${inputClass} disabled:opacity-60`}
+                    />
+                  </td>
+                  <td className="py-2 pr-2"><input value={c.label} onChange={(e) => updateRow(i, { label: e.target.value })} placeholder="美國" className={inputClass} /></td>
+                  <td className="py-2 pr-2 w-20"><input value={c.currencyCode} onChange={(e) => updateRow(i, { currencyCode: e.target.value })} placeholder="USD" className={inputClass} /></td>
+                  <td className="py-2 pr-2 w-16"><input value={c.symbol} onChange={(e) => updateRow(i, { symbol: e.target.value })} className={inputClass} /></td>
+                  <td className="py-2 pr-2 w-24">
+                    <input type="number" step="0.0001" value={c.rate} onChange={(e) => updateRow(i, { rate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                  </td>
+                  <td className="py-2 pr-2 w-24">
+                    <input type="number" step="0.0001" value={c.sellingRate} onChange={(e) => updateRow(i, { sellingRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <div className="flex items-center gap-2">
+                      <select value={c.color} onChange={(e) => updateRow(i, { color: e.target.value as CountryColor })} className={inputClass}>
+                        {(Object.keys(COUNTRY_COLOR_CLASSES) as CountryColor[]).map(color => (
+                          <option key={color} value={color}>{color}</option>
+                        ))}
+                      </select>
+                      <span className={`px-2 py-1 rounded-md text-[10px] font-medium border whitespace-nowrap ${COUNTRY_COLOR_CLASSES[c.color]}`}>{c.label || c.code || '-'}</span>
+                    </div>
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setDraft(prev => prev.filter((_, j) => j !== i))}
+                      disabled={savedCodes.has(c.code) && usedCodes.has(c.code)}
+                      className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-300"
+                      title={usedCodes.has(c.code) ? '仍有資料使用此國家' : '刪除'}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="mt-3 flex items-center gap-1 text-xs text-yellow-800 bg-yellow-50 hover:bg-yellow-100 border border-yellow-200 px-3 py-1.5 rounded-md transition-colors"
+          >
+            <Plus className="w-3.5 h-3.5" /> 新增國家
+          </button>
+          {error && <p className="mt-3 text-xs text-red-500">{error}</p>}
+        </div>
+
+        <div className="flex border-t border-gray-100 bg-gray-50/50">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 text-sm font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-800 transition-colors border-r border-gray-100"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 py-4 text-sm font-bold text-yellow-700 hover:bg-yellow-50 transition-colors"
+          >
+            儲存設定
+          </button>
         </div>
+      </div>
+    </div>
+  );
+};
+
+// --- PricingRulesModal Component ---
+const PricingRulesModal: React.FC<{
+  isOpen: boolean;
+  rules: PricingRule[];
+  countries: SourcingCountry[];
+  categories: string[];
+  onSave: (rules: PricingRule[]) => void;
+  onClose: () => void;
+}> = ({ isOpen, rules, countries, categories, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PricingRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [sampleCost, setSampleCost] = useState('1000');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(rules);
+    setError(null);
+  }, [isOpen, rules]);
+
+  if (!isOpen) return null;
+
+  const updateRule = (index: number, patch: Partial<PricingRule>) => {
+    setDraft(prev => prev.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const updateTier = (ruleIndex: number, tierIndex: number, patch: Partial<PricingFeeTier>) => {
+    updateRule(ruleIndex, { feeTiers: draft[ruleIndex].feeTiers.map((t, j) => j === tierIndex ? { ...t, ...patch } : t) });
+  };
+
+  const handleAdd = () => {
+    setDraft(prev => [...prev, {
+      id: generateId(),
+      name: '',
+      base: 'selling_rate',
+      markupPercent: 0,
+      handlingFee: 0,
+      feeTiers: [],
+      minProfit: 0,
+      roundTo: 10,
+    }]);
+  };
+
+  const handleSave = () => {
+    const cleaned = draft.map(r => ({
+      ...r,
+      name: r.name.trim(),
+      category: r.category?.trim() || undefined,
+      country: r.country || undefined,
+      feeTiers: sortFeeTiers(r.feeTiers),
+    }));
+    if (cleaned.some(r => !r.name)) {
+      setError('每條規則都需要名稱。');
+      return;
+    }
+    if (cleaned.some(r => r.feeTiers.filter(t => t.upToCost === null).length > 1)) {
+      setError('每條規則最多只能有一個「以上」級距。');
+      return;
+    }
+    onSave(cleaned);
+  };
 
-        <div className="lg:col-span-6 grid grid-cols-2 gap-4">
+  const inputClass = "w-full px-2 py-1.5 border border-gray-100 rounded-md text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+  const labelClass = "block text-[10px] font-medium text-gray-400 mb-0.5";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
           <div>
-            <label className="block text-xs font-medium text-gray-400 mb-1">當日匯率 (成本)</label>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <DollarSign className="w-5 h-5 text-yellow-500" /> 定價規則
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">新增交易時依國家與商品分類套用最符合的規則；沒有符合的規則時使用外幣成本 × 賣出匯率。</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-auto p-5 space-y-4">
+          <label className="flex items-center gap-2 text-xs text-gray-500">
+            試算外幣成本
             <input
               type="number"
-              step="0.0001"
-              name="exchangeRate"
-              value={formData.exchangeRate}
-              onChange={handleChange}
-              className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 font-medium"
+              min="0"
+              value={sampleCost}
+              onChange={(e) => setSampleCost(e.target.value)}
+              className="w-24 px-2 py-1 border border-gray-100 rounded-md bg-gray-50/50 outline-none"
             />
+            <span className="text-gray-400">(以各國家預設匯率計算)</span>
+          </label>
+
+          {draft.map((rule, i) => {
+            const sampleCountry = findCountry(countries, rule.country || countries[0]?.code);
+            const sample = tryCalculate(() => quotePrice(rule, parseFloat(sampleCost) || 0, sampleCountry.rate, sampleCountry.sellingRate), null);
+            return (
+              <div key={rule.id} className="border border-gray-100 rounded-xl p-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div className="col-span-2">
+                    <label className={labelClass}>規則名稱</label>
+                    <input value={rule.name} onChange={(e) => updateRule(i, { name: e.target.value })} placeholder="例如: 日本藥妝" className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>國家</label>
+                    <select value={rule.country || ''} onChange={(e) => updateRule(i, { country: e.target.value || undefined })} className={inputClass}>
+                      <option value="">全部國家</option>
+                      {countries.map(c => <option key={c.code} value={c.code}>{c.label}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>商品分類</label>
+                    <input
+                      value={rule.category || ''}
+                      onChange={(e) => updateRule(i, { category: e.target.value })}
+                      list="pricing-category-options"
+                      placeholder="全部分類"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>起算基準</label>
+                    <select value={rule.base} onChange={(e) => updateRule(i, { base: e.target.value as PricingBase })} className={inputClass}>
+                      {(Object.keys(PRICING_BASE_LABELS) as PricingBase[]).map(b => <option key={b} value={b}>{PRICING_BASE_LABELS[b]}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>加成 (%)</label>
+                    <input type="number" step="0.1" value={rule.markupPercent} onChange={(e) => updateRule(i, { markupPercent: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>每件手續費 ($)</label>
+                    <input type="number" min="0" value={rule.handlingFee} onChange={(e) => updateRule(i, { handlingFee: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>最低利潤 / 件 ($)</label>
+                    <input type="number" min="0" value={rule.minProfit} onChange={(e) => updateRule(i, { minProfit: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>進位</label>
+                    <select value={rule.roundTo} onChange={(e) => updateRule(i, { roundTo: parseInt(e.target.value, 10) })} className={inputClass}>
+                      {PRICE_ROUNDING_OPTIONS.map(n => <option key={n} value={n}>{n === 1 ? '整數' : `${n} 的倍數`}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-2 md:col-span-3">
+                    <label className={labelClass}>成本級距費 (依台幣單件成本)</label>
+                    <div className="space-y-1">
+                      {rule.feeTiers.map((tier, j) => (
+                        <div key={j} className="flex items-center gap-2 text-xs text-gray-500">
+                          成本 ≤
+                          <input
+                            type="number"
+                            min="0"
+                            value={tier.upToCost ?? ''}
+                            onChange={(e) => updateTier(i, j, { upToCost: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+                            placeholder="以上"
+                            className={`${inputClass} w-24`}
+                          />
+                          加收 $
+                          <input
+                            type="number"
+                            min="0"
+                            value={tier.fee}
+                            onChange={(e) => updateTier(i, j, { fee: parseFloat(e.target.value) || 0 })}
+                            className={`${inputClass} w-20`}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => updateRule(i, { feeTiers: rule.feeTiers.filter((_, k) => k !== j) })}
+                            className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                            title="刪除級距"
+                          >
+                            <X className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => updateRule(i, { feeTiers: [...rule.feeTiers, { upToCost: null, fee: 0 }] })}
+                        className="text-[11px] text-yellow-700 hover:text-yellow-900 underline"
+                      >
+                        + 新增級距
+                      </button>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-end justify-between mt-3 pt-3 border-t border-gray-50">
+                  <p className="text-[11px] text-gray-400">
+                    試算 {sampleCountry.symbol}{(parseFloat(sampleCost) || 0).toLocaleString()} →{' '}
+                    {sample ? (
+                      <>
+                        {sample.steps.map(s => `${s.label} $${roundLocal(s.amount).toLocaleString()}`).join(' + ')} ={' '}
+                        <strong className="text-gray-700">${sample.price.toLocaleString()}</strong>
+                      </>
+                    ) : '金額過大，無法試算'}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => setDraft(prev => prev.filter((_, j) => j !== i))}
+                    className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                    title="刪除規則"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          <datalist id="pricing-category-options">
+            {categories.map(c => <option key={c} value={c} />)}
+          </datalist>
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="flex items-center gap-1 text-xs text-yellow-800 bg-yellow-50 hover:bg-yellow-100 border border-yellow-200 px-3 py-1.5 rounded-md transition-colors"
+          >
+            <Plus className="w-3.5 h-3.5" /> 新增規則
+          </button>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        <div className="flex border-t border-gray-100 bg-gray-50/50">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 text-sm font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-800 transition-colors border-r border-gray-100"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 py-4 text-sm font-bold text-yellow-700 hover:bg-yellow-50 transition-colors"
+          >
+            儲存設定
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- ExchangeRateModal Component ---
+const ExchangeRateModal: React.FC<{
+  isOpen: boolean;
+  countries: SourcingCountry[];
+  rates: ExchangeRateEntry[];
+  transactions: Transaction[];
+  onChange: (rates: ExchangeRateEntry[]) => void;
+  onClose: () => void;
+}> = ({ isOpen, countries, rates, transactions, onChange, onClose }) => {
+  const currencies = useMemo(
+    () => [...new Set(countries.map(c => c.currencyCode).filter(Boolean))],
+    [countries]
+  );
+  const [currency, setCurrency] = useState('');
+  const [entry, setEntry] = useState({ date: new Date().toISOString().split('T')[0], rate: '', sellingRate: '' });
+  const [csvText, setCsvText] = useState('');
+  const [importResult, setImportResult] = useState<{ added: number; errors: string[] } | null>(null);
+
+  const activeCurrency = currencies.includes(currency) ? currency : currencies[0] || '';
+
+  const tableRows = useMemo(
+    () => rates.filter(r => r.currencyCode === activeCurrency).sort((a, b) => b.date.localeCompare(a.date)),
+    [rates, activeCurrency]
+  );
+
+  // Table rates as a line, rates actually used on purchases as dots, both on a time axis
+  const chartData = useMemo(() => {
+    const codes = new Set(countries.filter(c => c.currencyCode === activeCurrency).map(c => c.code));
+    return {
+      table: tableRows.slice().reverse().map(r => ({ time: new Date(r.date).getTime(), rate: r.rate, sellingRate: r.sellingRate })),
+      purchases: transactions
+        .filter(t => codes.has(t.country))
+        .map(t => ({ time: new Date(t.date.split('T')[0]).getTime(), used: t.exchangeRate })),
+    };
+  }, [tableRows, transactions, countries, activeCurrency]);
+
+  if (!isOpen) return null;
+
+  const handleAddEntry = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseFloat(entry.rate);
+    const sellingRate = parseFloat(entry.sellingRate);
+    if (!(rate > 0) || !entry.date || !activeCurrency) return;
+    onChange(mergeRateEntries(rates, [{
+      id: generateId(),
+      currencyCode: activeCurrency,
+      date: entry.date,
+      rate,
+      sellingRate: sellingRate > 0 ? sellingRate : undefined,
+    }]));
+    setEntry(prev => ({ ...prev, rate: '', sellingRate: '' }));
+  };
+
+  const handleImport = () => {
+    const { entries, errors } = parseRateCsv(csvText, activeCurrency);
+    if (entries.length > 0) {
+      onChange(mergeRateEntries(rates, entries));
+      setCsvText('');
+    }
+    setImportResult({ added: entries.length, errors });
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(setCsvText);
+    e.target.value = '';
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+  const formatDay = (time: number) => new Date(time).toLocaleDateString();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <TrendingUp className="w-5 h-5 text-yellow-500" /> 匯率表
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">新增交易時，會依交易日期帶入當天 (或之前最近一天) 的匯率。</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5">
+          <div className="flex flex-wrap gap-2">
+            {currencies.map(code => (
+              <button
+                key={code}
+                type="button"
+                onClick={() => setCurrency(code)}
+                className={`py-1.5 px-3 rounded-lg text-sm font-bold transition-all border ${
+                  activeCurrency === code
+                    ? 'bg-yellow-100 text-yellow-800 border-yellow-200 shadow-sm'
+                    : 'bg-white text-gray-400 border-gray-100 hover:bg-gray-50'
+                }`}
+              >
+                {code}
+              </button>
+            ))}
           </div>
 
-          <div>
-            <label className="block text-xs font-medium text-gray-400 mb-1">賣出匯率 (參考)</label>
-            <input
-              type="number"
-              step="0.0001"
-              name="sellingExchangeRate"
-              value={formData.sellingExchangeRate}
-              onChange={handleChange}
-              className="w-full px-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-500"
-            />
+          <div className="h-56">
+            {chartData.table.length + chartData.purchases.length === 0 ? (
+              <div className="h-full flex items-center justify-center text-xs text-gray-400 bg-gray-50/50 rounded-lg">尚無 {activeCurrency} 匯率資料</div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+                  <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatDay} tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} domain={['auto', 'auto']} width={50} />
+                  <Tooltip labelFormatter={(label) => formatDay(Number(label))} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <Line data={chartData.table} dataKey="rate" name="成本匯率" stroke="#eab308" strokeWidth={2} dot={false} />
+                  <Line data={chartData.table} dataKey="sellingRate" name="賣出匯率" stroke="#f97316" strokeWidth={1.5} strokeDasharray="4 3" dot={false} connectNulls />
+                  <Scatter data={chartData.purchases} dataKey="used" name="交易使用匯率" fill="#0ea5e9" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            )}
           </div>
-        </div>
 
-        <div className="lg:col-span-2">
-          <label className="block text-xs font-medium text-gray-400 mb-1">單件外幣成本 ({currentConfig.label})</label>
-          <div className="relative">
-            <span className="absolute left-3 top-2 text-gray-400 text-xs">{currentConfig.currency}</span>
-            <input
-              type="number"
-              name="costForeign"
-              value={formData.costForeign}
-              onChange={handleChange}
-              className="w-full pl-8 pr-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700"
-              placeholder="0"
+          <form onSubmit={handleAddEntry} className="grid grid-cols-4 gap-2">
+            <input type="date" value={entry.date} onChange={(e) => setEntry(prev => ({ ...prev, date: e.target.value }))} className={inputClass} required />
+            <input type="number" step="0.00001" value={entry.rate} onChange={(e) => setEntry(prev => ({ ...prev, rate: e.target.value }))} placeholder="成本匯率" className={inputClass} required />
+            <input type="number" step="0.00001" value={entry.sellingRate} onChange={(e) => setEntry(prev => ({ ...prev, sellingRate: e.target.value }))} placeholder="賣出匯率 (選填)" className={inputClass} />
+            <button type="submit" className="bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold rounded-lg text-sm flex items-center justify-center gap-1">
+              <Plus className="w-4 h-4" /> 新增
+            </button>
+          </form>
+
+          <div className="max-h-48 overflow-y-auto">
+            <table className="w-full text-sm">
+              <tbody>
+                {tableRows.map(r => (
+                  <tr key={r.id} className="border-b border-gray-50">
+                    <td className="py-1.5 text-gray-500">{r.date}</td>
+                    <td className="py-1.5 text-right font-medium text-gray-700">{r.rate}</td>
+                    <td className="py-1.5 text-right text-gray-400">{r.sellingRate ?? '-'}</td>
+                    <td className="py-1.5 text-right">
+                      <button
+                        type="button"
+                        onClick={() => onChange(rates.filter(x => x.id !== r.id))}
+                        className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                        title="刪除"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="border-t border-gray-100 pt-4">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-bold text-gray-500">批次匯入 CSV</span>
+              <label className="flex items-center gap-1 text-xs text-yellow-700 hover:text-yellow-900 cursor-pointer">
+                <Upload className="w-3.5 h-3.5" /> 選擇檔案
+                <input type="file" accept=".csv,.txt,text/csv" onChange={handleFile} className="hidden" />
+              </label>
+            </div>
+            <textarea
+              value={csvText}
+              onChange={(e) => setCsvText(e.target.value)}
+              rows={4}
+              placeholder={`日期,匯率[,賣出匯率] (匯入為 ${activeCurrency})\n或 日期,幣別,匯率[,賣出匯率]\n2026-03-01,0.213,0.28`}
+              className={`font-mono text-xs ${inputClass}`}
             />
+            <div className="flex items-center justify-between mt-2">
+              <div className="text-xs">
+                {importResult && (
+                  <span className={importResult.errors.length > 0 ? 'text-red-500' : 'text-green-600'}>
+                    已匯入 {importResult.added} 筆{importResult.errors.length > 0 ? `，${importResult.errors.length} 行無法解析` : ''}
+                  </span>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={!csvText.trim()}
+                className="text-sm text-yellow-800 bg-yellow-100 hover:bg-yellow-200 px-3 py-1.5 rounded-md border border-yellow-200 font-medium disabled:opacity-50"
+              >
+                匯入
+              </button>
+            </div>
+            {importResult && importResult.errors.length > 0 && (
+              <ul className="mt-2 text-[11px] text-red-400 max-h-24 overflow-y-auto">
+                {importResult.errors.map(err => <li key={err}>{err}</li>)}
+              </ul>
+            )}
           </div>
         </div>
+      </div>
+    </div>
+  );
+};
 
-        <div className="lg:col-span-2">
-            <label className="block text-xs font-medium text-gray-500 mb-1 text-yellow-700">單件台幣成本 (自動計算)</label>
-            <div className="relative">
-                <span className="absolute left-3 top-2 text-gray-400 text-xs">$</span>
-                <input
-                type="text"
-                value={localCostUnit}
-                readOnly
-                className="w-full pl-8 pr-3 py-2 border border-yellow-200 bg-yellow-50/50 rounded-lg text-gray-800 font-bold focus:outline-none"
-                />
-            </div>
-            <p className="text-[10px] text-gray-400 mt-1">
-                外幣成本 x 當日匯率
-            </p>
+// --- Card Settlements Panel ---
+const CardSettlementPanel: React.FC<{
+  settlements: CardSettlement[];
+  transactions: Transaction[];
+  onCreate: () => void;
+  onEdit: (s: CardSettlement) => void;
+  onDelete: (id: string) => void;
+}> = ({ settlements, transactions, onCreate, onEdit, onDelete }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-stone-100">
+      <div className="flex items-center justify-between mb-4 text-gray-700">
+        <div className="flex items-center gap-2">
+          <CreditCard className="w-5 h-5 text-stone-400" />
+          <h2 className="text-lg font-bold">刷卡對帳</h2>
         </div>
+        <button
+          type="button"
+          onClick={onCreate}
+          className="flex items-center gap-1 text-xs text-stone-700 bg-stone-50 hover:bg-stone-100 border border-stone-200 px-2 py-1 rounded transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> 新增對帳
+        </button>
+      </div>
+      {settlements.length === 0 ? (
+        <p className="text-xs text-gray-400">輸入信用卡實際入帳金額與海外手續費，計算與估算匯率之間的匯差損益。</p>
+      ) : (
+        <ul className="divide-y divide-gray-50">
+          {settlements.slice().sort((a, b) => b.date.localeCompare(a.date)).map(settlement => {
+            const summary = summarizeSettlement(settlement, transactions);
+            return (
+              <li key={settlement.id} className="flex items-center justify-between py-2">
+                <button type="button" onClick={() => onEdit(settlement)} className="text-left flex-1 hover:bg-stone-50 rounded px-1 py-0.5">
+                  <div className="text-sm font-medium text-gray-700">{settlement.description}</div>
+                  <div className="text-[10px] text-gray-400">
+                    {new Date(settlement.date).toLocaleDateString()} · {summary.itemCount} 筆 · 實付 ${summary.actual.toLocaleString()}
+                  </div>
+                </button>
+                <span className={`text-sm font-bold mr-2 ${summary.gainLoss >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                  {summary.gainLoss > 0 ? '+' : ''}{summary.gainLoss.toLocaleString()}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onDelete(settlement.id)}
+                  className="p-1 rounded-full text-gray-300 hover:text-red-500 hover:bg-red-50"
+                  title="刪除對帳"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
 
-        <div className="lg:col-span-2">
-          <label className="block text-xs font-medium text-gray-400 mb-1">單件賣出價格</label>
-          <div className="relative">
-            <span className="absolute left-3 top-2 text-gray-400 text-xs">$</span>
-            <input
-              type="number"
-              name="priceSold"
-              value={formData.priceSold}
-              onChange={handleChange}
-              className="w-full pl-8 pr-3 py-2 border border-gray-100 rounded-lg focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700"
-              placeholder="自動計算"
-            />
+const CardSettlementModal: React.FC<{
+  settlement: CardSettlement | null;
+  transactions: Transaction[];
+  countries: SourcingCountry[];
+  onSave: (s: CardSettlement, transactionIds: string[]) => void;
+  onClose: () => void;
+}> = ({ settlement, transactions, countries, onSave, onClose }) => {
+  const [formData, setFormData] = useState({ description: '', date: '', settledAmount: '', foreignFee: '', notes: '' });
+  const [memberIds, setMemberIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!settlement) return;
+    setFormData({
+      description: settlement.description,
+      date: settlement.date.split('T')[0],
+      settledAmount: settlement.settledAmount ? String(settlement.settledAmount) : '',
+      foreignFee: settlement.foreignFee ? String(settlement.foreignFee) : '',
+      notes: settlement.notes || '',
+    });
+    setMemberIds(new Set(transactions.filter(t => t.cardSettlementId === settlement.id).map(t => t.id)));
+    // Only re-initialise when a different settlement is opened
+  }, [settlement]);
+
+  if (!settlement) return null;
+
+  const draft: CardSettlement = {
+    ...settlement,
+    description: formData.description.trim(),
+    date: formData.date || new Date().toISOString(),
+    settledAmount: parseFloat(formData.settledAmount) || 0,
+    foreignFee: parseFloat(formData.foreignFee) || 0,
+    notes: formData.notes.trim() || undefined,
+  };
+
+  // Purchases already reconciled on another statement are not offered here
+  const candidates = transactions
+    .filter(t => !t.cardSettlementId || t.cardSettlementId === settlement.id)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const summary = summarizeSettlement(
+    draft,
+    candidates.map(t => ({ ...t, cardSettlementId: memberIds.has(t.id) ? draft.id : undefined }))
+  );
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const toggleMember = (id: string) => {
+    setMemberIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.description || memberIds.size === 0) return;
+    onSave(draft, [...memberIds]);
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <CreditCard className="w-5 h-5 text-stone-400" /> 刷卡對帳
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <input name="description" value={formData.description} onChange={handleChange} placeholder="說明 (例如: 玉山卡 3月帳單)" className={inputClass} required />
+            <input type="date" name="date" value={formData.date} onChange={handleChange} className={inputClass} />
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">實際入帳金額 (台幣)</label>
+              <input type="number" min="0" name="settledAmount" value={formData.settledAmount} onChange={handleChange} placeholder="0" className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">海外交易手續費</label>
+              <input type="number" min="0" name="foreignFee" value={formData.foreignFee} onChange={handleChange} placeholder="0" className={inputClass} />
+            </div>
+            <input name="notes" value={formData.notes} onChange={handleChange} placeholder="備註 (選填)" className={`col-span-2 ${inputClass}`} />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-center text-sm">
+            <div className="rounded-lg bg-gray-50 p-3">
+              <div className="text-[10px] text-gray-400">估算成本</div>
+              <div className="font-bold text-gray-700">${summary.estimated.toLocaleString()}</div>
+            </div>
+            <div className="rounded-lg bg-stone-50 p-3">
+              <div className="text-[10px] text-stone-500">實付 (含手續費)</div>
+              <div className="font-bold text-stone-700">${summary.actual.toLocaleString()}</div>
+            </div>
+            <div className={`rounded-lg p-3 ${summary.gainLoss >= 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+              <div className="text-[10px] text-gray-500">匯差損益</div>
+              <div className={`font-bold ${summary.gainLoss >= 0 ? 'text-green-700' : 'text-red-600'}`}>
+                {summary.gainLoss > 0 ? '+' : ''}{summary.gainLoss.toLocaleString()}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs font-bold text-gray-500 mb-2">此筆刷卡包含的購買 ({memberIds.size})</div>
+            {candidates.length === 0 ? (
+              <p className="text-xs text-gray-400">沒有可對帳的交易紀錄。</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {candidates.map(t => (
+                    <tr key={t.id} className="border-b border-gray-50 cursor-pointer hover:bg-stone-50" onClick={() => toggleMember(t.id)}>
+                      <td className="py-2 pr-2">
+                        <input type="checkbox" readOnly checked={memberIds.has(t.id)} className="accent-stone-500" />
+                      </td>
+                      <td className="py-2 text-gray-400 whitespace-nowrap">{new Date(t.date).toLocaleDateString()}</td>
+                      <td className="py-2 text-gray-600">{t.itemName} x {t.quantity}</td>
+                      <td className="py-2 text-right text-gray-400 text-xs whitespace-nowrap">
+                        {getCurrencySymbol(countries, t.country)}{(t.costForeign * t.quantity).toLocaleString()} x {t.exchangeRate}
+                      </td>
+                      <td className="py-2 text-right text-gray-700">{formatLocal(() => lineAmount(convertToLocal(t.costForeign, t.exchangeRate), t.quantity))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
           </div>
-          <p className="text-[10px] text-gray-400 mt-1">
-             預設：外幣成本 x 賣出匯率
-          </p>
         </div>
 
-        <div className="lg:col-span-6 flex items-end mt-2">
+        <div className="p-5 border-t border-gray-100">
           <button
             type="submit"
-            className="w-full bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm hover:shadow-md transition-all flex items-center justify-center gap-2 h-[42px] active:transform active:scale-95"
+            className="w-full bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all flex items-center justify-center gap-2"
           >
-            <Save className="w-5 h-5" />
-            記錄交易
+            <Save className="w-4 h-4" /> 儲存對帳
           </button>
         </div>
       </form>
+    </div>
+  );
+};
 
-      {(costForeign > 0 && priceSold > 0) && (
-        <div className={`mt-5 p-3 rounded-lg flex items-center justify-between text-sm ${estimatedProfit >= 0 ? 'bg-green-50 text-green-800 border border-green-100' : 'bg-red-50 text-red-700 border border-red-100'}`}>
-          <div className="flex gap-4">
-             <span>單件利潤: <strong>${Math.round(priceSold - localCostUnit)}</strong></span>
-             <span>總利潤: <strong>${Math.round(estimatedProfit)}</strong></span>
-          </div>
-          <span className="font-semibold">利潤率: {profitMargin}%</span>
+// --- TaxRefundPanel Component ---
+const TaxRefundPanel: React.FC<{
+  transactions: Transaction[];
+  countries: SourcingCountry[];
+  onMarkReceived: (ids: string[]) => void;
+}> = ({ transactions, countries, onMarkReceived }) => {
+  const pending = transactions
+    .filter(t => t.taxRefundStatus === 'pending' && (t.taxRefundPerUnit || 0) > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (pending.length === 0) return null;
+
+  // Converted per unit and rounded once, then multiplied, like every other local amount
+  const localRefund = (t: Transaction) => tryCalculate(() => lineAmount(convertToLocal(t.taxRefundPerUnit || 0, t.exchangeRate), t.quantity), 0);
+  const total = pending.reduce((sum, t) => sum + localRefund(t), 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-amber-100">
+      <div className="flex items-center justify-between mb-4 text-gray-700">
+        <div className="flex items-center gap-2">
+          <Receipt className="w-5 h-5 text-amber-500" />
+          <h2 className="text-lg font-bold">待領退稅</h2>
         </div>
+        <span className="text-sm font-bold text-amber-600">約 ${total.toLocaleString()}</span>
+      </div>
+      <ul className="divide-y divide-gray-50 max-h-64 overflow-y-auto">
+        {pending.map(t => (
+          <li key={t.id} className="flex items-center justify-between py-2 gap-2">
+            <div>
+              <div className="text-sm text-gray-700">{t.itemName} x {t.quantity}</div>
+              <div className="text-[10px] text-gray-400">
+                {new Date(t.date).toLocaleDateString()} · {getCountryLabel(countries, t.country)} · {getCurrencySymbol(countries, t.country)}{((t.taxRefundPerUnit || 0) * t.quantity).toLocaleString()}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => onMarkReceived([t.id])}
+              className="text-[11px] text-teal-700 bg-teal-50 hover:bg-teal-100 border border-teal-100 px-2 py-1 rounded whitespace-nowrap"
+            >
+              已領取
+            </button>
+          </li>
+        ))}
+      </ul>
+      {pending.length > 1 && (
+        <button
+          type="button"
+          onClick={() => onMarkReceived(pending.map(t => t.id))}
+          className="mt-3 w-full text-xs text-teal-700 hover:text-teal-900 underline"
+        >
+          全部標記為已領取
+        </button>
       )}
     </div>
   );
 };
 
-// --- TransactionList Component ---
-const getCountryLabel = (c: Country | undefined): string => {
-  switch (c) {
-    case 'JP': return '日本';
-    case 'KR': return '韓國';
-    case 'OTHER': return '其他';
-    default: return '日本';
-  }
+// --- TransactionImportModal Component ---
+const TransactionImportModal: React.FC<{
+  isOpen: boolean;
+  countries: SourcingCountry[];
+  rates: ExchangeRateEntry[];
+  transactions: Transaction[];
+  onImport: (transactions: Transaction[]) => void;
+  onClose: () => void;
+}> = ({ isOpen, countries, rates, transactions, onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [defaultCountry, setDefaultCountry] = useState<Country>(countries[0]?.code || LEGACY_DEFAULT_COUNTRY);
+  const [includeSuspected, setIncludeSuspected] = useState(false);
+  const [imported, setImported] = useState<number | null>(null);
+
+  const cells = useMemo(() => parseDelimitedText(text), [text]);
+  const headerKey = (cells[0] || []).join('\u0001');
+
+  // Re-guess the mapping whenever a different header row is pasted
+  useEffect(() => {
+    const guessed = autoMapColumns(cells[0] || []);
+    const recognized = Object.keys(guessed).length > 0;
+    setHasHeader(recognized || cells.length === 0);
+    setMapping(recognized ? guessed : {});
+  }, [headerKey]);
+
+  const columnCount = cells.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnNames = Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && cells[0]?.[i] ? cells[0][i] : `第 ${i + 1} 欄`
+  );
+
+  const rows = useMemo(
+    () => buildImportRows(hasHeader ? cells.slice(1) : cells, hasHeader ? 2 : 1, mapping, {
+      countries, rates, existing: transactions, defaultCountry,
+    }),
+    [cells, hasHeader, mapping, countries, rates, transactions, defaultCountry]
+  );
+
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.key] === undefined);
+  const invalid = rows.filter(r => !r.transaction);
+  const idDuplicates = rows.filter(r => r.duplicate === 'id');
+  const suspected = rows.filter(r => r.duplicate === 'content');
+  const accepted = rows.filter(r =>
+    r.transaction && r.duplicate !== 'id' && (r.duplicate !== 'content' || includeSuspected)
+  );
+
+  if (!isOpen) return null;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(content => {
+      setText(content);
+      setImported(null);
+    });
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    if (missingRequired.length > 0 || accepted.length === 0) return;
+    onImport(accepted.map(r => r.transaction as Transaction));
+    setImported(accepted.length);
+    setText('');
+  };
+
+  const handleClose = () => {
+    setText('');
+    setImported(null);
+    onClose();
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <Upload className="w-5 h-5 text-yellow-500" /> 匯入交易紀錄
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">支援本系統匯出的 CSV、從 Sheets 複製的表格，或任何 CSV (需對應欄位)。</p>
+          </div>
+          <button onClick={handleClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-5">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-bold text-gray-500">貼上資料或選擇檔案</span>
+              <label className="flex items-center gap-1 text-xs text-yellow-700 hover:text-yellow-900 cursor-pointer">
+                <Upload className="w-3.5 h-3.5" /> 選擇檔案
+                <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFile} className="hidden" />
+              </label>
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setImported(null);
+              }}
+              rows={5}
+              placeholder={'日期,國家,客人名字,商品名稱,數量,外幣成本(單件),當日匯率,售價\n2026/3/1,日本,王小明,合利他命,2,¥3500,0.22,1080'}
+              className={`font-mono text-xs ${inputClass}`}
+            />
+            {imported !== null && (
+              <p className="text-xs text-green-600 mt-1">已匯入 {imported} 筆交易。</p>
+            )}
+          </div>
+
+          {cells.length > 0 && (
+            <>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-bold text-gray-500">欄位對應</span>
+                  <label className="flex items-center gap-1.5 text-xs text-gray-500">
+                    <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-yellow-500" />
+                    第一列為標題
+                  </label>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {IMPORT_FIELDS.map(field => (
+                    <label key={field.key} className="block">
+                      <span className="text-[11px] text-gray-500">
+                        {field.label}{field.required && <span className="text-red-400"> *</span>}
+                      </span>
+                      <select
+                        value={mapping[field.key] ?? ''}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          setMapping(prev => {
+                            const next = { ...prev };
+                            if (value === '') delete next[field.key];
+                            else next[field.key] = Number(value);
+                            return next;
+                          });
+                        }}
+                        className={inputClass}
+                      >
+                        <option value="">— 不匯入 —</option>
+                        {columnNames.map((name, i) => <option key={i} value={i}>{name}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                  {mapping.country === undefined && (
+                    <label className="block">
+                      <span className="text-[11px] text-gray-500">預設國家</span>
+                      <select value={defaultCountry} onChange={(e) => setDefaultCountry(e.target.value)} className={inputClass}>
+                        {countries.map(c => <option key={c.code} value={c.code}>{c.label}</option>)}
+                      </select>
+                    </label>
+                  )}
+                </div>
+                {missingRequired.length > 0 && (
+                  <p className="text-xs text-red-500 mt-2">請對應必要欄位：{missingRequired.map(f => f.label).join('、')}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                <div className="bg-green-50 rounded-lg p-3">
+                  <div className="text-[11px] text-green-600">將匯入</div>
+                  <div className="text-lg font-bold text-green-700">{missingRequired.length > 0 ? 0 : accepted.length}</div>
+                </div>
+                <div className="bg-red-50 rounded-lg p-3">
+                  <div className="text-[11px] text-red-400">格式錯誤</div>
+                  <div className="text-lg font-bold text-red-500">{invalid.length}</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <div className="text-[11px] text-gray-400">ID 已存在 (略過)</div>
+                  <div className="text-lg font-bold text-gray-500">{idDuplicates.length}</div>
+                </div>
+                <div className="bg-amber-50 rounded-lg p-3">
+                  <div className="text-[11px] text-amber-600">疑似重複</div>
+                  <div className="text-lg font-bold text-amber-600">{suspected.length}</div>
+                </div>
+              </div>
+
+              <div className="max-h-72 overflow-auto border border-gray-100 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                    <tr>
+                      <th className="p-2 text-left">行</th>
+                      <th className="p-2 text-left">日期</th>
+                      <th className="p-2 text-left">客人</th>
+                      <th className="p-2 text-left">商品</th>
+                      <th className="p-2 text-right">數量</th>
+                      <th className="p-2 text-right">成本</th>
+                      <th className="p-2 text-right">匯率</th>
+                      <th className="p-2 text-right">售價</th>
+                      <th className="p-2 text-left">檢查</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(r => {
+                      const t = r.transaction;
+                      return (
+                        <tr key={r.line} className={`border-t border-gray-50 ${!t ? 'bg-red-50/50' : r.duplicate ? 'bg-amber-50/50' : ''}`}>
+                          <td className="p-2 text-gray-400">{r.line}</td>
+                          {t ? (
+                            <>
+                              <td className="p-2 text-gray-600">{t.date}</td>
+                              <td className="p-2 text-gray-700">{t.customerName}</td>
+                              <td className="p-2 text-gray-700">{t.itemName}</td>
+                              <td className="p-2 text-right">{t.quantity}</td>
+                              <td className="p-2 text-right">{getCurrencySymbol(countries, t.country)}{t.costForeign.toLocaleString()}</td>
+                              <td className="p-2 text-right text-gray-500">{t.exchangeRate}</td>
+                              <td className="p-2 text-right">${t.priceSold.toLocaleString()}</td>
+                              <td className="p-2 whitespace-nowrap">
+                                {r.duplicate === 'id' ? (
+                                  <span className="text-gray-400">ID 已存在</span>
+                                ) : r.duplicate === 'content' ? (
+                                  <span className="text-amber-600">疑似重複</span>
+                                ) : (
+                                  <span className="text-green-600">OK</span>
+                                )}
+                              </td>
+                            </>
+                          ) : (
+                            <td colSpan={8} className="p-2 text-red-500">{r.errors.join('；')}</td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 bg-[#fbfaf8] flex items-center justify-between gap-3">
+          <label className="flex items-center gap-1.5 text-xs text-gray-500">
+            <input type="checkbox" checked={includeSuspected} onChange={(e) => setIncludeSuspected(e.target.checked)} className="accent-yellow-500" />
+            仍匯入疑似重複的資料
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="px-4 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-lg"
+            >
+              關閉
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={missingRequired.length > 0 || accepted.length === 0}
+              className="bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              匯入 {missingRequired.length > 0 ? 0 : accepted.length} 筆
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
 };
 
-const getCurrencySymbol = (c: Country | undefined): string => {
-  switch (c) {
-    case 'JP': return '¥';
-    case 'KR': return '₩';
-    case 'OTHER': return '$';
-    default: return '¥';
-  }
+// --- BackupModal Component ---
+const BackupModal: React.FC<{
+  isOpen: boolean;
+  current: StoredData;
+  lastBackupAt: string | null;
+  reminderDays: number;
+  onReminderDaysChange: (days: number) => void;
+  onBackup: () => void;
+  onRestore: (data: StoredData, mode: RestoreMode) => void;
+  onClose: () => void;
+}> = ({ isOpen, current, lastBackupAt, reminderDays, onReminderDaysChange, onBackup, onRestore, onClose }) => {
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [restored, setRestored] = useState(false);
+
+  const diff = useMemo(
+    () => backup ? diffStoredData(current, backup.data) : null,
+    [backup, current]
+  );
+  // Restored anyway so nothing is lost; they are flagged in the app until fixed
+  const uncalculable = useMemo(
+    () => backup ? backup.data.collections.transactions.filter(t => !isCalculable(t)) : [],
+    [backup]
+  );
+
+  if (!isOpen) return null;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setRestored(false);
+    file.text().then(content => {
+      try {
+        setBackup(parseBackup(content));
+        setError(null);
+      } catch (err) {
+        setBackup(null);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    });
+    e.target.value = '';
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    onRestore(backup.data, mode);
+    setBackup(null);
+    setRestored(true);
+  };
+
+  const handleClose = () => {
+    setBackup(null);
+    setFileName('');
+    setError(null);
+    setRestored(false);
+    onClose();
+  };
+
+  const rows = diff
+    ? (Object.keys(diff) as CollectionName[]).filter(name => {
+        const d = diff[name];
+        return d.added + d.changed + d.unchanged + d.missing > 0;
+      })
+    : [];
+  const removedCount = diff && mode === 'replace' ? rows.reduce((sum, name) => sum + diff[name].missing, 0) : 0;
+  const daysAgo = daysSinceBackup(lastBackupAt);
+
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <DatabaseBackup className="w-5 h-5 text-yellow-500" /> 備份與還原
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">備份檔包含所有資料與設定，可用來搬到新電腦或在清除瀏覽器後復原。</p>
+          </div>
+          <button onClick={handleClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-6">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="text-sm text-gray-600">
+                上次備份：
+                <span className="font-bold text-gray-800">
+                  {lastBackupAt ? `${new Date(lastBackupAt).toLocaleString()} (${daysAgo} 天前)` : '從未備份'}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={onBackup}
+                className="flex items-center gap-1.5 bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all text-sm"
+              >
+                <Download className="w-4 h-4" /> 下載備份檔
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+              超過
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={reminderDays}
+                onChange={(e) => {
+                  const days = parseInt(e.target.value, 10);
+                  if (days > 0) onReminderDaysChange(days);
+                }}
+                className={`w-20 ${inputClass}`}
+              />
+              天沒有備份時提醒我
+            </label>
+          </div>
+
+          <div className="border-t border-gray-100 pt-5 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-gray-500">從備份檔還原</span>
+              <label className="flex items-center gap-1 text-xs text-yellow-700 hover:text-yellow-900 cursor-pointer">
+                <Upload className="w-3.5 h-3.5" /> 選擇備份檔
+                <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+              </label>
+            </div>
+
+            {error && (
+              <p className="text-xs text-red-500 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+                無法讀取 {fileName}：{error}
+              </p>
+            )}
+            {restored && (
+              <p className="text-xs text-green-600">已從 {fileName} 還原資料。</p>
+            )}
+
+            {backup && diff && (
+              <>
+                <p className="text-xs text-gray-500">
+                  {fileName}：備份於 {backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : '未知時間'}
+                  {backup.schemaVersion < SCHEMA_VERSION && ` (舊版格式 v${backup.schemaVersion}，還原時會自動轉換)`}
+                </p>
+                {uncalculable.length > 0 && (
+                  <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                    有 {uncalculable.length} 筆交易的金額或匯率過大，無法計算 ({uncalculable.slice(0, 3).map(t => t.itemName).join('、')}
+                    {uncalculable.length > 3 ? ' 等' : ''})。還原後不會計入統計，請再逐筆修正。
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  {(['merge', 'replace'] as RestoreMode[]).map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setMode(option)}
+                      className={`flex-1 text-left text-xs rounded-lg border px-3 py-2 transition-colors ${
+                        mode === option ? 'border-yellow-300 bg-yellow-50 text-yellow-900' : 'border-gray-100 text-gray-500 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="font-bold">{option === 'merge' ? '合併' : '全部取代'}</div>
+                      <div className="mt-0.5">
+                        {option === 'merge'
+                          ? '相同 ID 的資料以備份為準，其他本機資料保留'
+                          : '清除本機資料，完全換成備份內容 (含設定)'}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-400 border-b border-gray-100">
+                      <th className="text-left font-medium py-1.5">資料</th>
+                      <th className="text-right font-medium py-1.5">新增</th>
+                      <th className="text-right font-medium py-1.5">更新</th>
+                      <th className="text-right font-medium py-1.5">相同</th>
+                      <th className="text-right font-medium py-1.5">{mode === 'replace' ? '將刪除' : '僅本機 (保留)'}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(name => {
+                      const d = diff[name];
+                      return (
+                        <tr key={name} className="border-b border-gray-50 text-gray-600">
+                          <td className="py-1.5">{BACKUP_COLLECTION_LABELS[name]}</td>
+                          <td className={`py-1.5 text-right ${d.added > 0 ? 'text-green-600 font-bold' : ''}`}>{d.added}</td>
+                          <td className={`py-1.5 text-right ${d.changed > 0 ? 'text-yellow-700 font-bold' : ''}`}>{d.changed}</td>
+                          <td className="py-1.5 text-right text-gray-400">{d.unchanged}</td>
+                          <td className={`py-1.5 text-right ${mode === 'replace' && d.missing > 0 ? 'text-red-500 font-bold' : ''}`}>{d.missing}</td>
+                        </tr>
+                      );
+                    })}
+                    {rows.length === 0 && (
+                      <tr><td colSpan={5} className="py-3 text-center text-gray-400">備份檔和本機都沒有資料</td></tr>
+                    )}
+                  </tbody>
+                </table>
+
+                {backup.rejected.length > 0 && (
+                  <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                    備份檔中有 {backup.rejected.length} 筆資料格式不正確，將略過不還原。
+                  </p>
+                )}
+                {removedCount > 0 && (
+                  <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    全部取代會刪除 {removedCount} 筆備份中沒有的本機資料，建議先下載目前資料的備份。
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 bg-[#fbfaf8] flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={handleClose}
+            className="px-4 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            關閉
+          </button>
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={!backup}
+            className={`font-bold py-2 px-4 rounded-lg shadow-sm transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+              mode === 'replace' ? 'bg-red-500 hover:bg-red-600 text-white' : 'bg-yellow-200 hover:bg-yellow-300 text-yellow-800'
+            }`}
+          >
+            {mode === 'replace' ? '全部取代並還原' : '合併還原'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
 };
 
-const getCountryColor = (c: Country | undefined): string => {
-  switch (c) {
-    case 'JP': return 'bg-red-50 text-red-600 border-red-100';
-    case 'KR': return 'bg-blue-50 text-blue-600 border-blue-100';
-    case 'OTHER': return 'bg-gray-50 text-gray-600 border-gray-200';
-    default: return 'bg-red-50 text-red-600 border-red-100';
-  }
+// --- SyncModal Component ---
+type SyncStatus = {
+  phase: 'idle' | 'syncing' | 'error';
+  error?: string;
+  lastSyncedAt: string | null;
+  pending: number;
 };
 
-const TransactionList: React.FC<{ transactions: Transaction[]; onDelete: (id: string) => void; onClearAll: () => void; onExport: () => void; }> = ({ transactions, onDelete, onClearAll, onExport }) => {
-  const [copied, setCopied] = useState(false);
+const SyncModal: React.FC<{
+  isOpen: boolean;
+  settings: SyncSettings;
+  status: SyncStatus;
+  conflicts: SyncConflict[];
+  onSaveSettings: (settings: SyncSettings) => void;
+  onSyncNow: () => void;
+  onRestoreConflict: (conflict: SyncConflict) => void;
+  onDismissConflicts: (ids: string[]) => void;
+  onClose: () => void;
+}> = ({ isOpen, settings, status, conflicts, onSaveSettings, onSyncNow, onRestoreConflict, onDismissConflicts, onClose }) => {
+  const [draft, setDraft] = useState<SyncSettings>(settings);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
 
-  const handleCopyToClipboard = async () => {
-    const headers = ['日期', '國家', '客人名字', '商品名稱', '數量', '外幣成本(單件)', '當日匯率', '賣出匯率', '台幣成本(單件)', '售價(單件)', '總利潤'];
-    
-    const rows = transactions.slice().reverse().map(t => {
-      const localCostUnit = Math.round(t.costJpy * t.exchangeRate);
-      const totalProfit = (t.priceSold - localCostUnit) * t.quantity;
-      const sellingRate = t.sellingExchangeRate || '-';
-      const currency = getCurrencySymbol(t.country);
-      
-      return [
-        new Date(t.date).toLocaleDateString(),
-        getCountryLabel(t.country),
-        t.customerName,
-        t.itemName,
-        t.quantity,
-        `${currency}${t.costJpy}`,
-        t.exchangeRate,
-        sellingRate,
-        `$${localCostUnit}`,
-        `$${t.priceSold}`,
-        `$${totalProfit}`
-      ].join('\t');
-    });
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+      setTestResult(null);
+    }
+  }, [isOpen, settings]);
 
-    const textToCopy = [headers.join('\t'), ...rows].join('\n');
+  if (!isOpen) return null;
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      const health = await checkServer(draft);
+      setTestResult({ ok: true, message: `連線成功，伺服器目前版本 #${health.revision}` });
+    } catch (e) {
+      setTestResult({ ok: false, message: `無法連線：${e instanceof Error ? e.message : String(e)}` });
+    } finally {
+      setIsTesting(false);
+    }
+  };
 
-    try {
-      await navigator.clipboard.writeText(textToCopy);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch (err) {
-      console.error('Failed to copy!', err);
-      alert('複製失敗，請手動匯出 CSV');
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.enabled && !/^https?:\/\/.+/.test(draft.serverUrl.trim())) {
+      alert('請輸入同步伺服器網址，例如 http://192.168.1.20:8787');
+      return;
     }
+    onSaveSettings({
+      ...draft,
+      serverUrl: draft.serverUrl.trim(),
+      deviceName: draft.deviceName.trim() || settings.deviceName,
+      invoiceCode: draft.invoiceCode.trim().toUpperCase() || settings.invoiceCode,
+    });
   };
 
-  if (transactions.length === 0) {
-    return (
-      <div className="bg-white rounded-xl shadow-sm p-12 text-center border border-gray-100">
-        <div className="text-gray-400 mb-2">尚無交易紀錄</div>
-        <p className="text-sm text-gray-500">請從上方表單新增您的第一筆代購訂單。</p>
-      </div>
-    );
-  }
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const inputClass = "w-full px-3 py-2 border border-gray-100 rounded-lg text-sm focus:ring-2 focus:ring-yellow-100 focus:border-yellow-200 transition-all outline-none bg-gray-50/50 focus:bg-white text-gray-700 placeholder-gray-300";
 
   return (
-    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-      <div className="p-5 border-b border-gray-100 bg-[#fbfaf8]">
-        <div className="flex flex-col gap-2">
-            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-                <h3 className="font-bold text-gray-700">交易明細 ({transactions.length})</h3>
-                
-                <div className="flex gap-2 w-full sm:w-auto">
-                    <button 
-                        type="button"
-                        onClick={handleCopyToClipboard}
-                        className={`flex-1 sm:flex-none justify-center sm:justify-start flex items-center gap-2 text-sm px-3 py-1.5 rounded-md transition-all border ${
-                        copied 
-                            ? 'bg-green-50 text-green-700 border-green-200' 
-                            : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
-                        }`}
-                    >
-                        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                        {copied ? '已複製！' : '複製到 Sheets'}
-                    </button>
-                    
-                    <button 
-                        type="button"
-                        onClick={onExport}
-                        className="flex-1 sm:flex-none justify-center sm:justify-start flex items-center gap-2 text-sm text-yellow-800 bg-yellow-100 hover:bg-yellow-200 px-3 py-1.5 rounded-md transition-colors border border-yellow-200 font-medium"
-                    >
-                        <Download className="w-4 h-4" />
-                        匯出 Excel
-                    </button>
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <Cloud className="w-5 h-5 text-yellow-500" /> 多裝置同步
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">連到自架的同步伺服器 (server/sync-server.mjs)，讓手機和電腦共用同一份資料。</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-6">
+          <form onSubmit={handleSave} className="space-y-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700 font-bold">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                className="accent-yellow-500"
+              />
+              啟用同步
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="sm:col-span-2">
+                <label className="block text-xs font-bold text-gray-500 mb-1">伺服器網址</label>
+                <input
+                  type="url"
+                  value={draft.serverUrl}
+                  onChange={(e) => setDraft({ ...draft, serverUrl: e.target.value })}
+                  placeholder="http://192.168.1.20:8787"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 mb-1">存取密碼 (SYNC_TOKEN)</label>
+                <input
+                  type="password"
+                  value={draft.token}
+                  onChange={(e) => setDraft({ ...draft, token: e.target.value })}
+                  placeholder="伺服器未設定可留空"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 mb-1">這台裝置的名稱</label>
+                <input
+                  type="text"
+                  value={draft.deviceName}
+                  onChange={(e) => setDraft({ ...draft, deviceName: e.target.value })}
+                  placeholder="例如：小美的手機"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 mb-1">對帳單編號代碼</label>
+                <input
+                  type="text"
+                  value={draft.invoiceCode}
+                  onChange={(e) => setDraft({ ...draft, invoiceCode: e.target.value })}
+                  maxLength={8}
+                  className={inputClass}
+                />
+                <p className="text-[10px] text-gray-400 mt-1">同步時加在這台裝置開立的編號中，每台裝置請用不同代碼，編號才不會重複。</p>
+              </div>
+            </div>
+            {testResult && (
+              <p className={`text-xs ${testResult.ok ? 'text-green-600' : 'text-red-500'}`}>{testResult.message}</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={handleTest}
+                disabled={isTesting || !draft.serverUrl.trim()}
+                className="flex items-center gap-1.5 px-4 py-2 text-sm text-yellow-800 border border-yellow-200 hover:bg-yellow-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isTesting && <Loader2 className="w-4 h-4 animate-spin" />} 測試連線
+              </button>
+              <button
+                type="submit"
+                disabled={!isDirty}
+                className="bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                儲存設定
+              </button>
+            </div>
+          </form>
+
+          {settings.enabled && (
+            <div className="border-t border-gray-100 pt-5 flex items-center justify-between gap-3">
+              <div className="text-xs text-gray-500 space-y-1">
+                <div>
+                  上次同步：
+                  <span className="font-bold text-gray-700">
+                    {status.lastSyncedAt ? new Date(status.lastSyncedAt).toLocaleString() : '尚未同步'}
+                  </span>
                 </div>
+                <div>待上傳：{status.pending} 筆變更</div>
+                {status.phase === 'error' && <div className="text-red-500">同步失敗：{status.error}</div>}
+              </div>
+              <button
+                type="button"
+                onClick={onSyncNow}
+                disabled={status.phase === 'syncing'}
+                className="flex items-center gap-1.5 bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all text-sm disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${status.phase === 'syncing' ? 'animate-spin' : ''}`} /> 立即同步
+              </button>
             </div>
+          )}
 
-            <div className="flex justify-end pt-1">
-                <button 
-                    type="button"
-                    onClick={(e) => {
-                        e.stopPropagation();
-                        e.preventDefault();
-                        onClearAll();
-                    }}
-                    className="flex items-center gap-2 text-xs text-red-500 hover:text-red-700 hover:bg-red-50 px-2 py-1 rounded transition-colors cursor-pointer"
-                    title="清空所有資料"
+          {conflicts.length > 0 && (
+            <div className="border-t border-gray-100 pt-5">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-bold text-gray-500">同步衝突 ({conflicts.length})</span>
+                <button
+                  type="button"
+                  onClick={() => onDismissConflicts(conflicts.map(c => c.id))}
+                  className="text-xs text-gray-400 hover:text-gray-600 underline"
                 >
-                    <RotateCcw className="w-3 h-3" />
-                    刪除全部
+                  全部忽略
                 </button>
+              </div>
+              <p className="text-xs text-gray-400 mb-2">兩台裝置改了同一筆資料時，會保留較晚的修改。若保留的版本不對，可以改回被覆蓋的版本。</p>
+              <ul className="space-y-2">
+                {conflicts.map(c => (
+                  <li key={c.id} className="border border-amber-100 bg-amber-50/50 rounded-lg px-3 py-2 flex items-start justify-between gap-3">
+                    <div className="text-xs min-w-0">
+                      <div className="font-bold text-gray-700 truncate">
+                        {BACKUP_COLLECTION_LABELS[c.collection]}：{describeSyncRecord(c.collection, c.lost)}
+                      </div>
+                      <div className="text-gray-500 mt-0.5">
+                        {c.winner === 'remote'
+                          ? '其他裝置較新的修改已取代本機的版本'
+                          : `本機較新的修改已取代「${c.lostDevice || '其他裝置'}」的版本`}
+                        ，被覆蓋的版本修改於 {new Date(c.lostAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => onRestoreConflict(c)}
+                        className="text-[11px] text-amber-800 bg-white hover:bg-amber-100 border border-amber-200 px-2 py-1 rounded whitespace-nowrap"
+                      >
+                        改用被覆蓋的版本
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDismissConflicts([c.id])}
+                        className="text-[11px] text-gray-400 hover:text-gray-600 whitespace-nowrap"
+                      >
+                        忽略
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
             </div>
+          )}
         </div>
       </div>
+    </div>
+  );
+};
 
-      <div className="overflow-x-auto">
-        <table className="w-full text-left border-collapse">
-          <thead>
-            <tr className="bg-[#fbfaf8] text-gray-500 text-xs border-b border-gray-100">
-              <th className="p-4 font-semibold">日期</th>
-              <th className="p-4 font-semibold">國家</th>
-              <th className="p-4 font-semibold">客人</th>
-              <th className="p-4 font-semibold">商品</th>
-              <th className="p-4 font-semibold text-center">數量</th>
-              <th className="p-4 font-semibold text-right">外幣(單)</th>
-              <th className="p-4 font-semibold text-right">當日匯率</th>
-              <th className="p-4 font-semibold text-right">賣出匯率</th>
-              <th className="p-4 font-semibold text-right">台幣成本(單)</th>
-              <th className="p-4 font-semibold text-right">售價(單)</th>
-              <th className="p-4 font-semibold text-right">總利潤</th>
-              <th className="p-4 font-semibold text-center">操作</th>
-            </tr>
-          </thead>
-          <tbody className="text-sm">
-            {transactions.slice().reverse().map((t) => {
-              const localCostUnit = Math.round(t.costJpy * t.exchangeRate); 
-              const totalProfit = (t.priceSold - localCostUnit) * t.quantity;
-              const sellingRate = t.sellingExchangeRate || '-';
-              
-              const isProfitable = totalProfit >= 0;
-              const currency = getCurrencySymbol(t.country);
+// --- TrashModal Component ---
+const TrashModal: React.FC<{
+  isOpen: boolean;
+  entries: TrashEntry[];
+  onRestore: (entry: TrashEntry) => void;
+  onPurge: (id?: string) => void;
+  onClose: () => void;
+}> = ({ isOpen, entries, onRestore, onPurge, onClose }) => {
+  if (!isOpen) return null;
 
-              return (
-                <tr key={t.id} className="border-b border-gray-50 hover:bg-yellow-50/20 transition-colors">
-                  <td className="p-4 text-gray-400 whitespace-nowrap">{new Date(t.date).toLocaleDateString()}</td>
-                  <td className="p-4">
-                    <span className={`px-2 py-1 rounded-md text-[10px] font-medium border ${getCountryColor(t.country)}`}>
-                      {getCountryLabel(t.country)}
-                    </span>
-                  </td>
-                  <td className="p-4 font-medium text-gray-600">{t.customerName}</td>
-                  <td className="p-4 text-gray-600">{t.itemName}</td>
-                  <td className="p-4 text-center text-gray-500">{t.quantity}</td>
-                  <td className="p-4 text-right text-gray-400">{currency}{t.costJpy.toLocaleString()}</td>
-                  <td className="p-4 text-right text-gray-400">{t.exchangeRate}</td>
-                  <td className="p-4 text-right text-gray-400">{sellingRate}</td>
-                  <td className="p-4 text-right text-gray-500">${localCostUnit.toLocaleString()}</td>
-                  <td className="p-4 text-right font-medium text-gray-700">${t.priceSold.toLocaleString()}</td>
-                  <td className={`p-4 text-right font-bold ${isProfitable ? 'text-orange-400' : 'text-red-400'}`}>
-                    {totalProfit > 0 ? '+' : ''}{totalProfit.toLocaleString()}
-                  </td>
-                  <td className="p-4 text-center">
-                    <button 
+  const sorted = [...entries].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-yellow-500" /> 垃圾桶
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">刪除的交易和「刪除全部」清掉的資料會留在這裡，直到永久刪除為止。</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5">
+          {sorted.length === 0 ? (
+            <div className="text-center text-sm text-gray-400 py-8">垃圾桶是空的</div>
+          ) : (
+            <ul className="space-y-2">
+              {sorted.map(entry => (
+                <li key={entry.id} className="border border-gray-100 rounded-lg px-3 py-2 flex items-start justify-between gap-3">
+                  <div className="text-xs min-w-0">
+                    <div className="font-bold text-gray-700 truncate">{entry.label}</div>
+                    <div className="text-gray-400 mt-0.5">
+                      {new Date(entry.deletedAt).toLocaleString()} · {entry.deletedBy}
+                    </div>
+                    <div className="text-gray-500 mt-0.5">
+                      {(Object.keys(entry.records) as (keyof TrashedRecords)[])
+                        .filter(name => (entry.records[name]?.length || 0) > 0)
+                        .map(name => `${BACKUP_COLLECTION_LABELS[name]} ${entry.records[name]!.length}`)
+                        .join('、')}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
                       type="button"
-                      onClick={(e) => {
-                          e.stopPropagation();
-                          e.preventDefault();
-                          onDelete(t.id);
-                      }}
-                      className="p-2 rounded-full hover:bg-red-50 text-gray-300 hover:text-red-500 transition-all active:scale-95 z-10 relative cursor-pointer"
-                      title="刪除"
+                      onClick={() => onRestore(entry)}
+                      className="flex items-center gap-1 text-[11px] text-yellow-800 bg-yellow-50 hover:bg-yellow-100 border border-yellow-200 px-2 py-1 rounded whitespace-nowrap"
                     >
-                      <Trash2 className="w-4 h-4" />
+                      <RotateCcw className="w-3 h-3" /> 復原
                     </button>
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
+                    <button
+                      type="button"
+                      onClick={() => onPurge(entry.id)}
+                      className="text-[11px] text-gray-400 hover:text-red-500 whitespace-nowrap"
+                    >
+                      永久刪除
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 bg-[#fbfaf8] flex justify-between gap-2">
+          <button
+            type="button"
+            onClick={() => onPurge()}
+            disabled={sorted.length === 0}
+            className="px-4 py-2 text-sm text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            清空垃圾桶
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            關閉
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- ChangeHistoryModal Component ---
+const ChangeHistoryModal: React.FC<{
+  transaction: Transaction | null;
+  entries: TransactionChange[];
+  countries: SourcingCountry[];
+  onClose: () => void;
+}> = ({ transaction, entries, countries, onClose }) => {
+  if (!transaction) return null;
+
+  const sorted = [...entries].sort((a, b) => b.at.localeCompare(a.at));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-gray-100 bg-[#fbfaf8] flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <History className="w-5 h-5 text-yellow-500" /> 修改紀錄
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">{describeTransaction(transaction)}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5">
+          {sorted.length === 0 ? (
+            <div className="text-center text-sm text-gray-400 py-8">還沒有修改紀錄 (開始記錄前建立的交易不會有新增紀錄)</div>
+          ) : (
+            <ol className="space-y-3">
+              {sorted.map(entry => (
+                <li key={entry.id} className="border-l-2 border-yellow-200 pl-3">
+                  <div className="text-xs text-gray-500">
+                    <span className="font-bold text-gray-700">{CHANGE_ACTION_LABELS[entry.action]}</span>
+                    {' · '}{new Date(entry.at).toLocaleString()}{' · '}{entry.by}
+                  </div>
+                  {entry.changes.length > 0 && (
+                    <ul className="mt-1 space-y-0.5">
+                      {entry.changes.map(change => (
+                        <li key={change.field} className="text-xs text-gray-600">
+                          <span className="text-gray-400">{TRANSACTION_FIELD_LABELS[change.field as keyof Transaction] || change.field}：</span>
+                          <span className="line-through text-gray-400">{formatChangeValue(change.field, change.from, countries)}</span>
+                          {' → '}
+                          <span className="font-medium">{formatChangeValue(change.field, change.to, countries)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
       </div>
     </div>
   );
 };
 
+// --- UndoToast Component ---
+const UndoToast: React.FC<{ message: string; onUndo: () => void; onDismiss: () => void }> = ({ message, onUndo, onDismiss }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-800 text-white text-sm rounded-full shadow-xl pl-5 pr-2 py-2 animate-in fade-in duration-200">
+    <span>{message}</span>
+    <button
+      type="button"
+      onClick={onUndo}
+      className="flex items-center gap-1 font-bold text-yellow-300 hover:text-yellow-200"
+    >
+      <RotateCcw className="w-3.5 h-3.5" /> 復原
+    </button>
+    <button type="button" onClick={onDismiss} className="p-1 rounded-full text-gray-400 hover:text-white">
+      <X className="w-4 h-4" />
+    </button>
+  </div>
+);
+
 // ==========================================
 // 4. MAIN APP COMPONENT
 // ==========================================
@@ -625,85 +7413,654 @@ const TransactionList: React.FC<{ transactions: Transaction[]; onDelete: (id: st
 const DeleteConfirmModal: React.FC<{ isOpen: boolean; title: string; message: string; onConfirm: () => void; onCancel: () => void; isDangerous?: boolean }> = ({ isOpen, title, message, onConfirm, onCancel, isDangerous }) => {
   if (!isOpen) return null;
 
-  return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden scale-100 animate-in zoom-in-95 duration-200">
-        <div className="p-6 text-center">
-          <div className={`mx-auto mb-4 w-12 h-12 rounded-full flex items-center justify-center ${isDangerous ? 'bg-red-100' : 'bg-yellow-100'}`}>
-            <AlertTriangle className={`w-6 h-6 ${isDangerous ? 'text-red-600' : 'text-yellow-600'}`} />
-          </div>
-          <h3 className="text-lg font-bold text-gray-800 mb-2">{title}</h3>
-          <p className="text-sm text-gray-500 leading-relaxed whitespace-pre-wrap">{message}</p>
-        </div>
-        <div className="flex border-t border-gray-100 bg-gray-50/50">
-          <button
-            onClick={onCancel}
-            className="flex-1 py-4 text-sm font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-800 transition-colors border-r border-gray-100 active:bg-gray-200"
-          >
-            取消
-          </button>
-          <button
-            onClick={onConfirm}
-            className={`flex-1 py-4 text-sm font-bold transition-colors active:bg-opacity-90 ${
-              isDangerous ? 'text-red-600 hover:bg-red-50' : 'text-yellow-600 hover:bg-yellow-50'
-            }`}
-          >
-            確認刪除
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-};
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden scale-100 animate-in zoom-in-95 duration-200">
+        <div className="p-6 text-center">
+          <div className={`mx-auto mb-4 w-12 h-12 rounded-full flex items-center justify-center ${isDangerous ? 'bg-red-100' : 'bg-yellow-100'}`}>
+            <AlertTriangle className={`w-6 h-6 ${isDangerous ? 'text-red-600' : 'text-yellow-600'}`} />
+          </div>
+          <h3 className="text-lg font-bold text-gray-800 mb-2">{title}</h3>
+          <p className="text-sm text-gray-500 leading-relaxed whitespace-pre-wrap">{message}</p>
+        </div>
+        <div className="flex border-t border-gray-100 bg-gray-50/50">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-4 text-sm font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-800 transition-colors border-r border-gray-100 active:bg-gray-200"
+          >
+            取消
+          </button>
+          <button
+            onClick={onConfirm}
+            className={`flex-1 py-4 text-sm font-bold transition-colors active:bg-opacity-90 ${
+              isDangerous ? 'text-red-600 hover:bg-red-50' : 'text-yellow-600 hover:bg-yellow-50'
+            }`}
+          >
+            確認刪除
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const App: React.FC = () => {
+  // --- State ---
+  // Everything starts empty and is filled from the storage repository once it has loaded
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [inventoryLots, setInventoryLots] = useState<InventoryLot[]>([]);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [countries, setCountries] = useState<SourcingCountry[]>(DEFAULT_COUNTRIES);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoiceSettings, setInvoiceSettings] = useState<InvoiceSettings>(DEFAULT_INVOICE_SETTINGS);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateEntry[]>([]);
+  const [cardSettlements, setCardSettlements] = useState<CardSettlement[]>([]);
+  const [defaultRate, setDefaultRate] = useState<number>(0.28);
+  const [lastBackupAt, setLastBackupAt] = useState<string | null>(null);
+  const [backupReminderDays, setBackupReminderDays] = useState(DEFAULT_BACKUP_REMINDER_DAYS);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(createSyncSettings);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ phase: 'idle', lastSyncedAt: null, pending: 0 });
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [changeLog, setChangeLog] = useState<TransactionChange[]>([]);
+  const [undoToast, setUndoToast] = useState<{ id: string; message: string; onUndo: () => void } | null>(null);
+  // Sync bookkeeping changes on every edit and is only read by the sync itself, so it lives outside React state
+  const syncStateRef = useRef<SyncState>(emptySyncState());
+  const isSyncingRef = useRef(false);
+
+  // Nothing is saved until loading succeeded, so a failed load can never overwrite stored data
+  const [storageStatus, setStorageStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [quarantineDownloaded, setQuarantineDownloaded] = useState(false);
+
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [appendingOrder, setAppendingOrder] = useState<Order | null>(null);
+  const [paymentTarget, setPaymentTarget] = useState<Transaction | null>(null);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [editingShipment, setEditingShipment] = useState<Shipment | null>(null);
+  const [editingTrip, setEditingTrip] = useState<Trip | null>(null);
+  const [isCountryRegistryOpen, setIsCountryRegistryOpen] = useState(false);
+  const [isRateTableOpen, setIsRateTableOpen] = useState(false);
+  const [isPricingOpen, setIsPricingOpen] = useState(false);
+  const [activeInvoice, setActiveInvoice] = useState<Invoice | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<Transaction | null>(null);
+  const [editingLot, setEditingLot] = useState<InventoryLot | null>(null);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [filter, setFilter] = useState<TransactionFilter>(EMPTY_FILTER);
+  const [scopeToFilter, setScopeToFilter] = useState(false);
+  const [editingSettlement, setEditingSettlement] = useState<CardSettlement | null>(null);
+
+  const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  // --- Modal State ---
+  const [modalConfig, setModalConfig] = useState<{
+    isOpen: boolean;
+    type: 'single' | 'all' | 'purge' | null;
+    targetId?: string;
+  }>({ isOpen: false, type: null });
+
+  const skipChangeLogFor = useRef<Transaction[] | null>(null);
+  const loggedTransactions = useRef<Transaction[] | null>(null);
+  const restoredIds = useRef(new Set<string>());
+  // Customers and products as of the last link, so two adds made before a re-render see each other's new entries
+  const linkedCatalog = useRef({ customers, products });
+
+  // Replaces the app state with stored data as it is; see migrateStoredData for upgrading older records
+  const applyStoredData = (data: StoredData) => {
+    const stored = data.collections;
+
+    setTransactions(stored.transactions);
+    setCustomers(stored.customers);
+    setCountries(stored.countries.length > 0 ? stored.countries : DEFAULT_COUNTRIES);
+    setProducts(stored.products);
+    setTrips(stored.trips);
+    setPayments(stored.payments);
+    setShipments(stored.shipments);
+    setInventoryLots(stored.inventoryLots);
+    setExchangeRates(stored.exchangeRates);
+    setCardSettlements(stored.cardSettlements);
+    setPricingRules(stored.pricingRules);
+    setInvoices(stored.invoices);
+    setTrash(stored.trash);
+    setChangeLog(stored.changeLog);
+    // Loaded, restored or synced-in records are not edits made here, so they stay out of the change history
+    skipChangeLogFor.current = stored.transactions;
+    if (typeof data.settings.defaultRate === 'number') setDefaultRate(data.settings.defaultRate);
+    setInvoiceSettings({ ...DEFAULT_INVOICE_SETTINGS, ...(data.settings.invoiceSettings as Partial<InvoiceSettings> | undefined) });
+  };
+
+  // --- Effects ---
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredData()
+      .then(({ data, quarantined }) => {
+        if (cancelled) return;
+        applyStoredData(migrateStoredData(data));
+        if (typeof data.settings.lastBackupAt === 'string') setLastBackupAt(data.settings.lastBackupAt);
+        if (typeof data.settings.backupReminderDays === 'number') setBackupReminderDays(data.settings.backupReminderDays);
+        if (data.settings.syncSettings) setSyncSettings({ ...createSyncSettings(), ...(data.settings.syncSettings as Partial<SyncSettings>) });
+        if (data.settings.syncState) {
+          syncStateRef.current = data.settings.syncState as SyncState;
+          setSyncStatus(s => ({ ...s, lastSyncedAt: syncStateRef.current.lastSyncedAt }));
+        }
+        if (Array.isArray(data.settings.syncConflicts)) setSyncConflicts(data.settings.syncConflicts as SyncConflict[]);
+        setQuarantinedCount(quarantined);
+        setStorageStatus('ready');
+      })
+      .catch(e => {
+        console.error("Failed to load stored data", e);
+        if (cancelled) return;
+        setStorageError(e instanceof Error ? e.message : String(e));
+        setStorageStatus('error');
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    linkedCatalog.current = { customers, products };
+  }, [customers, products]);
+
+  const isLoaded = storageStatus === 'ready';
+
+  const reportSaveError = (e: unknown) => {
+    console.error("Failed to save data", e);
+    setSaveFailed(true);
+  };
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('transactions', transactions).catch(reportSaveError);
+  }, [transactions, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('customers', customers).catch(reportSaveError);
+  }, [customers, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('payments', payments).catch(reportSaveError);
+  }, [payments, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('shipments', shipments).catch(reportSaveError);
+  }, [shipments, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('products', products).catch(reportSaveError);
+  }, [products, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('inventoryLots', inventoryLots).catch(reportSaveError);
+  }, [inventoryLots, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('trips', trips).catch(reportSaveError);
+  }, [trips, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('countries', countries).catch(reportSaveError);
+  }, [countries, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('pricingRules', pricingRules).catch(reportSaveError);
+  }, [pricingRules, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('invoices', invoices).catch(reportSaveError);
+  }, [invoices, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveSetting('invoiceSettings', invoiceSettings).catch(reportSaveError);
+  }, [invoiceSettings, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('exchangeRates', exchangeRates).catch(reportSaveError);
+  }, [exchangeRates, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('cardSettlements', cardSettlements).catch(reportSaveError);
+  }, [cardSettlements, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveSetting('defaultRate', defaultRate).catch(reportSaveError);
+  }, [defaultRate, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded && lastBackupAt) saveSetting('lastBackupAt', lastBackupAt).catch(reportSaveError);
+  }, [lastBackupAt, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveSetting('backupReminderDays', backupReminderDays).catch(reportSaveError);
+  }, [backupReminderDays, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('trash', trash).catch(reportSaveError);
+  }, [trash, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveCollection('changeLog', changeLog).catch(reportSaveError);
+  }, [changeLog, isLoaded]);
+
+  // Every change to the transactions made on this device is diffed into the change history
+  useEffect(() => {
+    if (!isLoaded) return;
+    const previous = loggedTransactions.current;
+    loggedTransactions.current = transactions;
+    if (!previous || transactions === skipChangeLogFor.current) return;
+    const entries = diffTransactionVersions(previous, transactions, syncSettings.deviceName, restoredIds.current);
+    restoredIds.current = new Set();
+    if (entries.length > 0) setChangeLog(prev => [...prev, ...entries]);
+  }, [transactions, isLoaded]);
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = window.setTimeout(() => setUndoToast(null), UNDO_TOAST_MS);
+    return () => window.clearTimeout(timer);
+  }, [undoToast]);
+
+  useEffect(() => {
+    if (isLoaded) saveSetting('syncSettings', syncSettings).catch(reportSaveError);
+  }, [syncSettings, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) saveSetting('syncConflicts', syncConflicts).catch(reportSaveError);
+  }, [syncConflicts, isLoaded]);
+
+  // Everything as the storage repository keeps it, for backups, the restore preview and sync
+  const storedSnapshot = useMemo<StoredData>(() => ({
+    collections: {
+      transactions, customers, payments, shipments, inventoryLots, products,
+      trips, countries, exchangeRates, cardSettlements, pricingRules, invoices, trash, changeLog,
+    },
+    settings: { defaultRate, invoiceSettings, lastBackupAt, backupReminderDays },
+  }), [
+    transactions, customers, payments, shipments, inventoryLots, products, trips, countries,
+    exchangeRates, cardSettlements, pricingRules, invoices, trash, changeLog,
+    defaultRate, invoiceSettings, lastBackupAt, backupReminderDays,
+  ]);
+
+  // Sync reads the latest data after each request, not the data from when it started
+  const snapshotRef = useRef(storedSnapshot);
+
+  const setSyncState = (next: SyncState) => {
+    if (next === syncStateRef.current) return;
+    syncStateRef.current = next;
+    saveSetting('syncState', next).catch(reportSaveError);
+  };
+
+  // Note the time of every local edit as it happens; last writer wins goes by these times
+  useEffect(() => {
+    snapshotRef.current = storedSnapshot;
+    if (!isLoaded || !syncSettings.enabled) return;
+    setSyncState(detectLocalChanges(syncStateRef.current, storedSnapshot));
+    const pending = countPendingChanges(syncStateRef.current);
+    setSyncStatus(s => s.pending === pending ? s : { ...s, pending });
+  }, [storedSnapshot, isLoaded, syncSettings.enabled]);
 
-const App: React.FC = () => {
-  // --- State ---
-  const [transactions, setTransactions] = useState<Transaction[]>(() => {
+  const handleApplyRemote = (changes: RemoteChange[]) => {
+    const next = mergeCustomersByName(applyRemoteChanges(snapshotRef.current, changes));
+    snapshotRef.current = next;
+    applyStoredData(next);
+  };
+
+  const handleSync = async () => {
+    if (isSyncingRef.current || !syncSettings.enabled || !syncSettings.serverUrl) return;
+    isSyncingRef.current = true;
+    setSyncStatus(s => ({ ...s, phase: 'syncing' }));
     try {
-      const saved = localStorage.getItem('daigou_transactions');
-      return saved ? JSON.parse(saved) : [];
+      const conflicts = await runSync({
+        settings: syncSettings,
+        getData: () => snapshotRef.current,
+        getState: () => syncStateRef.current,
+        setState: setSyncState,
+        applyRemote: handleApplyRemote,
+      });
+      if (conflicts.length > 0) setSyncConflicts(prev => [...conflicts, ...prev]);
+      setSyncStatus({
+        phase: 'idle',
+        lastSyncedAt: syncStateRef.current.lastSyncedAt,
+        pending: countPendingChanges(syncStateRef.current),
+      });
     } catch (e) {
-      console.error("Failed to load transactions", e);
-      return [];
+      console.error("Sync failed", e);
+      setSyncStatus(s => ({ ...s, phase: 'error', error: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      isSyncingRef.current = false;
     }
-  });
-  
-  const [defaultRate, setDefaultRate] = useState<number>(() => {
-    return parseFloat(localStorage.getItem('daigou_default_rate') || '0.28');
-  });
+  };
 
-  const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  useEffect(() => {
+    if (!isLoaded || !syncSettings.enabled || !syncSettings.serverUrl) return;
+    handleSync();
+    const timer = window.setInterval(handleSync, SYNC_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isLoaded, syncSettings]);
 
-  // --- Modal State ---
-  const [modalConfig, setModalConfig] = useState<{
-    isOpen: boolean;
-    type: 'single' | 'all' | null;
-    targetId?: string;
-  }>({ isOpen: false, type: null });
+  // --- Logic Handlers (Executed after confirmation) ---
+  const showUndo = (message: string, onUndo: () => void) => {
+    setUndoToast({ id: generateId(), message, onUndo });
+  };
 
-  // --- Effects ---
-  useEffect(() => {
-    localStorage.setItem('daigou_transactions', JSON.stringify(transactions));
-  }, [transactions]);
+  const moveToTrash = (label: string, records: TrashedRecords): TrashEntry => {
+    const entry: TrashEntry = {
+      id: generateId(),
+      deletedAt: new Date().toISOString(),
+      deletedBy: syncSettings.deviceName,
+      label,
+      records,
+    };
+    setTrash(prev => [entry, ...prev]);
+    return entry;
+  };
 
-  useEffect(() => {
-    localStorage.setItem('daigou_default_rate', defaultRate.toString());
-  }, [defaultRate]);
+  const handleRestoreTrash = (entry: TrashEntry) => {
+    const { records } = entry;
+    records.transactions.forEach(t => restoredIds.current.add(t.id));
+    setTransactions(prev => restoreRecords(prev, records.transactions));
+    setPayments(prev => restoreRecords(prev, records.payments));
+    setShipments(prev => restoreRecords(prev, records.shipments));
+    setInventoryLots(prev => restoreRecords(prev, records.inventoryLots));
+    setTrips(prev => restoreRecords(prev, records.trips));
+    setCardSettlements(prev => restoreRecords(prev, records.cardSettlements));
+    setInvoices(prev => restoreRecords(prev, records.invoices));
+    setTrash(prev => prev.filter(e => e.id !== entry.id));
+  };
 
-  // --- Logic Handlers (Executed after confirmation) ---
   const executeDelete = () => {
     if (modalConfig.type === 'single' && modalConfig.targetId) {
+      const target = transactions.find(t => String(t.id) === String(modalConfig.targetId));
+      if (target) {
+        const entry = moveToTrash(describeTransaction(target), {
+          transactions: [target],
+          payments: payments.filter(p => String(p.transactionId) === String(target.id)),
+        });
+        showUndo('已將 1 筆交易移到垃圾桶', () => handleRestoreTrash(entry));
+      }
       setTransactions(prev => prev.filter(t => String(t.id) !== String(modalConfig.targetId)));
+      setPayments(prev => prev.filter(p => String(p.transactionId) !== String(modalConfig.targetId)));
+      if (editingTransaction && String(editingTransaction.id) === String(modalConfig.targetId)) {
+        setEditingTransaction(null);
+      }
+    } else if (modalConfig.type === 'purge') {
+      setTrash(prev => modalConfig.targetId ? prev.filter(e => e.id !== modalConfig.targetId) : []);
     } else if (modalConfig.type === 'all') {
+      const records: TrashedRecords = { transactions, payments, shipments, inventoryLots, trips, cardSettlements, invoices };
+      if (countTrashedRecords(records) > 0) {
+        const entry = moveToTrash(`刪除全部 (${transactions.length} 筆交易)`, records);
+        showUndo('已清空資料，可從垃圾桶復原', () => handleRestoreTrash(entry));
+      }
       setTransactions([]);
+      setPayments([]);
+      setShipments([]);
+      setInventoryLots([]);
+      setTrips([]);
+      setCardSettlements([]);
+      setInvoices([]); // The number sequence carries on so numbers are never reused
+      setEditingTransaction(null);
+      setAppendingOrder(null);
     }
     setModalConfig({ isOpen: false, type: null });
   };
 
   // --- UI Handlers (Triggers modal) ---
-  const handleAddTransaction = (newTransaction: Transaction) => {
-    setTransactions(prev => [...prev, newTransaction]);
+  // Links new or edited records to customer entries and the product catalog, creating entries as needed
+  const linkRecords = (records: Transaction[]): Transaction[] => {
+    const latest = linkedCatalog.current;
+    const linked = linkTransactionsToCustomers(records, latest.customers);
+    const catalogued = linkTransactionsToProducts(linked.transactions, latest.products);
+    linkedCatalog.current = { customers: linked.customers, products: catalogued.products };
+    if (linked.customers !== latest.customers) setCustomers(prev => applyChangedRecords(prev, latest.customers, linked.customers));
+    if (catalogued.products !== latest.products) setProducts(prev => applyChangedRecords(prev, latest.products, catalogued.products));
+    return catalogued.transactions;
+  };
+
+  // Undoing an add simply takes the new lines out again; nothing goes to the trash
+  const undoAdd = (added: Transaction[]) => {
+    const ids = new Set(added.map(t => t.id));
+    setTransactions(prev => prev.filter(t => !ids.has(t.id)));
+  };
+
+  const handleAddOrder = (lines: Transaction[]) => {
+    const linked = linkRecords(lines);
+    setTransactions(prev => [...prev, ...linked]);
+    setAppendingOrder(null);
+    showUndo(`已新增 ${linked.length} 筆交易`, () => undoAdd(linked));
+  };
+
+  // Shared order fields edited on one line are carried over to the other lines of its order
+  const handleUpdateTransaction = (updated: Transaction) => {
+    const [linked] = linkRecords([updated]);
+    const orderId = getOrderId(linked);
+    setTransactions(prev => prev.map(t => {
+      if (String(t.id) === String(linked.id)) return linked;
+      return getOrderId(t) === orderId ? applyOrderFields(t, linked) : t;
+    }));
+    setEditingTransaction(null);
+  };
+
+  const handleAddToOrder = (order: Order) => {
+    const [fullOrder] = groupIntoOrders(transactions.filter(t => getOrderId(t) === order.id));
+    setEditingTransaction(null);
+    setAppendingOrder(fullOrder || order);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSaveCustomer = (updated: Customer) => {
+    if (findNameClash(customers, updated)) return;
+    setCustomers(prev => prev.map(c => c.id === updated.id ? updated : c));
+    setTransactions(prev => prev.map(t => t.customerId === updated.id && t.customerName !== updated.name ? { ...t, customerName: updated.name } : t));
+    setSelectedCustomer(null);
+  };
+
+  const handleBulkStatusChange = (ids: string[], status: OrderStatus) => {
+    const idSet = new Set(ids.map(String));
+    const at = new Date().toISOString();
+    setTransactions(prev => prev.map(t => idSet.has(String(t.id)) ? applyStatus(t, status, at) : t));
+  };
+
+  const handleAddPayment = (payment: Payment) => {
+    setPayments(prev => [...prev, payment]);
+  };
+
+  const handleDeletePayment = (id: string) => {
+    setPayments(prev => prev.filter(p => p.id !== id));
+  };
+
+  const handleCreateShipment = () => {
+    setEditingShipment({
+      id: generateId(),
+      name: '',
+      date: new Date().toISOString().split('T')[0],
+      allocationMethod: 'weight',
+      freight: 0,
+      forwardingFee: 0,
+      customsDuty: 0,
+    });
+  };
+
+  const handleSaveShipment = (shipment: Shipment, transactionIds: string[]) => {
+    const members = new Set(transactionIds);
+    setShipments(prev => prev.some(s => s.id === shipment.id)
+      ? prev.map(s => s.id === shipment.id ? shipment : s)
+      : [...prev, shipment]);
+    setTransactions(prev => prev.map(t => {
+      if (members.has(t.id)) return t.shipmentId === shipment.id ? t : { ...t, shipmentId: shipment.id };
+      return t.shipmentId === shipment.id ? { ...t, shipmentId: undefined } : t;
+    }));
+    setEditingShipment(null);
+  };
+
+  const handleDeleteShipment = (id: string) => {
+    setShipments(prev => prev.filter(s => s.id !== id));
+    setTransactions(prev => prev.map(t => t.shipmentId === id ? { ...t, shipmentId: undefined } : t));
+  };
+
+  // A statement covers one customer; the number is only assigned once it is printed or copied
+  const handleCreateInvoice = (ids: string[]) => {
+    const idSet = new Set(ids);
+    const selected = transactions.filter(t => idSet.has(t.id));
+    const customerKeys = new Set(selected.map(t => t.customerId || normalizeCustomerName(t.customerName)));
+    if (selected.length === 0) return;
+    if (customerKeys.size > 1) {
+      alert('對帳單只能包含同一位客人的項目，請只選取一位客人的交易。');
+      return;
+    }
+    setActiveInvoice({
+      id: generateId(),
+      number: '',
+      customerId: selected[0].customerId,
+      customerName: selected[0].customerName,
+      transactionIds: selected.map(t => t.id),
+      issuedAt: '',
+      total: 0,
+    });
+  };
+
+  // Each device counts its own sequence, so synced devices add their code to tell their numbers apart
+  const invoiceDeviceCode = syncSettings.enabled ? syncSettings.invoiceCode : '';
+
+  const handleIssueInvoice = (draft: Invoice): Invoice => {
+    const issued: Invoice = {
+      ...draft,
+      number: formatInvoiceNumber(invoiceSettings, invoiceSettings.nextNumber, invoiceDeviceCode),
+      issuedAt: new Date().toISOString(),
+    };
+    setInvoices(prev => [...prev, issued]);
+    setInvoiceSettings(prev => ({ ...prev, nextNumber: prev.nextNumber + 1 }));
+    setActiveInvoice(issued);
+    return issued;
+  };
+
+  const handleCreateProduct = () => {
+    setEditingProduct({
+      id: generateId(),
+      name: '',
+      aliases: [],
+      country: countries[0]?.code || LEGACY_DEFAULT_COUNTRY,
+      lastCostForeign: 0,
+      usualPrice: 0,
+    });
+  };
+
+  const handleSaveProduct = (product: Product) => {
+    setProducts(prev => prev.some(p => p.id === product.id)
+      ? prev.map(p => p.id === product.id ? product : p)
+      : [...prev, product]);
+    setEditingProduct(null);
+  };
+
+  const handleDeleteProduct = (id: string) => {
+    setProducts(prev => prev.filter(p => p.id !== id));
+    setTransactions(prev => prev.map(t => t.productId === id ? { ...t, productId: undefined } : t));
+  };
+
+  const handleCreateLot = () => {
+    setEditingLot({
+      id: generateId(),
+      itemName: '',
+      country: countries[0]?.code || LEGACY_DEFAULT_COUNTRY,
+      quantity: 0,
+      costForeign: 0,
+      exchangeRate: resolveDefaultRates(countries, exchangeRates, countries[0]?.code || LEGACY_DEFAULT_COUNTRY, new Date().toISOString()).rate,
+      date: new Date().toISOString().split('T')[0],
+    });
+  };
+
+  const handleSaveLot = (lot: InventoryLot) => {
+    setInventoryLots(prev => prev.some(l => l.id === lot.id)
+      ? prev.map(l => l.id === lot.id ? lot : l)
+      : [...prev, lot]);
+    setEditingLot(null);
+  };
+
+  const handleDeleteLot = (id: string) => {
+    setInventoryLots(prev => prev.filter(l => l.id !== id));
+  };
+
+  const handleCreateTrip = () => {
+    const today = new Date().toISOString().split('T')[0];
+    setEditingTrip({
+      id: generateId(),
+      name: '',
+      destination: countries[0]?.code || LEGACY_DEFAULT_COUNTRY,
+      startDate: today,
+      endDate: today,
+      expenses: [],
+    });
+  };
+
+  const handleSaveTrip = (trip: Trip, transactionIds: string[]) => {
+    const members = new Set(transactionIds);
+    setTrips(prev => prev.some(t => t.id === trip.id)
+      ? prev.map(t => t.id === trip.id ? trip : t)
+      : [...prev, trip]);
+    setTransactions(prev => prev.map(t => {
+      if (members.has(t.id)) return t.tripId === trip.id ? t : { ...t, tripId: trip.id };
+      return t.tripId === trip.id ? { ...t, tripId: undefined } : t;
+    }));
+    setEditingTrip(null);
+  };
+
+  const handleDeleteTrip = (id: string) => {
+    setTrips(prev => prev.filter(t => t.id !== id));
+    setTransactions(prev => prev.map(t => t.tripId === id ? { ...t, tripId: undefined } : t));
+  };
+
+  const handleCreateSettlement = () => {
+    setEditingSettlement({
+      id: generateId(),
+      date: new Date().toISOString().split('T')[0],
+      description: '',
+      settledAmount: 0,
+      foreignFee: 0,
+    });
+  };
+
+  const handleSaveSettlement = (settlement: CardSettlement, transactionIds: string[]) => {
+    const members = new Set(transactionIds);
+    setCardSettlements(prev => prev.some(s => s.id === settlement.id)
+      ? prev.map(s => s.id === settlement.id ? settlement : s)
+      : [...prev, settlement]);
+    setTransactions(prev => prev.map(t => {
+      if (members.has(t.id)) return t.cardSettlementId === settlement.id ? t : { ...t, cardSettlementId: settlement.id };
+      return t.cardSettlementId === settlement.id ? { ...t, cardSettlementId: undefined } : t;
+    }));
+    setEditingSettlement(null);
+  };
+
+  const handleDeleteSettlement = (id: string) => {
+    setCardSettlements(prev => prev.filter(s => s.id !== id));
+    setTransactions(prev => prev.map(t => t.cardSettlementId === id ? { ...t, cardSettlementId: undefined } : t));
+  };
+
+  const handleMarkRefundsReceived = (ids: string[]) => {
+    const idSet = new Set(ids);
+    const at = new Date().toISOString();
+    setTransactions(prev => prev.map(t => idSet.has(t.id) && t.taxRefundStatus === 'pending'
+      ? { ...t, taxRefundStatus: 'received', taxRefundReceivedAt: at }
+      : t));
+  };
+
+  const handleImportTransactions = (incoming: Transaction[]) => {
+    const linked = linkRecords(migrateToOrders(incoming));
+    setTransactions(prev => [...prev, ...linked]);
+    showUndo(`已匯入 ${linked.length} 筆交易`, () => undoAdd(linked));
+  };
+
+  const handleEditTransaction = (t: Transaction) => {
+    setAppendingOrder(null);
+    setEditingTransaction(t);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleDeleteTransaction = (id: string) => {
@@ -722,44 +8079,124 @@ const App: React.FC = () => {
   };
 
   const handleExportCSV = () => {
-    const headers = ['日期', '國家', '客人名字', '商品名稱', '數量', '外幣成本(單件)', '當日匯率', '賣出匯率', '台幣成本(單件)', '售價', '單件利潤', '總利潤'];
+    const headers = ['日期', '國家', '狀態', '客人名字', '商品名稱', '數量', '外幣成本(單件)', '當日匯率', '賣出匯率', '台幣成本(單件)', '分攤運費', '售價', '單件利潤', '總利潤', 'ID'];
     
-    const csvRows = transactions.map(t => {
-      const localCostPerUnit = Math.round(t.costJpy * t.exchangeRate);
-      const localCostTotal = localCostPerUnit * t.quantity;
-      const totalSales = t.priceSold * t.quantity;
-      const totalProfit = totalSales - localCostTotal;
-      const profitPerUnit = t.priceSold - localCostPerUnit;
+    const csvRows = scopedTransactions.map(t => {
+      const localCostPerUnit = getLocalUnitCost(t, stockCosts);
+      const sharedCost = allocatedCosts[t.id] || 0;
+      const { profit: totalProfit, calculable } = transactionFigures[t.id];
+      const profitPerUnit = tryCalculate(() => lineFigures({ unitCost: localCostPerUnit, priceSold: t.priceSold, quantity: 1 }).profit, NaN);
       const sellingRate = t.sellingExchangeRate || '';
       
-      const countryLabel = t.country === 'KR' ? '韓國' : (t.country === 'OTHER' ? '其他' : '日本');
-      const currencySymbol = t.country === 'KR' ? '₩' : (t.country === 'OTHER' ? '$' : '¥');
+      const countryLabel = getCountryLabel(countries, t.country);
+      const currencySymbol = getCurrencySymbol(countries, t.country);
       
       return [
         new Date(t.date).toLocaleDateString(),
         countryLabel,
+        STATUS_CONFIG[getTransactionStatus(t)].label,
         `"${t.customerName}"`,
         `"${t.itemName}"`,
         t.quantity,
-        `"${currencySymbol}${t.costJpy}"`,
+        `"${currencySymbol}${t.costForeign}"`,
         t.exchangeRate,
         sellingRate,
-        `"$${localCostPerUnit}"`,
+        calculable ? `"$${localCostPerUnit}"` : '"—"',
+        `"$${sharedCost}"`,
         `"$${t.priceSold}"`,
-        `"$${profitPerUnit}"`,
-        `"$${totalProfit}"`
+        calculable ? `"$${profitPerUnit}"` : '"—"',
+        calculable ? `"$${totalProfit}"` : '"—"',
+        t.id
       ].join(',');
     });
 
     const csvContent = '\uFEFF' + [headers.join(','), ...csvRows].join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `代購銷售紀錄_${new Date().toISOString().slice(0, 10)}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadBlob(blob, `代購銷售紀錄_${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const handleExportExcel = async () => {
+    try {
+      const buffer = await buildSalesWorkbook(scopedTransactions, countries, allocatedCosts, stockCosts);
+      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      downloadBlob(blob, `代購銷售紀錄_${new Date().toISOString().slice(0, 10)}.xlsx`);
+    } catch (e) {
+      console.error("Failed to build workbook", e);
+      alert('Excel 匯出失敗，請改用 CSV 匯出');
+    }
+  };
+
+  const handleBackup = () => {
+    const backup = createBackup(storedSnapshot);
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `代購管家備份_${backup.exportedAt.slice(0, 10)}.json`);
+    setLastBackupAt(backup.exportedAt);
+  };
+
+  const handleRestoreBackup = (data: StoredData, mode: RestoreMode) => {
+    const next = restoreStoredData(storedSnapshot, data, mode);
+    if (mode === 'merge') {
+      // Keep numbering past any statement number issued on the other device
+      const incoming = data.settings.invoiceSettings as Partial<InvoiceSettings> | undefined;
+      next.settings.invoiceSettings = {
+        ...invoiceSettings,
+        nextNumber: Math.max(invoiceSettings.nextNumber, incoming?.nextNumber || 0),
+      };
+    }
+    applyStoredData(migrateStoredData(next));
+    setEditingTransaction(null);
+    setAppendingOrder(null);
+    setSelectedCustomer(null);
+    setActiveInvoice(null);
+  };
+
+  const handleSaveSyncSettings = (next: SyncSettings) => {
+    // Pointing at another server means its revisions are unrelated to the ones recorded here
+    if (next.serverUrl !== syncSettings.serverUrl) setSyncState(emptySyncState());
+    setSyncSettings(next);
+    setSyncStatus({ phase: 'idle', lastSyncedAt: syncStateRef.current.lastSyncedAt, pending: countPendingChanges(syncStateRef.current) });
+  };
+
+  // Puts back the version a conflict replaced; it syncs as a new edit, so it wins on the other devices too
+  const handleRestoreConflict = (conflict: SyncConflict) => {
+    handleApplyRemote([{
+      collection: conflict.collection,
+      id: conflict.key,
+      rev: 0,
+      updatedAt: conflict.lostAt,
+      deviceId: '',
+      deviceName: conflict.lostDevice,
+      deleted: conflict.lost === null,
+      data: conflict.lost,
+    }]);
+    setSyncConflicts(prev => prev.filter(c => c.id !== conflict.id));
+  };
+
+  const handleDismissConflicts = (ids: string[]) => {
+    const idSet = new Set(ids);
+    setSyncConflicts(prev => prev.filter(c => !idSet.has(c.id)));
+  };
+
+  // Unreadable data is kept aside rather than deleted; it can only be cleared after it has been downloaded
+  const handleDownloadQuarantine = async () => {
+    try {
+      const entries = await listQuarantine();
+      const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, `代購隔離資料_${new Date().toISOString().slice(0, 10)}.json`);
+      setQuarantineDownloaded(true);
+    } catch (e) {
+      console.error("Failed to read quarantine", e);
+      alert('無法讀取隔離資料');
+    }
+  };
+
+  const handleClearQuarantine = async () => {
+    try {
+      await clearQuarantine();
+      setQuarantinedCount(0);
+    } catch (e) {
+      console.error("Failed to clear quarantine", e);
+    }
   };
 
   const handleAiAnalysis = async () => {
@@ -770,7 +8207,7 @@ const App: React.FC = () => {
     setIsAnalyzing(true);
     setAiAnalysis(null);
     try {
-      const result = await analyzeSalesData(transactions);
+      const result = await analyzeSalesData(transactions, countries, stockCosts);
       setAiAnalysis(result);
     } finally {
       setIsAnalyzing(false);
@@ -778,36 +8215,295 @@ const App: React.FC = () => {
   };
 
   // --- Derived State (Stats) ---
+  const paymentsByTransaction = useMemo(() => groupPaymentsByTransaction(payments), [payments]);
+  // Codes some record still points to; these cannot be removed from the registry
+  const usedCountryCodes = useMemo(
+    () => new Set([
+      ...transactions.map(t => t.country),
+      ...trips.map(t => t.destination),
+      ...inventoryLots.map(l => l.country),
+      ...products.map(p => p.country),
+      ...pricingRules.flatMap(r => r.country ? [r.country] : []),
+    ]),
+    [transactions, trips, inventoryLots, products, pricingRules]
+  );
+  const inventoryLedger = useMemo(() => runInventoryFifo(inventoryLots, transactions), [inventoryLots, transactions]);
+  const stockCosts = inventoryLedger.unitCosts;
+  const stockItems = useMemo(() => summarizeStock(inventoryLedger), [inventoryLedger]);
+  const productCategories = useMemo(
+    () => [...new Set(products.map(p => p.category).filter((c): c is string => !!c))].sort(),
+    [products]
+  );
+  const allocatedCosts = useMemo(
+    () => allocateShipmentCosts(shipments, transactions, stockCosts),
+    [shipments, transactions, stockCosts]
+  );
+  const transactionFigures = useMemo(
+    () => getFiguresById(transactions, allocatedCosts, stockCosts),
+    [transactions, allocatedCosts, stockCosts]
+  );
+  const filteredTransactions = useMemo(
+    () => isFilterActive(filter) ? transactions.filter(t => matchesFilter(t, filter, transactionFigures)) : transactions,
+    [transactions, filter, transactionFigures]
+  );
+  // What the dashboard and exports cover: the filtered rows only when the user opts in
+  const scopedTransactions = scopeToFilter ? filteredTransactions : transactions;
+
+  // Cancelled orders are counted by status but excluded from money totals
   const stats: SummaryStats = useMemo(() => {
-    return transactions.reduce((acc, t) => {
-      const unitCostTwd = Math.round(t.costJpy * t.exchangeRate);
-      const totalCost = unitCostTwd * t.quantity;
-      const totalSales = t.priceSold * t.quantity;
-      const profit = totalSales - totalCost;
+    const emptyCounts = Object.fromEntries(ORDER_STATUSES.map(s => [s, 0])) as Record<OrderStatus, number>;
+    const totals = scopedTransactions.reduce((acc, t) => {
+      const status = getTransactionStatus(t);
+      const statusCounts = { ...acc.statusCounts, [status]: acc.statusCounts[status] + 1 };
+      const received = getPaidAmount(paymentsByTransaction[t.id] || []);
+      const outstanding = Math.max(getAmountDue(t) - received, 0);
+      if (status === 'cancelled') {
+        return { ...acc, statusCounts, totalReceived: acc.totalReceived + received };
+      }
+
+      const { sales: totalSales, cost: totalCost, profit } = transactionFigures[t.id];
 
       return {
         totalSales: acc.totalSales + totalSales,
         totalCost: acc.totalCost + totalCost,
         totalProfit: acc.totalProfit + profit,
         itemCount: acc.itemCount + t.quantity,
+        statusCounts,
+        totalReceived: acc.totalReceived + received,
+        accountsReceivable: acc.accountsReceivable + outstanding,
       };
-    }, { totalSales: 0, totalCost: 0, totalProfit: 0, itemCount: 0 });
-  }, [transactions]);
+    }, { totalSales: 0, totalCost: 0, totalProfit: 0, itemCount: 0, statusCounts: emptyCounts, totalReceived: 0, accountsReceivable: 0 });
+
+    // FX gain/loss is reported next to cost, not folded into profit. Settlements cover whole statements,
+    // so this always uses every transaction rather than the filtered set.
+    const settled = cardSettlements.map(s => summarizeSettlement(s, transactions));
+    return {
+      ...totals,
+      orderCount: countOrders(scopedTransactions.filter(t => getTransactionStatus(t) !== 'cancelled')),
+      fxGainLoss: settled.reduce((sum, s) => sum + s.gainLoss, 0),
+      settledCount: settled.reduce((sum, s) => sum + s.itemCount, 0),
+    };
+  }, [transactions, scopedTransactions, paymentsByTransaction, transactionFigures, cardSettlements]);
+
+  const uncalculableTransactions = useMemo(() => transactions.filter(t => !isCalculable(t)), [transactions]);
+
+  const backupAge = daysSinceBackup(lastBackupAt);
+  const backupDue = transactions.length > 0 && (backupAge === null || backupAge >= backupReminderDays);
+
+  const syncLabel = !syncSettings.enabled ? '同步'
+    : syncStatus.phase === 'syncing' ? '同步中'
+    : syncStatus.phase === 'error' ? '同步失敗'
+    : syncStatus.pending > 0 ? `待同步 ${syncStatus.pending}`
+    : '已同步';
+  const syncIcon = (size: string) => !syncSettings.enabled || syncStatus.phase === 'error'
+    ? <CloudOff className={`${size} ${syncStatus.phase === 'error' && syncSettings.enabled ? 'text-red-400' : 'text-yellow-500'}`} />
+    : syncStatus.phase === 'syncing'
+      ? <RefreshCw className={`${size} text-yellow-500 animate-spin`} />
+      : <Cloud className={`${size} text-yellow-500`} />;
+
+  if (storageStatus !== 'ready') {
+    return (
+      <div className="min-h-screen flex items-center justify-center font-sans bg-[#fdfdf9] p-4">
+        {storageStatus === 'loading' ? (
+          <div className="flex items-center gap-2 text-gray-400">
+            <Loader2 className="w-5 h-5 animate-spin" /> 載入資料中…
+          </div>
+        ) : (
+          <div className="max-w-md bg-white rounded-2xl shadow-xl border border-red-100 p-6 text-center">
+            <AlertTriangle className="w-8 h-8 text-red-400 mx-auto mb-3" />
+            <h2 className="font-bold text-gray-800 mb-2">無法開啟本機資料庫</h2>
+            <p className="text-sm text-gray-500 mb-1">已儲存的資料沒有被修改。請確認瀏覽器允許網站儲存資料 (非無痕模式)，或關閉其他開啟此 App 的分頁後重試。</p>
+            <p className="text-xs text-gray-400 font-mono mb-4">{storageError}</p>
+            <button
+              type="button"
+              onClick={() => window.location.reload()}
+              className="bg-yellow-200 hover:bg-yellow-300 text-yellow-800 font-bold py-2 px-4 rounded-lg shadow-sm transition-all"
+            >
+              重新載入
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen pb-20 font-sans bg-[#fdfdf9]">
+      {/* Rendered before the confirm dialog so "永久刪除" confirms on top of it */}
+      <TrashModal
+        isOpen={isTrashOpen}
+        entries={trash}
+        onRestore={handleRestoreTrash}
+        onPurge={(id) => setModalConfig({ isOpen: true, type: 'purge', targetId: id })}
+        onClose={() => setIsTrashOpen(false)}
+      />
+
       {/* Modal */}
       <DeleteConfirmModal 
         isOpen={modalConfig.isOpen}
-        title={modalConfig.type === 'all' ? '清空所有資料' : '刪除交易紀錄'}
-        message={modalConfig.type === 'all' 
-          ? '警告：此動作將「永久刪除」所有交易紀錄，無法復原！\n\n您確定要清空嗎？' 
-          : '您確定要刪除這筆交易紀錄嗎？'}
+        title={modalConfig.type === 'all' ? '清空所有資料' : modalConfig.type === 'purge' ? '永久刪除' : '刪除交易紀錄'}
+        message={modalConfig.type === 'all'
+          ? '所有交易、收款、運送批次、庫存、行程、刷卡結算與對帳單都會移到垃圾桶，需要時可以從垃圾桶復原。\n\n您確定要清空嗎？'
+          : modalConfig.type === 'purge'
+            ? `警告：${modalConfig.targetId ? '這筆資料' : '垃圾桶中的所有資料'}將「永久刪除」，無法復原！`
+            : '這筆交易會移到垃圾桶，需要時可以復原。'}
         onConfirm={executeDelete}
         onCancel={() => setModalConfig({ isOpen: false, type: null })}
         isDangerous={true}
       />
 
+      <PaymentModal
+        transaction={paymentTarget}
+        payments={paymentTarget ? paymentsByTransaction[paymentTarget.id] || [] : []}
+        onAddPayment={handleAddPayment}
+        onDeletePayment={handleDeletePayment}
+        onClose={() => setPaymentTarget(null)}
+      />
+
+      <CustomerDetailModal
+        customer={selectedCustomer}
+        customers={customers}
+        transactions={transactions}
+        paymentsByTransaction={paymentsByTransaction}
+        allocatedCosts={allocatedCosts}
+        stockCosts={stockCosts}
+        onSave={handleSaveCustomer}
+        onClose={() => setSelectedCustomer(null)}
+      />
+
+      <ShipmentModal
+        shipment={editingShipment}
+        transactions={transactions}
+        stockCosts={stockCosts}
+        onSave={handleSaveShipment}
+        onClose={() => setEditingShipment(null)}
+      />
+
+      <InvoiceModal
+        invoice={activeInvoice}
+        settings={invoiceSettings}
+        deviceCode={invoiceDeviceCode}
+        transactions={transactions}
+        paymentsByTransaction={paymentsByTransaction}
+        onSettingsChange={setInvoiceSettings}
+        onIssue={handleIssueInvoice}
+        onClose={() => setActiveInvoice(null)}
+      />
+
+      <PricingRulesModal
+        isOpen={isPricingOpen}
+        rules={pricingRules}
+        countries={countries}
+        categories={productCategories}
+        onSave={(next) => {
+          setPricingRules(next);
+          setIsPricingOpen(false);
+        }}
+        onClose={() => setIsPricingOpen(false)}
+      />
+
+      <CountryRegistryModal
+        isOpen={isCountryRegistryOpen}
+        countries={countries}
+        usedCodes={usedCountryCodes}
+        onSave={(next) => {
+          setCountries(next);
+          setIsCountryRegistryOpen(false);
+        }}
+        onClose={() => setIsCountryRegistryOpen(false)}
+      />
+
+      <ExchangeRateModal
+        isOpen={isRateTableOpen}
+        countries={countries}
+        rates={exchangeRates}
+        transactions={transactions}
+        onChange={setExchangeRates}
+        onClose={() => setIsRateTableOpen(false)}
+      />
+
+      <CardSettlementModal
+        settlement={editingSettlement}
+        transactions={transactions}
+        countries={countries}
+        onSave={handleSaveSettlement}
+        onClose={() => setEditingSettlement(null)}
+      />
+
+      <ProductModal
+        product={editingProduct}
+        countries={countries}
+        onSave={handleSaveProduct}
+        onClose={() => setEditingProduct(null)}
+      />
+
+      <InventoryLotModal
+        lot={editingLot}
+        countries={countries}
+        exchangeRates={exchangeRates}
+        knownItems={stockItems.map(item => item.itemName)}
+        onSave={handleSaveLot}
+        onClose={() => setEditingLot(null)}
+      />
+
+      <TransactionImportModal
+        isOpen={isImportOpen}
+        countries={countries}
+        rates={exchangeRates}
+        transactions={transactions}
+        onImport={handleImportTransactions}
+        onClose={() => setIsImportOpen(false)}
+      />
+
+      <BackupModal
+        isOpen={isBackupOpen}
+        current={storedSnapshot}
+        lastBackupAt={lastBackupAt}
+        reminderDays={backupReminderDays}
+        onReminderDaysChange={setBackupReminderDays}
+        onBackup={handleBackup}
+        onRestore={handleRestoreBackup}
+        onClose={() => setIsBackupOpen(false)}
+      />
+
+      <ChangeHistoryModal
+        transaction={historyTarget}
+        entries={historyTarget ? changeLog.filter(c => c.transactionId === historyTarget.id) : []}
+        countries={countries}
+        onClose={() => setHistoryTarget(null)}
+      />
+
+      {undoToast && (
+        <UndoToast
+          message={undoToast.message}
+          onUndo={() => {
+            undoToast.onUndo();
+            setUndoToast(null);
+          }}
+          onDismiss={() => setUndoToast(null)}
+        />
+      )}
+
+      <SyncModal
+        isOpen={isSyncOpen}
+        settings={syncSettings}
+        status={syncStatus}
+        conflicts={syncConflicts}
+        onSaveSettings={handleSaveSyncSettings}
+        onSyncNow={handleSync}
+        onRestoreConflict={handleRestoreConflict}
+        onDismissConflicts={handleDismissConflicts}
+        onClose={() => setIsSyncOpen(false)}
+      />
+
+      <TripModal
+        trip={editingTrip}
+        transactions={transactions}
+        countries={countries}
+        onSave={handleSaveTrip}
+        onClose={() => setEditingTrip(null)}
+      />
+
       {/* Header */}
       <header className="bg-[#fffef0]/90 backdrop-blur-sm border-b border-yellow-100 sticky top-0 z-10">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 relative flex items-center justify-center">
@@ -820,8 +8516,29 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold text-yellow-800 tracking-wide">代購管家</h1>
           </div>
 
-          {/* Right-aligned Action */}
-          <div className="absolute right-4 top-1/2 -translate-y-1/2 hidden sm:block">
+          {/* Right-aligned Actions */}
+          <div className="absolute right-4 top-1/2 -translate-y-1/2 hidden sm:flex items-center gap-2">
+             <button
+              onClick={() => setIsSyncOpen(true)}
+              className={`relative flex items-center gap-2 bg-white hover:bg-yellow-50 border px-4 py-2 rounded-full text-xs font-bold transition-all shadow-sm ${
+                syncSettings.enabled && syncStatus.phase === 'error' ? 'text-red-600 border-red-200' : 'text-yellow-800 border-yellow-200'
+              }`}
+            >
+              {syncIcon('w-3 h-3')}
+              {syncLabel}
+              {syncConflicts.length > 0 && (
+                <span className="absolute -top-1 -right-1 bg-amber-400 text-white text-[10px] rounded-full w-4 h-4 flex items-center justify-center">
+                  {syncConflicts.length}
+                </span>
+              )}
+            </button>
+             <button
+              onClick={() => setIsBackupOpen(true)}
+              className="flex items-center gap-2 bg-white hover:bg-yellow-50 text-yellow-800 border border-yellow-200 px-4 py-2 rounded-full text-xs font-bold transition-all shadow-sm"
+            >
+              <DatabaseBackup className="w-3 h-3 text-yellow-500" />
+              備份 / 還原
+            </button>
              <button
               onClick={handleAiAnalysis}
               disabled={isAnalyzing || transactions.length === 0}
@@ -837,8 +8554,22 @@ const App: React.FC = () => {
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         
-        {/* Mobile AI Button */}
-        <div className="sm:hidden mb-6 flex justify-center">
+        {/* Mobile Actions */}
+        <div className="sm:hidden mb-6 flex justify-center gap-2">
+             <button
+              onClick={() => setIsSyncOpen(true)}
+              className="flex-shrink-0 flex justify-center items-center gap-2 bg-white text-yellow-900 border border-yellow-200 px-3 py-2 rounded-lg text-sm font-bold shadow-sm"
+            >
+              {syncIcon('w-4 h-4')}
+              {syncConflicts.length > 0 && <span className="text-amber-600">{syncConflicts.length}</span>}
+            </button>
+             <button
+              onClick={() => setIsBackupOpen(true)}
+              className="flex-shrink-0 flex justify-center items-center gap-2 bg-white text-yellow-900 border border-yellow-200 px-4 py-2 rounded-lg text-sm font-bold shadow-sm"
+            >
+              <DatabaseBackup className="w-4 h-4 text-yellow-600" />
+              備份
+            </button>
              <button
               onClick={handleAiAnalysis}
               disabled={isAnalyzing || transactions.length === 0}
@@ -849,7 +8580,81 @@ const App: React.FC = () => {
             </button>
         </div>
 
+        {saveFailed && (
+          <div className="mb-3 flex items-center gap-2 text-xs bg-red-50 border border-red-100 text-red-600 rounded-lg px-4 py-2">
+            <AlertTriangle className="w-4 h-4" />
+            <span>最近的變更沒有成功儲存到本機資料庫，請先匯出資料備份後重新整理頁面。</span>
+          </div>
+        )}
+        {quarantinedCount > 0 && (
+          <div className="mb-3 flex items-center justify-between gap-2 text-xs bg-amber-50 border border-amber-100 text-amber-800 rounded-lg px-4 py-2">
+            <span className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              有 {quarantinedCount} 筆無法讀取的資料已另外隔離保存，沒有被刪除。
+            </span>
+            <span className="flex items-center gap-3">
+              <button type="button" onClick={handleDownloadQuarantine} className="underline hover:text-amber-900">
+                下載隔離資料
+              </button>
+              {quarantineDownloaded && (
+                <button type="button" onClick={handleClearQuarantine} className="underline text-amber-600 hover:text-amber-900">
+                  已處理，清除
+                </button>
+              )}
+            </span>
+          </div>
+        )}
+
+        {syncConflicts.length > 0 && (
+          <div className="mb-3 flex items-center justify-between gap-2 text-xs bg-amber-50 border border-amber-100 text-amber-800 rounded-lg px-4 py-2">
+            <span className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              同步時有 {syncConflicts.length} 筆資料在兩台裝置上都被修改，已保留較晚的修改。
+            </span>
+            <button type="button" onClick={() => setIsSyncOpen(true)} className="underline hover:text-amber-900">
+              查看
+            </button>
+          </div>
+        )}
+        {uncalculableTransactions.length > 0 && (
+          <div className="mb-3 flex items-center justify-between gap-2 text-xs bg-red-50 border border-red-100 text-red-700 rounded-lg px-4 py-2">
+            <span className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              有 {uncalculableTransactions.length} 筆交易的金額或匯率過大，無法計算，未計入統計：
+              {uncalculableTransactions.slice(0, 3).map(t => `${t.customerName} ${t.itemName}`).join('、')}
+              {uncalculableTransactions.length > 3 ? ' 等' : ''}
+            </span>
+            <button type="button" onClick={() => handleEditTransaction(uncalculableTransactions[0])} className="underline hover:text-red-900">
+              修正
+            </button>
+          </div>
+        )}
+        {backupDue && (
+          <div className="mb-3 flex items-center justify-between gap-2 text-xs bg-yellow-50 border border-yellow-100 text-yellow-800 rounded-lg px-4 py-2">
+            <span className="flex items-center gap-2">
+              <DatabaseBackup className="w-4 h-4" />
+              {backupAge === null ? '還沒有備份過資料，清除瀏覽器資料時會全部遺失。' : `已經 ${backupAge} 天沒有備份資料了。`}
+            </span>
+            <span className="flex items-center gap-3">
+              <button type="button" onClick={handleBackup} className="underline font-bold hover:text-yellow-900">
+                立即備份
+              </button>
+              <button type="button" onClick={() => setIsBackupOpen(true)} className="underline text-yellow-600 hover:text-yellow-900">
+                備份設定
+              </button>
+            </span>
+          </div>
+        )}
+
         {/* Stats Row */}
+        {scopeToFilter && isFilterActive(filter) && (
+          <div className="mb-3 flex items-center justify-between text-xs bg-yellow-50 border border-yellow-100 text-yellow-800 rounded-lg px-4 py-2">
+            <span>統計數字僅包含篩選結果 ({filteredTransactions.length} / {transactions.length} 筆)</span>
+            <button type="button" onClick={() => setScopeToFilter(false)} className="underline hover:text-yellow-900">
+              顯示全部
+            </button>
+          </div>
+        )}
         <DashboardStats stats={stats} />
 
         {/* AI Analysis Result */}
@@ -878,19 +8683,123 @@ const App: React.FC = () => {
           {/* Left Column: Form */}
           <div className="lg:col-span-1 space-y-8">
             <TransactionForm 
-              onAddTransaction={handleAddTransaction} 
+              onAddOrder={handleAddOrder} 
+              onUpdateTransaction={handleUpdateTransaction}
+              onCancelEdit={() => setEditingTransaction(null)}
+              editingTransaction={editingTransaction}
+              appendingOrder={appendingOrder}
+              onCancelAppend={() => setAppendingOrder(null)}
+              customers={customers}
+              trips={trips}
+              countries={countries}
+              exchangeRates={exchangeRates}
+              onManageCountries={() => setIsCountryRegistryOpen(true)}
+              onManageRates={() => setIsRateTableOpen(true)}
               defaultExchangeRate={defaultRate}
+              stockItems={stockItems}
+              products={products}
+              pricingRules={pricingRules}
+              onManagePricing={() => setIsPricingOpen(true)}
+            />
+            <ReceivablesPanel transactions={transactions} paymentsByTransaction={paymentsByTransaction} />
+            <TaxRefundPanel transactions={transactions} countries={countries} onMarkReceived={handleMarkRefundsReceived} />
+            <CustomerDirectory
+              customers={customers}
+              transactions={transactions}
+              paymentsByTransaction={paymentsByTransaction}
+              allocatedCosts={allocatedCosts}
+              stockCosts={stockCosts}
+              onSelect={setSelectedCustomer}
+            />
+            <InvoicePanel invoices={invoices} onOpen={setActiveInvoice} />
+            <ShipmentPanel
+              shipments={shipments}
+              transactions={transactions}
+              onCreate={handleCreateShipment}
+              onEdit={setEditingShipment}
+              onDelete={handleDeleteShipment}
+            />
+            <ProductCatalogPanel
+              products={products}
+              countries={countries}
+              onCreate={handleCreateProduct}
+              onEdit={setEditingProduct}
+              onDelete={handleDeleteProduct}
+            />
+            <InventoryPanel
+              lots={inventoryLots}
+              ledger={inventoryLedger}
+              countries={countries}
+              onCreate={handleCreateLot}
+              onEdit={setEditingLot}
+              onDelete={handleDeleteLot}
+            />
+            <TripPanel
+              trips={trips}
+              transactions={transactions}
+              countries={countries}
+              allocatedCosts={allocatedCosts}
+              stockCosts={stockCosts}
+              onCreate={handleCreateTrip}
+              onEdit={setEditingTrip}
+              onDelete={handleDeleteTrip}
+            />
+            <CardSettlementPanel
+              settlements={cardSettlements}
+              transactions={transactions}
+              onCreate={handleCreateSettlement}
+              onEdit={setEditingSettlement}
+              onDelete={handleDeleteSettlement}
             />
           </div>
 
-          {/* Right Column: List (Chart removed) */}
+          {/* Right Column: List & Reports */}
           <div className="lg:col-span-2 space-y-8">
             <TransactionList 
-              transactions={transactions} 
+              transactions={filteredTransactions}
+              allTransactions={transactions}
+              filter={filter}
+              onFilterChange={setFilter}
+              scopeToFilter={scopeToFilter && isFilterActive(filter)}
+              onScopeChange={setScopeToFilter}
+              countries={countries}
+              paymentsByTransaction={paymentsByTransaction}
+              allocatedCosts={allocatedCosts}
+              stockCosts={stockCosts}
+              figures={transactionFigures}
+              inventoryShortfalls={inventoryLedger.shortfalls}
+              editingId={editingTransaction ? editingTransaction.id : null}
+              onEdit={handleEditTransaction}
               onDelete={handleDeleteTransaction}
+              onManagePayments={setPaymentTarget}
+              onAddToOrder={handleAddToOrder}
+              onBulkStatusChange={handleBulkStatusChange}
+              onCreateInvoice={handleCreateInvoice}
               onClearAll={handleClearAllTransactions}
-              onExport={handleExportCSV}
+              onExport={handleExportExcel}
+              onExportCsv={handleExportCSV}
+              onImport={() => setIsImportOpen(true)}
+              onShowHistory={setHistoryTarget}
+              trashCount={trash.length}
+              onOpenTrash={() => setIsTrashOpen(true)}
+            />
+            <PeriodReport transactions={transactions} allocatedCosts={allocatedCosts} stockCosts={stockCosts} />
+            <ChartsPanel
+              transactions={transactions}
+              countries={countries}
+              allocatedCosts={allocatedCosts}
+              stockCosts={stockCosts}
+              dateFrom={filter.dateFrom}
+              dateTo={filter.dateTo}
+            />
+            <ProductReport
+              products={products}
+              transactions={transactions}
+              countries={countries}
+              allocatedCosts={allocatedCosts}
+              stockCosts={stockCosts}
             />
+            <TripReport trips={trips} transactions={transactions} countries={countries} allocatedCosts={allocatedCosts} stockCosts={stockCosts} />
           </div>
         </div>
       </main>
@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addAmounts, subtractAmounts, multiplyAmounts, roundLocal, convertToLocal, lineAmount, roundUpToStep,
+  netForeignCost, localUnitCost, lineCost, lineFigures, marginRatio, marginPercent, averageUnitCost,
+  includedTax, allocateByShare, tryCalculate, percentOf, shortfallTo
+} from './money';
+
+describe('amount arithmetic', () => {
+  it('adds, subtracts and multiplies decimals exactly', () => {
+    expect(addAmounts(0.1, 0.2)).toBe(0.3);
+    expect(addAmounts()).toBe(0);
+    expect(subtractAmounts(12.3, 1.1)).toBe(11.2);
+    expect(multiplyAmounts(0.1, 3)).toBe(0.3);
+    expect(multiplyAmounts(1.15, 100)).toBe(115);
+  });
+
+  it('reads numbers written in exponent notation', () => {
+    expect(multiplyAmounts(1e21, 2)).toBe(2e21);
+    expect(convertToLocal(50_000_000, 1e-7)).toBe(5);
+  });
+
+  it('rejects amounts that are not finite', () => {
+    expect(() => roundLocal(NaN)).toThrow(RangeError);
+    expect(() => convertToLocal(100, Infinity)).toThrow(RangeError);
+  });
+});
+
+describe('tryCalculate', () => {
+  it('returns the fallback for out-of-range amounts', () => {
+    expect(tryCalculate(() => convertToLocal(1e20, 0.02), null)).toBeNull();
+    expect(tryCalculate(() => convertToLocal(NaN, 0.2), 0)).toBe(0);
+    expect(tryCalculate(() => convertToLocal(1_000, 0.2), null)).toBe(200);
+  });
+
+  it('still throws errors that are not about amounts', () => {
+    expect(() => tryCalculate(() => { throw new TypeError('bug'); }, 0)).toThrow(TypeError);
+  });
+});
+
+describe('rounding policy', () => {
+  it('rounds half away from zero by default', () => {
+    expect(roundLocal(2.5)).toBe(3);
+    expect(roundLocal(2.49)).toBe(2);
+    expect(roundLocal(-2.5)).toBe(-3);
+    expect(roundLocal(-0.4)).toBe(0);
+  });
+
+  it('rounds toward +∞ or −∞ on request', () => {
+    expect(roundLocal(2.1, 'up')).toBe(3);
+    expect(roundLocal(-2.5, 'up')).toBe(-2);
+    expect(roundLocal(2.9, 'down')).toBe(2);
+    expect(roundLocal(-2.1, 'down')).toBe(-3);
+    expect(roundLocal(7, 'up')).toBe(7);
+  });
+});
+
+describe('convertToLocal', () => {
+  it('does not lose half a dollar to binary floats', () => {
+    // 300 * 0.205 === 61.49999999999999 in plain JS
+    expect(convertToLocal(300, 0.205)).toBe(62);
+    expect(convertToLocal(15_000, 0.0235)).toBe(353);
+  });
+
+  it('handles fractional rates and costs', () => {
+    expect(convertToLocal(1_000, 0.21)).toBe(210);
+    expect(convertToLocal(0.5, 0.21)).toBe(0);
+    expect(convertToLocal(12.34, 4.567)).toBe(56);
+    expect(convertToLocal(19.99, 31.5)).toBe(630);
+  });
+
+  it('keeps huge KRW amounts exact', () => {
+    expect(convertToLocal(5_000_000_000, 0.0235)).toBe(117_500_000);
+    // 123,456,789,012 x 0.0237 = 2,925,925,899.5844
+    expect(convertToLocal(123_456_789_012, 0.0237)).toBe(2_925_925_900);
+  });
+
+  it('throws instead of returning an inexact result', () => {
+    expect(() => convertToLocal(1e20, 0.02)).toThrow(RangeError);
+    expect(() => lineAmount(Number.MAX_SAFE_INTEGER, 2)).toThrow(RangeError);
+  });
+
+  it('is zero for a zero amount or rate', () => {
+    expect(convertToLocal(0, 0.2)).toBe(0);
+    expect(convertToLocal(1_500, 0)).toBe(0);
+  });
+});
+
+describe('roundUpToStep', () => {
+  it('leaves exact multiples alone', () => {
+    expect(roundUpToStep(350, 50)).toBe(350);
+    expect(roundUpToStep(multiplyAmounts(1_000, 0.35), 10)).toBe(350);
+  });
+
+  it('rounds anything above a multiple up to the next one', () => {
+    expect(roundUpToStep(350.01, 50)).toBe(400);
+    expect(roundUpToStep(351, 10)).toBe(360);
+    expect(roundUpToStep(-35, 10)).toBe(-30);
+  });
+
+  it('treats a step of 1 or less as whole dollars', () => {
+    expect(roundUpToStep(12.3, 1)).toBe(13);
+    expect(roundUpToStep(12, 0)).toBe(12);
+  });
+});
+
+describe('markup and minimum profit', () => {
+  it('takes a percentage exactly', () => {
+    // 1.05 * 7 / 100 === 0.07350000000000001 in plain JS
+    expect(percentOf(1.05, 7)).toBe(0.0735);
+    expect(percentOf(210, 7)).toBe(14.7);
+    expect(percentOf(210, 0)).toBe(0);
+    expect(percentOf(5_000_000_000, 12.5)).toBe(625_000_000);
+  });
+
+  it('tops a price up to the minimum exactly', () => {
+    // 230 - 224.7 === 5.300000000000011 in plain JS
+    expect(shortfallTo(224.7, 230)).toBe(5.3);
+    expect(shortfallTo(230, 230)).toBe(0);
+    expect(shortfallTo(250, 230)).toBe(0);
+  });
+
+  it('prices cost + markup, tops up to the minimum profit, then rounds up', () => {
+    // ¥1,000 at 0.21 = $210 cost; 7% markup = $224.7; a $20 minimum profit needs $230; rounded up to 10
+    const localCost = multiplyAmounts(1_000, 0.21);
+    const marked = addAmounts(localCost, percentOf(localCost, 7));
+    expect(marked).toBe(224.7);
+    const topUp = shortfallTo(marked, addAmounts(localCost, 20));
+    expect(topUp).toBe(5.3);
+    const price = addAmounts(marked, topUp);
+    expect(price).toBe(230);
+    expect(roundUpToStep(price, 10)).toBe(230);
+  });
+});
+
+describe('unit and line cost', () => {
+  it('subtracts tax refunds before converting', () => {
+    expect(netForeignCost(12.3, 1.1)).toBe(11.2);
+    expect(netForeignCost(1_000)).toBe(1_000);
+    expect(localUnitCost(1_100, 0.21, 100)).toBe(210);
+    expect(localUnitCost(12.3, 0.2, 1.1)).toBe(2);
+  });
+
+  it('rounds the unit cost once and multiplies whole dollars by quantity', () => {
+    const unit = localUnitCost(333, 0.205); // 68.265
+    expect(unit).toBe(68);
+    expect(lineCost(unit, 3)).toBe(204);
+  });
+
+  it('adds the shipment share', () => {
+    expect(lineCost(210, 2, 35)).toBe(455);
+    expect(lineCost(210, 0, 35)).toBe(35);
+  });
+});
+
+describe('lineFigures', () => {
+  it('computes sales, cost, profit and margin', () => {
+    expect(lineFigures({ unitCost: 210, priceSold: 300, quantity: 2, sharedCost: 20 })).toEqual({
+      sales: 600,
+      cost: 440,
+      profit: 160,
+      margin: 160 / 600,
+    });
+  });
+
+  it('handles a zero selling price', () => {
+    expect(lineFigures({ unitCost: 200, priceSold: 0, quantity: 2 })).toEqual({ sales: 0, cost: 400, profit: -400, margin: 0 });
+  });
+
+  it('handles a zero quantity', () => {
+    expect(lineFigures({ unitCost: 200, priceSold: 300, quantity: 0 })).toEqual({ sales: 0, cost: 0, profit: 0, margin: 0 });
+  });
+
+  it('reports losses as negative profit and margin', () => {
+    const figures = lineFigures({ unitCost: 500, priceSold: 400, quantity: 1 });
+    expect(figures.profit).toBe(-100);
+    expect(figures.margin).toBe(-0.25);
+  });
+});
+
+describe('margins and averages', () => {
+  it('returns a ratio, or whole percent rounded half away from zero', () => {
+    expect(marginRatio(25, 100)).toBe(0.25);
+    expect(marginPercent(25, 100)).toBe(25);
+    expect(marginPercent(1, 8)).toBe(13);
+    expect(marginPercent(-1, 3)).toBe(-33);
+  });
+
+  it('is zero when nothing was sold', () => {
+    expect(marginRatio(-50, 0)).toBe(0);
+    expect(marginPercent(-50, 0)).toBe(0);
+  });
+
+  it('averages unit cost to whole dollars', () => {
+    expect(averageUnitCost(100, 3)).toBe(33);
+    expect(averageUnitCost(200, 3)).toBe(67);
+    expect(averageUnitCost(500, 0)).toBe(0);
+  });
+});
+
+describe('includedTax', () => {
+  it('extracts the tax from a tax-inclusive price', () => {
+    expect(includedTax(1_100, 10)).toBe(100);
+    expect(includedTax(1_080, 8)).toBe(80);
+    expect(includedTax(1_000, 8)).toBe(74);
+    expect(includedTax(19.99, 7.5)).toBe(1);
+  });
+
+  it('is zero without a tax rate', () => {
+    expect(includedTax(1_000, 0)).toBe(0);
+  });
+});
+
+describe('allocateByShare', () => {
+  it('splits in proportion and always adds back up to the total', () => {
+    expect(allocateByShare(1_000, [1, 3])).toEqual([250, 750]);
+    expect(allocateByShare(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateByShare(1_000, [0.1, 0.2])).toEqual([333, 667]);
+    const shares = allocateByShare(997, [120, 45.5, 300, 7]);
+    expect(shares.reduce((a, b) => a + b, 0)).toBe(997);
+  });
+
+  it('gives the rounding difference to the largest basis', () => {
+    expect(allocateByShare(10, [1, 5, 1])).toEqual([1, 8, 1]);
+  });
+
+  it('returns zeros when there is nothing to split by', () => {
+    expect(allocateByShare(500, [0, 0])).toEqual([0, 0]);
+    expect(allocateByShare(500, [])).toEqual([]);
+  });
+
+  it('handles huge KRW-sized totals', () => {
+    expect(allocateByShare(3_000_000_000, [1, 2])).toEqual([1_000_000_000, 2_000_000_000]);
+  });
+});
@@ -0,0 +1,202 @@
+// ==========================================
+// MONEY & COST CALCULATIONS
+// ==========================================
+// The one definition of unit cost, line cost, profit and margin used by the form, the list, the reports and
+// every export. Pure functions only: no React, no storage.
+//
+// Rounding policy:
+// - Local currency amounts are whole dollars (the smallest unit the shop deals in), held as integers.
+// - Foreign costs and exchange rates are decimals. They are multiplied as exact decimals, never as binary
+//   floats, so e.g. ¥300 x 0.205 is exactly $61.5 and rounds to $62 (as floats it is 61.4999... and rounds to $61).
+// - Foreign amounts are converted to local currency per unit and rounded once, half away from zero.
+//   Line totals, profits and report totals are integer sums of those per-unit figures, so they add up exactly.
+// - Averages and proportional shares are rounded half away from zero; a split puts the remainder on the
+//   largest share so the parts always add up to the whole.
+// - Amounts that are not finite, and results too large to hold exactly in a JS number, throw a RangeError
+//   instead of silently losing precision. Code that runs while rendering wraps calculations in tryCalculate.
+
+export type Rounding = 'half-up' | 'up' | 'down'; // half-up: half away from zero; up: toward +∞; down: toward −∞
+
+// --- Exact decimals ---
+// value = units / 10^scale
+interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+const pow10 = (n: number): bigint => 10n ** BigInt(n);
+
+// Reads a number by its shortest round-trip text, so 0.1 is the decimal 0.1 rather than its binary approximation
+const toDecimal = (value: number): Decimal => {
+  if (!Number.isFinite(value)) throw new RangeError(`Not a finite amount: ${value}`);
+  const [mantissa, exponentText] = String(value).toLowerCase().split('e');
+  const negative = mantissa.startsWith('-');
+  const [integerPart, fractionPart = ''] = mantissa.replace('-', '').split('.');
+  const scale = fractionPart.length - (exponentText ? parseInt(exponentText, 10) : 0);
+  const digits = BigInt(integerPart + fractionPart);
+  const units = scale < 0 ? digits * pow10(-scale) : digits;
+  return { units: negative ? -units : units, scale: Math.max(scale, 0) };
+};
+
+const withScale = (d: Decimal, scale: number): bigint => d.units * pow10(scale - d.scale);
+
+const addDecimals = (a: Decimal, b: Decimal): Decimal => {
+  const scale = Math.max(a.scale, b.scale);
+  return { units: withScale(a, scale) + withScale(b, scale), scale };
+};
+
+const multiplyDecimals = (a: Decimal, b: Decimal): Decimal => ({ units: a.units * b.units, scale: a.scale + b.scale });
+
+const negate = (d: Decimal): Decimal => ({ units: -d.units, scale: d.scale });
+
+// n / d rounded to an integer
+const divideRounded = (n: bigint, d: bigint, rounding: Rounding): bigint => {
+  if (d === 0n) throw new RangeError('Division by zero');
+  if (d < 0n) {
+    n = -n;
+    d = -d;
+  }
+  const quotient = n / d; // Truncated toward zero
+  const remainder = n % d;
+  if (remainder === 0n) return quotient;
+  const awayFromZero = n < 0n ? quotient - 1n : quotient + 1n;
+  switch (rounding) {
+    case 'up': return n > 0n ? awayFromZero : quotient;
+    case 'down': return n < 0n ? awayFromZero : quotient;
+    case 'half-up': return 2n * (remainder < 0n ? -remainder : remainder) >= d ? awayFromZero : quotient;
+  }
+};
+
+const roundDecimal = (d: Decimal, rounding: Rounding): bigint => divideRounded(d.units, pow10(d.scale), rounding);
+
+const toSafeInteger = (value: bigint): number => {
+  const n = Number(value);
+  if (!Number.isSafeInteger(n)) throw new RangeError(`Amount ${value} is too large to calculate exactly`);
+  return n;
+};
+
+// Back to a number; exact for any decimal a user can type, nearest double for long intermediate products
+const toNumber = (d: Decimal): number => {
+  const negative = d.units < 0n;
+  const digits = (negative ? -d.units : d.units).toString().padStart(d.scale + 1, '0');
+  const text = d.scale > 0 ? `${digits.slice(0, -d.scale)}.${digits.slice(-d.scale)}` : digits;
+  return Number(negative ? `-${text}` : text);
+};
+
+// Runs a calculation, returning fallback when an amount is out of range; any other error still throws
+export const tryCalculate = <T>(calculate: () => T, fallback: T): T => {
+  try {
+    return calculate();
+  } catch (e) {
+    if (e instanceof RangeError) return fallback;
+    throw e;
+  }
+};
+
+// --- Amount arithmetic ---
+export const addAmounts = (...amounts: number[]): number =>
+  toNumber(amounts.map(toDecimal).reduce(addDecimals, { units: 0n, scale: 0 }));
+
+export const subtractAmounts = (a: number, b: number): number => toNumber(addDecimals(toDecimal(a), negate(toDecimal(b))));
+
+export const multiplyAmounts = (a: number, b: number): number => toNumber(multiplyDecimals(toDecimal(a), toDecimal(b)));
+
+// percent% of amount, e.g. 7% of 1.05 is exactly 0.0735
+export const percentOf = (amount: number, percent: number): number => {
+  const product = multiplyDecimals(toDecimal(amount), toDecimal(percent));
+  return toNumber({ units: product.units, scale: product.scale + 2 });
+};
+
+// What has to be added to amount to reach minimum; 0 when it already does
+export const shortfallTo = (amount: number, minimum: number): number => {
+  const gap = addDecimals(toDecimal(minimum), negate(toDecimal(amount)));
+  return gap.units > 0n ? toNumber(gap) : 0;
+};
+
+// Rounds to whole local currency units
+export const roundLocal = (amount: number, rounding: Rounding = 'half-up'): number =>
+  toSafeInteger(roundDecimal(toDecimal(amount), rounding));
+
+// Foreign amount x exchange rate, in whole local currency units
+export const convertToLocal = (foreignAmount: number, rate: number, rounding: Rounding = 'half-up'): number =>
+  toSafeInteger(roundDecimal(multiplyDecimals(toDecimal(foreignAmount), toDecimal(rate)), rounding));
+
+// Per-unit amount x quantity, in whole local currency units
+export const lineAmount = (unitAmount: number, quantity: number): number => convertToLocal(unitAmount, quantity);
+
+// Rounds up to the next multiple of step (e.g. 10 or 50); a step of 1 or less rounds up to a whole unit
+export const roundUpToStep = (amount: number, step: number): number => {
+  const size = toDecimal(step > 1 ? step : 1);
+  const value = toDecimal(amount);
+  const scale = Math.max(value.scale, size.scale);
+  const steps = divideRounded(withScale(value, scale), withScale(size, scale), 'up');
+  return toSafeInteger(roundDecimal(multiplyDecimals({ units: steps, scale: 0 }, size), 'up'));
+};
+
+// a / b rounded, computed exactly; 0 when b is 0
+const ratioRounded = (a: number, b: number, factor: number, rounding: Rounding): number => {
+  if (b === 0) return 0;
+  const numerator = multiplyDecimals(toDecimal(a), toDecimal(factor));
+  const denominator = toDecimal(b);
+  const scale = Math.max(numerator.scale, denominator.scale);
+  return toSafeInteger(divideRounded(withScale(numerator, scale), withScale(denominator, scale), rounding));
+};
+
+// --- Cost, profit and margin ---
+// Foreign cost per unit after a tax refund, e.g. ¥12.3 − ¥1.1 = ¥11.2 exactly
+export const netForeignCost = (costForeign: number, refundPerUnit = 0): number =>
+  refundPerUnit ? subtractAmounts(costForeign, refundPerUnit) : costForeign;
+
+// Local cost of one unit: net foreign cost x the cost exchange rate, rounded once
+export const localUnitCost = (costForeign: number, exchangeRate: number, refundPerUnit = 0): number =>
+  convertToLocal(netForeignCost(costForeign, refundPerUnit), exchangeRate);
+
+export interface LineInput {
+  unitCost: number;    // Local cost per unit, from localUnitCost or a stock lot
+  priceSold: number;   // Local selling price per unit
+  quantity: number;
+  sharedCost?: number; // This line's share of shipment costs (freight, duty...), in local currency
+}
+
+export interface LineFigures {
+  sales: number;
+  cost: number;
+  profit: number;
+  margin: number; // profit / sales as a ratio (0.25 = 25%); 0 when nothing was sold
+}
+
+export const lineCost = (unitCost: number, quantity: number, sharedCost = 0): number =>
+  lineAmount(unitCost, quantity) + roundLocal(sharedCost);
+
+export const lineFigures = ({ unitCost, priceSold, quantity, sharedCost = 0 }: LineInput): LineFigures => {
+  const sales = lineAmount(priceSold, quantity);
+  const cost = lineCost(unitCost, quantity, sharedCost);
+  const profit = sales - cost;
+  return { sales, cost, profit, margin: marginRatio(profit, sales) };
+};
+
+export const marginRatio = (profit: number, sales: number): number => sales > 0 ? profit / sales : 0;
+
+// Margin in whole percent, rounded half away from zero
+export const marginPercent = (profit: number, sales: number): number =>
+  sales > 0 ? ratioRounded(profit, sales, 100, 'half-up') : 0;
+
+// Average cost of one unit out of a local total, e.g. stock on hand or a FIFO draw
+export const averageUnitCost = (total: number, quantity: number): number =>
+  quantity > 0 ? ratioRounded(total, quantity, 1, 'half-up') : 0;
+
+// Tax contained in a tax-inclusive price, e.g. ¥1,100 at 10% holds ¥100
+export const includedTax = (taxInclusivePrice: number, taxRatePercent: number): number =>
+  taxRatePercent > 0 ? ratioRounded(multiplyAmounts(taxInclusivePrice, taxRatePercent), addAmounts(100, taxRatePercent), 1, 'half-up') : 0;
+
+// Splits a local total in proportion to bases (weight, value, quantity...). Each share is rounded and the
+// rounding difference goes to the largest basis, so the shares always add up to the total.
+// Returns all zeros when the bases add up to nothing.
+export const allocateByShare = (total: number, bases: number[]): number[] => {
+  const totalBasis = addAmounts(...bases);
+  if (bases.length === 0 || totalBasis <= 0) return bases.map(() => 0);
+  const shares = bases.map(basis => ratioRounded(multiplyAmounts(total, basis), totalBasis, 1, 'half-up'));
+  const largest = bases.reduce((best, basis, i) => basis > bases[best] ? i : best, 0);
+  shares[largest] += roundLocal(total) - shares.reduce((sum, share) => sum + share, 0);
+  return shares;
+};
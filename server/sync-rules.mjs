@@ -0,0 +1,116 @@
+// ==========================================
+// SYNC RULES
+// ==========================================
+// How the sync server stores changes and settles clashes, kept apart from the HTTP and file handling in
+// sync-server.mjs so the rules can be tested on their own. Plain JavaScript with no dependencies.
+
+/**
+ * @typedef {{ rev: number, updatedAt: string, deviceId: string, deviceName: string, deleted: boolean, data: unknown }} StoredRecord
+ * @typedef {{ serverId: string, revision: number, collections: Record<string, Record<string, StoredRecord>> }} Database
+ * @typedef {{ collection: string, id: string, baseRev: number, updatedAt: string, deviceId: string, deviceName?: string, deleted?: boolean, data?: unknown }} Change
+ */
+
+export const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,63}$/;
+
+// Names every plain object inherits (constructor, hasOwnProperty, __proto__...); refused as collection names
+// and record ids. The maps below have no prototype and are only read through Object.hasOwn as well.
+const RESERVED_KEYS = new Set(Object.getOwnPropertyNames(Object.prototype));
+
+/** @returns {Database} */
+export const createDatabase = (serverId) => ({ serverId, revision: 0, collections: Object.create(null) });
+
+// Rebuilds a database read back from JSON with the same prototype-free maps
+/** @returns {Database} */
+export const fromStoredJson = (parsed) => {
+  const collections = Object.create(null);
+  Object.entries(parsed.collections || {}).forEach(([name, records]) => {
+    collections[name] = Object.assign(Object.create(null), records);
+  });
+  return { serverId: parsed.serverId, revision: parsed.revision, collections };
+};
+
+/** @returns {StoredRecord | undefined} */
+export const findRecord = (db, collection, id) => {
+  if (!Object.hasOwn(db.collections, collection)) return undefined;
+  const records = db.collections[collection];
+  return Object.hasOwn(records, id) ? records[id] : undefined;
+};
+
+// Later edit wins; ties go to the higher device id so every device reaches the same answer
+export const isNewer = (a, b) => a.updatedAt > b.updatedAt || (a.updatedAt === b.updatedAt && a.deviceId > b.deviceId);
+
+export const toChange = (collection, id, record) => ({ collection, id, ...record });
+
+const writeRecord = (db, records, change, deleted, data) => {
+  db.revision += 1;
+  const stored = {
+    rev: db.revision,
+    updatedAt: change.updatedAt,
+    deviceId: change.deviceId,
+    deviceName: change.deviceName || '',
+    deleted,
+    data,
+  };
+  records[change.id] = stored;
+  return stored;
+};
+
+/**
+ * Applies one upsert or delete to db. Returns the record now on the server, whether the change was used,
+ * and the version it replaced when that version was written by someone the client had not seen yet.
+ * @param {Database} db
+ * @param {Change} change
+ */
+export const applyChange = (db, change) => {
+  const { collection, id } = change;
+  if (!Object.hasOwn(db.collections, collection)) db.collections[collection] = Object.create(null);
+  const records = db.collections[collection];
+  const existing = findRecord(db, collection, id);
+  const deleted = change.deleted === true;
+  const data = deleted ? null : change.data;
+
+  if (existing) {
+    const unseen = existing.rev > change.baseRev;
+    const sameContent = existing.deleted === deleted && JSON.stringify(existing.data) === JSON.stringify(data);
+    // A retry of a change already stored, or both devices made the same edit
+    if (sameContent) return { result: 'applied', record: toChange(collection, id, existing) };
+    if (unseen && !isNewer(change, existing)) {
+      return { result: 'rejected', record: toChange(collection, id, existing) };
+    }
+    const stored = writeRecord(db, records, change, deleted, data);
+    return unseen
+      ? { result: 'applied', record: toChange(collection, id, stored), overwritten: toChange(collection, id, existing) }
+      : { result: 'applied', record: toChange(collection, id, stored) };
+  }
+
+  // Deleting something the server never had needs no tombstone
+  if (deleted) return { result: 'applied', record: null };
+  return { result: 'applied', record: toChange(collection, id, writeRecord(db, records, change, deleted, data)) };
+};
+
+/**
+ * Every record (including tombstones) written after revision since, oldest first
+ * @param {Database} db
+ * @param {number} since
+ */
+export const listChanges = (db, since) => {
+  const changes = [];
+  Object.entries(db.collections).forEach(([collection, records]) => {
+    Object.entries(records).forEach(([id, record]) => {
+      if (record.rev > since) changes.push(toChange(collection, id, record));
+    });
+  });
+  return changes.sort((a, b) => a.rev - b.rev);
+};
+
+// Returns an error message, or null when the change is well formed
+export const validateChange = (change) => {
+  if (!change || typeof change !== 'object') return 'Change must be an object';
+  if (!NAME_PATTERN.test(change.collection || '') || RESERVED_KEYS.has(change.collection)) return 'Invalid collection name';
+  if (typeof change.id !== 'string' || change.id === '' || change.id.length > 200 || RESERVED_KEYS.has(change.id)) return 'Invalid record id';
+  if (!Number.isInteger(change.baseRev) || change.baseRev < 0) return 'baseRev must be a non-negative integer';
+  if (typeof change.updatedAt !== 'string' || isNaN(Date.parse(change.updatedAt))) return 'updatedAt must be an ISO timestamp';
+  if (typeof change.deviceId !== 'string' || change.deviceId === '') return 'deviceId is required';
+  if (change.deleted !== true && (change.data === undefined || change.data === null)) return 'data is required unless deleting';
+  return null;
+};
@@ -0,0 +1,198 @@
+// ==========================================
+// SYNC SERVER
+// ==========================================
+// A small self-hosted server that lets several devices share the app's data. It has no dependencies,
+// so it runs anywhere Node 18+ is available (a home NAS, a Raspberry Pi, a laptop):
+//
+//   SYNC_TOKEN=secret node server/sync-server.mjs
+//
+// Every write gets the next value of one global revision counter, so a client can ask for
+// "everything after revision N". Deletes are kept as tombstones so other devices learn about them.
+// When two devices change the same record, the change with the later edit time wins (last writer wins)
+// and the response tells the client which version was lost.
+//
+// Environment:
+//   PORT         Port to listen on (default 8787)
+//   HOST         Interface to bind (default 0.0.0.0)
+//   DATA_FILE    Where records are kept (default server/data/sync-db.json)
+//   SYNC_TOKEN   When set, requests must send "Authorization: Bearer <token>"
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import {
+  NAME_PATTERN, applyChange, createDatabase, findRecord, fromStoredJson, listChanges, toChange, validateChange
+} from './sync-rules.mjs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '0.0.0.0';
+const DATA_FILE = process.env.DATA_FILE || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'sync-db.json');
+const SYNC_TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+/** @typedef {import('./sync-rules.mjs').Database} Database */
+
+// --- Persistence ---
+/** @returns {Database} */
+const loadDatabase = () => {
+  try {
+    return fromStoredJson(JSON.parse(fs.readFileSync(DATA_FILE, 'utf8')));
+  } catch (e) {
+    if (e.code !== 'ENOENT') throw new Error(`Cannot read ${DATA_FILE}: ${e.message}`);
+    return createDatabase(crypto.randomUUID());
+  }
+};
+
+// Written to a temporary file first so a crash mid-write never leaves a truncated database
+const saveDatabase = (db) => {
+  fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+  const temp = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(db));
+  fs.renameSync(temp, DATA_FILE);
+};
+
+const db = loadDatabase();
+
+// --- HTTP ---
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (chunks.length === 0) return resolve({});
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const isAuthorized = (req) => {
+  if (!SYNC_TOKEN) return true;
+  const expected = Buffer.from(`Bearer ${SYNC_TOKEN}`);
+  const given = Buffer.from(req.headers.authorization || '');
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+// Runs changes in order and saves once; a bad change fails the whole request before anything is written
+const applyChanges = (changes) => {
+  changes.forEach((change, i) => {
+    const error = validateChange(change);
+    if (error) throw new HttpError(400, changes.length > 1 ? `Change ${i + 1}: ${error}` : error);
+  });
+  const before = db.revision;
+  const results = changes.map(change => applyChange(db, change));
+  if (db.revision !== before) saveDatabase(db);
+  return results;
+};
+
+// Path segments, decoded; a malformed escape such as %E0 is the client's mistake, not a server error
+const splitPath = (pathname) => {
+  try {
+    return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    throw new HttpError(400, 'Malformed URL path');
+  }
+};
+
+const handle = async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const parts = splitPath(url.pathname);
+
+  if (parts[0] !== 'api') throw new HttpError(404, 'Not found');
+  if (!isAuthorized(req)) throw new HttpError(401, 'Missing or wrong sync token');
+
+  // GET /api/health
+  if (parts[1] === 'health' && parts.length === 2 && req.method === 'GET') {
+    return send(res, 200, { ok: true, serverId: db.serverId, revision: db.revision });
+  }
+
+  // GET /api/changes?since=N  -> every record (including tombstones) written after revision N
+  if (parts[1] === 'changes' && parts.length === 2 && req.method === 'GET') {
+    const since = Number(url.searchParams.get('since') || 0);
+    if (!Number.isInteger(since) || since < 0) throw new HttpError(400, 'since must be a non-negative integer');
+    return send(res, 200, { serverId: db.serverId, revision: db.revision, changes: listChanges(db, since) });
+  }
+
+  // POST /api/push  { changes: Change[] }  -> one result per change, in order
+  if (parts[1] === 'push' && parts.length === 2 && req.method === 'POST') {
+    const body = await readBody(req);
+    if (!Array.isArray(body.changes)) throw new HttpError(400, 'changes must be a list');
+    const results = applyChanges(body.changes);
+    return send(res, 200, { serverId: db.serverId, revision: db.revision, results });
+  }
+
+  // /api/collections/:collection/records[/:id]
+  if (parts[1] === 'collections' && parts[3] === 'records' && NAME_PATTERN.test(parts[2] || '')) {
+    const collection = parts[2];
+    const id = parts[4];
+
+    if (parts.length === 4 && req.method === 'GET') {
+      const since = Number(url.searchParams.get('since') || 0);
+      if (!Number.isInteger(since) || since < 0) throw new HttpError(400, 'since must be a non-negative integer');
+      const changes = listChanges(db, since).filter(c => c.collection === collection);
+      return send(res, 200, { serverId: db.serverId, revision: db.revision, changes });
+    }
+
+    if (parts.length === 5) {
+      if (req.method === 'GET') {
+        const record = findRecord(db, collection, id);
+        if (!record) throw new HttpError(404, 'Record not found');
+        return send(res, 200, toChange(collection, id, record));
+      }
+      // PUT body: { baseRev, updatedAt, deviceId, deviceName?, data }
+      // DELETE body: { baseRev, updatedAt, deviceId, deviceName? }
+      if (req.method === 'PUT' || req.method === 'DELETE') {
+        const body = await readBody(req);
+        const [result] = applyChanges([{ ...body, collection, id, deleted: req.method === 'DELETE' }]);
+        return send(res, 200, { serverId: db.serverId, revision: db.revision, ...result });
+      }
+    }
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+const server = http.createServer((req, res) => {
+  // The app is served from another origin (the Vite dev server or a static host)
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  handle(req, res).catch(e => {
+    if (!(e instanceof HttpError)) console.error(e);
+    send(res, e instanceof HttpError ? e.status : 500, { error: e instanceof HttpError ? e.message : 'Internal server error' });
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Sync server listening on http://${HOST}:${PORT} (data: ${DATA_FILE}, revision ${db.revision}${SYNC_TOKEN ? ', token required' : ''})`);
+});
@@ -0,0 +1,493 @@
+// ==========================================
+// PERSISTENCE (IndexedDB repository)
+// ==========================================
+// Every collection lives in its own object store keyed by record id, so a save only writes the records
+// that changed. The shape of the stored records is versioned separately from the IndexedDB layout:
+// MIGRATIONS upgrade older data step by step, and anything that cannot be read is moved to the
+// quarantine store instead of being dropped.
+
+import type {
+  Transaction, Customer, Payment, Shipment, InventoryLot, Product, Trip, SourcingCountry, ExchangeRateEntry,
+  CardSettlement, PricingRule, Invoice, TrashEntry, TransactionChange
+} from './types';
+
+export const SCHEMA_VERSION = 2;
+
+const DB_NAME = 'daigou';
+const DB_VERSION = 2; // Object store layout; bump only when stores are added or removed
+
+// The record kept in each collection, once migrated to the current schema version
+export interface CollectionRecords {
+  transactions: Transaction;
+  customers: Customer;
+  payments: Payment;
+  shipments: Shipment;
+  inventoryLots: InventoryLot;
+  products: Product;
+  trips: Trip;
+  countries: SourcingCountry;
+  exchangeRates: ExchangeRateEntry;
+  cardSettlements: CardSettlement;
+  pricingRules: PricingRule;
+  invoices: Invoice;
+  trash: TrashEntry;
+  changeLog: TransactionChange;
+}
+
+export type CollectionName = keyof CollectionRecords;
+
+export type StoredCollections = { [K in CollectionName]: CollectionRecords[K][] };
+
+export type SettingName =
+  | 'defaultRate' | 'invoiceSettings' | 'lastBackupAt' | 'backupReminderDays'
+  | 'syncSettings' | 'syncState' | 'syncConflicts';
+
+// keyPath of each store, and the localStorage key the collection was kept under before this module (if it existed then)
+const COLLECTIONS: Record<CollectionName, { keyPath: string; legacyKey?: string }> = {
+  transactions: { keyPath: 'id', legacyKey: 'daigou_transactions' },
+  customers: { keyPath: 'id', legacyKey: 'daigou_customers' },
+  payments: { keyPath: 'id', legacyKey: 'daigou_payments' },
+  shipments: { keyPath: 'id', legacyKey: 'daigou_shipments' },
+  inventoryLots: { keyPath: 'id', legacyKey: 'daigou_inventory_lots' },
+  products: { keyPath: 'id', legacyKey: 'daigou_products' },
+  trips: { keyPath: 'id', legacyKey: 'daigou_trips' },
+  countries: { keyPath: 'code', legacyKey: 'daigou_countries' },
+  exchangeRates: { keyPath: 'id', legacyKey: 'daigou_exchange_rates' },
+  cardSettlements: { keyPath: 'id', legacyKey: 'daigou_card_settlements' },
+  pricingRules: { keyPath: 'id', legacyKey: 'daigou_pricing_rules' },
+  invoices: { keyPath: 'id', legacyKey: 'daigou_invoices' },
+  trash: { keyPath: 'id' },
+  changeLog: { keyPath: 'id' },
+};
+
+export const COLLECTION_NAMES = Object.keys(COLLECTIONS) as CollectionName[];
+
+const keyOf = (name: CollectionName, record: object): IDBValidKey =>
+  (record as StoredRecord)[COLLECTIONS[name].keyPath] as IDBValidKey;
+
+export const recordKey = (name: CollectionName, record: object): string => String(keyOf(name, record));
+
+const LEGACY_SETTINGS = {
+  defaultRate: 'daigou_default_rate',
+  invoiceSettings: 'daigou_invoice_settings',
+};
+
+// Settings about this browser rather than the shop's data; they stay out of backup files
+const DEVICE_SETTINGS: SettingName[] = ['lastBackupAt', 'backupReminderDays', 'syncSettings', 'syncState', 'syncConflicts'];
+const isBackedUpSetting = (key: string): boolean =>
+  (['defaultRate', 'invoiceSettings'] as string[]).includes(key);
+
+// A record as read from IndexedDB, localStorage or a backup file, before it is migrated
+type StoredRecord = Record<string, unknown>;
+
+export interface StoredData {
+  collections: StoredCollections;
+  settings: Partial<Record<SettingName, unknown>>;
+}
+
+// Stored data of any schema version; migrateStoredData turns it into StoredData
+interface RawData {
+  collections: Record<CollectionName, StoredRecord[]>;
+  settings: Partial<Record<SettingName, unknown>>;
+}
+
+export interface QuarantineEntry {
+  id?: number;
+  source: string; // Where it came from, e.g. 'localStorage:daigou_transactions' or 'transactions'
+  raw: string;    // The unreadable value exactly as found (JSON for records)
+  reason: string;
+  at: string;     // ISO timestamp it was quarantined
+}
+
+export interface LoadResult {
+  data: StoredData;
+  quarantined: number;     // Entries waiting in quarantine, including ones from earlier loads
+  importedLegacy: boolean; // This load moved the old localStorage data into IndexedDB
+}
+
+// --- Schema migrations ---
+// Version 1 is the record shape the app wrote to localStorage before this module existed.
+interface Migration {
+  to: number;
+  description: string;
+  migrate: (data: RawData) => RawData;
+}
+
+const renameField = (record: StoredRecord, from: string, to: string): StoredRecord => {
+  if (!(from in record)) return record;
+  const { [from]: value, ...rest } = record;
+  return to in rest ? rest : { ...rest, [to]: value };
+};
+
+const mapCollection = (data: RawData, name: CollectionName, fn: (r: StoredRecord) => StoredRecord): RawData => ({
+  ...data,
+  collections: { ...data.collections, [name]: data.collections[name].map(fn) },
+});
+
+const MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    description: 'Rename costJpy to costForeign; the cost is in whichever currency the item was bought in',
+    migrate: data => ['transactions', 'inventoryLots'].reduce(
+      (acc, name) => mapCollection(acc, name as CollectionName, r => renameField(r, 'costJpy', 'costForeign')),
+      data
+    ),
+  },
+];
+
+// After the migrations every record has the current shape, so this is where raw records become typed ones
+export const migrateStoredData = (data: RawData, fromVersion: number): StoredData =>
+  MIGRATIONS
+    .filter(m => m.to > fromVersion && m.to <= SCHEMA_VERSION)
+    .reduce((acc, m) => m.migrate(acc), data) as unknown as StoredData;
+
+const emptyRawData = (): RawData => ({
+  collections: Object.fromEntries(COLLECTION_NAMES.map(name => [name, []])) as Record<CollectionName, StoredRecord[]>,
+  settings: {},
+});
+
+// Splits parsed records into storable ones and ones to quarantine (not an object, or no usable key)
+const validateRecords = (name: CollectionName, source: string, values: unknown[], quarantine: QuarantineEntry[]): StoredRecord[] => {
+  const { keyPath } = COLLECTIONS[name];
+  const at = new Date().toISOString();
+  return values.filter((value): value is StoredRecord => {
+    const key = value && typeof value === 'object' && !Array.isArray(value) ? (value as StoredRecord)[keyPath] : undefined;
+    if (typeof key === 'string' ? key !== '' : typeof key === 'number') return true;
+    quarantine.push({ source, raw: JSON.stringify(value) ?? String(value), reason: `Record has no valid ${keyPath}`, at });
+    return false;
+  });
+};
+
+// JSON of each record by key, for comparing saved and incoming versions
+const snapshotOf = (name: CollectionName, records: object[]): Map<IDBValidKey, string> =>
+  new Map(records.map(r => [keyOf(name, r), JSON.stringify(r)]));
+
+// --- Backup files ---
+// A backup is the stored records exactly as kept in IndexedDB plus the schema version they follow,
+// so a restore runs the same migrations as a load and nothing (ids, selling rates, ...) is lost.
+const BACKUP_FORMAT = 'daigou-backup';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  collections: StoredCollections;
+  settings: Partial<Record<SettingName, unknown>>;
+}
+
+export interface ParsedBackup {
+  data: StoredData;
+  exportedAt: string;
+  schemaVersion: number;        // Version the file was written with, before migration
+  rejected: QuarantineEntry[];  // Records in the file that could not be used
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface CollectionDiff {
+  added: number;     // In the file only
+  changed: number;   // Same key, different content
+  unchanged: number;
+  missing: number;   // In the current data only; removed by a replace, kept by a merge
+}
+
+export const createBackup = (data: StoredData): BackupFile => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  collections: data.collections,
+  settings: Object.fromEntries(Object.entries(data.settings).filter(([key]) => isBackedUpSetting(key))),
+});
+
+// Throws with a readable message when the text is not a backup this app can restore
+export const parseBackup = (text: string): ParsedBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`);
+  }
+  const file = parsed as Partial<BackupFile> | null;
+  if (!file || typeof file !== 'object' || file.format !== BACKUP_FORMAT) {
+    throw new Error('Not a backup file created by this app');
+  }
+  const version = file.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Backup file has no valid schema version');
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Backup is schema version ${version}, newer than this app (${SCHEMA_VERSION})`);
+  }
+
+  const rejected: QuarantineEntry[] = [];
+  const data = emptyRawData();
+  const collections = (file.collections && typeof file.collections === 'object' ? file.collections : {}) as Record<string, unknown>;
+  COLLECTION_NAMES.forEach(name => {
+    const values = collections[name];
+    if (values === undefined) return;
+    if (!Array.isArray(values)) {
+      rejected.push({ source: `backup:${name}`, raw: JSON.stringify(values), reason: 'Expected a list of records', at: new Date().toISOString() });
+      return;
+    }
+    data.collections[name] = validateRecords(name, `backup:${name}`, values, rejected);
+  });
+  if (file.settings && typeof file.settings === 'object') {
+    data.settings = Object.fromEntries(Object.entries(file.settings).filter(([key]) => isBackedUpSetting(key)));
+  }
+
+  return {
+    data: migrateStoredData(data, version),
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+    schemaVersion: version,
+    rejected,
+  };
+};
+
+export const diffStoredData = (current: StoredData, incoming: StoredData): Record<CollectionName, CollectionDiff> =>
+  Object.fromEntries(COLLECTION_NAMES.map(name => {
+    const existing = snapshotOf(name, current.collections[name]);
+    const next = snapshotOf(name, incoming.collections[name]);
+    const diff: CollectionDiff = { added: 0, changed: 0, unchanged: 0, missing: 0 };
+    next.forEach((json, key) => {
+      if (!existing.has(key)) diff.added++;
+      else if (existing.get(key) === json) diff.unchanged++;
+      else diff.changed++;
+    });
+    existing.forEach((_, key) => { if (!next.has(key)) diff.missing++; });
+    return [name, diff];
+  })) as Record<CollectionName, CollectionDiff>;
+
+// Replace takes the file as-is; merge keeps current records, overwrites same-key ones with the file's
+// version and appends the rest. Settings in the file only fill in ones missing here when merging.
+export const restoreStoredData = (current: StoredData, incoming: StoredData, mode: RestoreMode): StoredData => {
+  const deviceSettings = Object.fromEntries(
+    Object.entries(current.settings).filter(([key]) => DEVICE_SETTINGS.includes(key as SettingName))
+  );
+  if (mode === 'replace') {
+    return { collections: incoming.collections, settings: { ...incoming.settings, ...deviceSettings } };
+  }
+  const collections = Object.fromEntries(COLLECTION_NAMES.map(name =>
+    [name, mergeRecords(name, current.collections[name], incoming.collections[name])]
+  )) as StoredCollections;
+  return { collections, settings: { ...incoming.settings, ...current.settings } };
+};
+
+const mergeRecords = (name: CollectionName, current: object[], incoming: object[]): object[] => {
+  const byKey = new Map(incoming.map(r => [keyOf(name, r), r]));
+  const merged = current.map(r => {
+    const replacement = byKey.get(keyOf(name, r));
+    byKey.delete(keyOf(name, r));
+    return replacement || r;
+  });
+  return [...merged, ...byKey.values()];
+};
+
+// --- IndexedDB plumbing ---
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        COLLECTION_NAMES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: COLLECTIONS[name].keyPath });
+        });
+        if (!db.objectStoreNames.contains('settings')) db.createObjectStore('settings', { keyPath: 'key' });
+        if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta', { keyPath: 'key' });
+        if (!db.objectStoreNames.contains('quarantine')) db.createObjectStore('quarantine', { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another open tab'));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+interface Meta {
+  schemaVersion?: number;
+  legacyImported?: boolean;
+}
+
+const readMeta = async (db: IDBDatabase): Promise<Meta> => {
+  const tx = db.transaction('meta', 'readonly');
+  const rows = await requestToPromise(tx.objectStore('meta').getAll()) as { key: string; value: unknown }[];
+  return Object.fromEntries(rows.map(row => [row.key, row.value])) as Meta;
+};
+
+const readAllStores = async (db: IDBDatabase, quarantine: QuarantineEntry[]): Promise<RawData> => {
+  const tx = db.transaction([...COLLECTION_NAMES, 'settings'], 'readonly');
+  const [lists, settingRows] = await Promise.all([
+    Promise.all(COLLECTION_NAMES.map(name => requestToPromise(tx.objectStore(name).getAll()))),
+    requestToPromise(tx.objectStore('settings').getAll()) as Promise<{ key: SettingName; value: unknown }[]>,
+  ]);
+  return {
+    collections: Object.fromEntries(COLLECTION_NAMES.map((name, i) => [name, validateRecords(name, name, lists[i], quarantine)])) as Record<CollectionName, StoredRecord[]>,
+    settings: Object.fromEntries(settingRows.map(row => [row.key, row.value])),
+  };
+};
+
+// Reads the pre-IndexedDB localStorage keys. Nothing unreadable is thrown away, and the keys are left in place.
+const readLegacyStorage = (quarantine: QuarantineEntry[]): RawData => {
+  const data = emptyRawData();
+  const at = new Date().toISOString();
+
+  COLLECTION_NAMES.forEach(name => {
+    const key = COLLECTIONS[name].legacyKey;
+    if (!key) return;
+    const raw = localStorage.getItem(key);
+    if (raw === null) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (e) {
+      quarantine.push({ source: `localStorage:${key}`, raw, reason: `Invalid JSON: ${(e as Error).message}`, at });
+      return;
+    }
+    if (!Array.isArray(parsed)) {
+      quarantine.push({ source: `localStorage:${key}`, raw, reason: 'Expected a list of records', at });
+      return;
+    }
+    data.collections[name] = validateRecords(name, `localStorage:${key}`, parsed, quarantine);
+  });
+
+  const rate = localStorage.getItem(LEGACY_SETTINGS.defaultRate);
+  if (rate !== null) {
+    const value = parseFloat(rate);
+    if (isNaN(value)) {
+      quarantine.push({ source: `localStorage:${LEGACY_SETTINGS.defaultRate}`, raw: rate, reason: 'Not a number', at });
+    } else {
+      data.settings.defaultRate = value;
+    }
+  }
+  const invoiceSettings = localStorage.getItem(LEGACY_SETTINGS.invoiceSettings);
+  if (invoiceSettings !== null) {
+    try {
+      data.settings.invoiceSettings = JSON.parse(invoiceSettings);
+    } catch (e) {
+      quarantine.push({ source: `localStorage:${LEGACY_SETTINGS.invoiceSettings}`, raw: invoiceSettings, reason: `Invalid JSON: ${(e as Error).message}`, at });
+    }
+  }
+  return data;
+};
+
+// Last written JSON per record, so saves can skip unchanged records and delete removed ones
+const savedSnapshots = new Map<CollectionName, Map<IDBValidKey, string>>();
+const saveQueues = new Map<string, Promise<void>>();
+
+// Replaces every store's contents in one transaction (used after an import or migration)
+const writeAll = async (db: IDBDatabase, data: StoredData, quarantine: QuarantineEntry[]): Promise<void> => {
+  const tx = db.transaction([...COLLECTION_NAMES, 'settings', 'meta', 'quarantine'], 'readwrite');
+  COLLECTION_NAMES.forEach(name => {
+    const store = tx.objectStore(name);
+    store.clear();
+    data.collections[name].forEach(record => store.put(record));
+  });
+  const settings = tx.objectStore('settings');
+  settings.clear();
+  Object.entries(data.settings).forEach(([key, value]) => settings.put({ key, value }));
+  quarantine.forEach(entry => tx.objectStore('quarantine').add(entry));
+  tx.objectStore('meta').put({ key: 'schemaVersion', value: SCHEMA_VERSION });
+  tx.objectStore('meta').put({ key: 'legacyImported', value: true });
+  await transactionDone(tx);
+};
+
+// --- Public API ---
+let loadPromise: Promise<LoadResult> | null = null;
+
+// Loads once per page; later calls (e.g. React StrictMode re-running effects) share the same result
+export const loadStoredData = (): Promise<LoadResult> => {
+  if (!loadPromise) {
+    loadPromise = loadFromDatabase();
+    loadPromise.catch(() => { loadPromise = null; });
+  }
+  return loadPromise;
+};
+
+const loadFromDatabase = async (): Promise<LoadResult> => {
+  const db = await openDatabase();
+  const meta = await readMeta(db);
+  const quarantine: QuarantineEntry[] = [];
+
+  const importedLegacy = !meta.legacyImported;
+  const data = importedLegacy ? readLegacyStorage(quarantine) : await readAllStores(db, quarantine);
+  const version = importedLegacy ? 1 : meta.schemaVersion ?? SCHEMA_VERSION;
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Stored data is schema version ${version}, newer than this app (${SCHEMA_VERSION})`);
+  }
+
+  const migrated = migrateStoredData(data, version);
+  if (importedLegacy || version < SCHEMA_VERSION || quarantine.length > 0) {
+    await writeAll(db, migrated, quarantine);
+  }
+  COLLECTION_NAMES.forEach(name => savedSnapshots.set(name, snapshotOf(name, migrated.collections[name])));
+
+  const quarantined = await requestToPromise(db.transaction('quarantine', 'readonly').objectStore('quarantine').count());
+  return { data: migrated, quarantined, importedLegacy };
+};
+
+// Saves are queued per collection so each diff is taken against what was actually committed
+export const saveCollection = <K extends CollectionName>(name: K, records: CollectionRecords[K][]): Promise<void> => {
+  const run = async () => {
+    const db = await openDatabase();
+    const previous = savedSnapshots.get(name) || new Map<IDBValidKey, string>();
+    const next = snapshotOf(name, records);
+    const puts = records.filter(r => previous.get(keyOf(name, r)) !== JSON.stringify(r));
+    const deletes = [...previous.keys()].filter(key => !next.has(key));
+    if (puts.length === 0 && deletes.length === 0) return;
+
+    const tx = db.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    puts.forEach(record => store.put(record));
+    deletes.forEach(key => store.delete(key));
+    await transactionDone(tx);
+    savedSnapshots.set(name, next);
+  };
+  const queued = (saveQueues.get(name) || Promise.resolve()).then(run, run);
+  saveQueues.set(name, queued.catch(() => undefined));
+  return queued;
+};
+
+export const saveSetting = (name: SettingName, value: unknown): Promise<void> => {
+  const run = async () => {
+    const db = await openDatabase();
+    const tx = db.transaction('settings', 'readwrite');
+    tx.objectStore('settings').put({ key: name, value });
+    await transactionDone(tx);
+  };
+  const queued = (saveQueues.get(name) || Promise.resolve()).then(run, run);
+  saveQueues.set(name, queued.catch(() => undefined));
+  return queued;
+};
+
+export const listQuarantine = async (): Promise<QuarantineEntry[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction('quarantine', 'readonly').objectStore('quarantine').getAll());
+};
+
+export const clearQuarantine = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('quarantine', 'readwrite');
+  tx.objectStore('quarantine').clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { applyChange, createDatabase, findRecord, fromStoredJson, listChanges, validateChange } from './server/sync-rules.mjs';
+import {
+  applyRemoteChanges, countPendingChanges, detectLocalChanges, emptySyncState, runSync,
+  type RemoteChange, type SyncConflict, type SyncState
+} from './sync';
+import { COLLECTION_NAMES, type CollectionName, type StoredData } from './storage';
+
+const emptyDatabase = () => createDatabase('server-1');
+
+const edit = (overrides: object) => ({
+  collection: 'customers', id: 'c1', baseRev: 0, updatedAt: '2026-05-01T10:00:00.000Z',
+  deviceId: 'device-a', deviceName: 'Laptop', data: { id: 'c1', name: 'Amy' }, ...overrides,
+});
+
+const storedData = (collections: Partial<Record<CollectionName, object[]>>): StoredData => ({
+  collections: Object.fromEntries(COLLECTION_NAMES.map(name => [name, collections[name] || []])) as StoredData['collections'],
+  settings: {},
+});
+
+const remote = (overrides: Partial<RemoteChange>): RemoteChange => ({
+  collection: 'customers', id: 'c1', rev: 1, updatedAt: '2026-05-01T10:00:00.000Z',
+  deviceId: 'device-b', deviceName: 'Phone', deleted: false, data: { id: 'c1', name: 'Amy' }, ...overrides,
+});
+
+describe('applyChange', () => {
+  it('stores a new record under the next revision', () => {
+    const db = emptyDatabase();
+    const { result, record } = applyChange(db, edit({}));
+    expect(result).toBe('applied');
+    expect(record).toMatchObject({ collection: 'customers', id: 'c1', rev: 1, deleted: false, data: { name: 'Amy' } });
+    expect(db.revision).toBe(1);
+  });
+
+  it('applies an edit made on top of the current revision', () => {
+    const db = emptyDatabase();
+    applyChange(db, edit({}));
+    const response = applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T09:00:00.000Z', data: { id: 'c1', name: 'Amy Lin' } }));
+    // An older clock does not matter when the client had seen the latest version
+    expect(response.result).toBe('applied');
+    expect(response.record?.rev).toBe(2);
+    expect(response).not.toHaveProperty('overwritten');
+  });
+
+  it('counts a retry of the same content as applied without a new revision', () => {
+    const db = emptyDatabase();
+    applyChange(db, edit({}));
+    const response = applyChange(db, edit({ deviceId: 'device-b' }));
+    expect(response.result).toBe('applied');
+    expect(response.record?.rev).toBe(1);
+    expect(db.revision).toBe(1);
+  });
+});
+
+describe('applyChange when both sides edited the record', () => {
+  const editedElsewhere = () => {
+    const db = emptyDatabase();
+    applyChange(db, edit({}));
+    applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T12:00:00.000Z', deviceId: 'device-b', deviceName: 'Phone', data: { id: 'c1', name: 'Amy (phone)' } }));
+    return db;
+  };
+
+  it('keeps the later edit and reports the version it replaced', () => {
+    const db = editedElsewhere();
+    const response = applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T13:00:00.000Z', data: { id: 'c1', name: 'Amy (laptop)' } }));
+    expect(response.result).toBe('applied');
+    expect(response.record).toMatchObject({ rev: 3, data: { name: 'Amy (laptop)' } });
+    expect(response.overwritten).toMatchObject({ rev: 2, deviceName: 'Phone', data: { name: 'Amy (phone)' } });
+  });
+
+  it('rejects the earlier edit and returns the server version', () => {
+    const db = editedElsewhere();
+    const response = applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T11:00:00.000Z', data: { id: 'c1', name: 'Amy (laptop)' } }));
+    expect(response.result).toBe('rejected');
+    expect(response.record).toMatchObject({ rev: 2, data: { name: 'Amy (phone)' } });
+    expect(db.revision).toBe(2);
+  });
+
+  it('breaks a tie on edit time by the higher device id', () => {
+    const db = editedElsewhere();
+    const at = '2026-05-01T12:00:00.000Z';
+    const lower = applyChange(db, edit({ baseRev: 1, updatedAt: at, deviceId: 'device-a', data: { id: 'c1', name: 'A' } }));
+    expect(lower.result).toBe('rejected');
+    const higher = applyChange(db, edit({ baseRev: 1, updatedAt: at, deviceId: 'device-c', data: { id: 'c1', name: 'C' } }));
+    expect(higher.result).toBe('applied');
+    expect(higher.record?.data).toEqual({ id: 'c1', name: 'C' });
+  });
+});
+
+describe('applyChange for deletes', () => {
+  it('keeps a tombstone so other devices learn about the delete', () => {
+    const db = emptyDatabase();
+    applyChange(db, edit({}));
+    const response = applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T11:00:00.000Z', deleted: true, data: undefined }));
+    expect(response.record).toMatchObject({ rev: 2, deleted: true, data: null });
+  });
+
+  it('needs no tombstone for a record the server never had', () => {
+    const db = emptyDatabase();
+    expect(applyChange(db, edit({ deleted: true, data: undefined }))).toEqual({ result: 'applied', record: null });
+    expect(db.revision).toBe(0);
+  });
+
+  it('lets a later delete win over an edit it did not see', () => {
+    const db = emptyDatabase();
+    applyChange(db, edit({}));
+    applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T11:00:00.000Z', deviceId: 'device-b', data: { id: 'c1', name: 'Amy Lin' } }));
+    const response = applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T12:00:00.000Z', deleted: true, data: undefined }));
+    expect(response.result).toBe('applied');
+    expect(response.record).toMatchObject({ deleted: true });
+    expect(response.overwritten).toMatchObject({ data: { name: 'Amy Lin' } });
+  });
+
+  it('lets a later edit win over a delete it did not see', () => {
+    const db = emptyDatabase();
+    applyChange(db, edit({}));
+    applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T11:00:00.000Z', deviceId: 'device-b', deleted: true, data: undefined }));
+    const response = applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T12:00:00.000Z', data: { id: 'c1', name: 'Amy Lin' } }));
+    expect(response.result).toBe('applied');
+    expect(response.record).toMatchObject({ deleted: false, data: { name: 'Amy Lin' } });
+    expect(response.overwritten).toMatchObject({ deleted: true });
+  });
+});
+
+describe('listChanges', () => {
+  it('returns records and tombstones written after a revision, oldest first', () => {
+    const db = emptyDatabase();
+    applyChange(db, edit({}));
+    applyChange(db, edit({ collection: 'products', id: 'p1', data: { id: 'p1', name: 'Tea' } }));
+    applyChange(db, edit({ baseRev: 1, updatedAt: '2026-05-01T11:00:00.000Z', deleted: true, data: undefined }));
+
+    expect(listChanges(db, 0).map(c => [c.collection, c.id, c.rev, c.deleted])).toEqual([
+      ['products', 'p1', 2, false],
+      ['customers', 'c1', 3, true],
+    ]);
+    expect(listChanges(db, 2).map(c => c.rev)).toEqual([3]);
+    expect(listChanges(db, 3)).toEqual([]);
+  });
+});
+
+describe('names plain objects inherit', () => {
+  it('are refused as collection names and record ids', () => {
+    expect(validateChange(edit({ collection: 'constructor' }))).toBe('Invalid collection name');
+    expect(validateChange(edit({ collection: 'hasOwnProperty' }))).toBe('Invalid collection name');
+    expect(validateChange(edit({ id: '__proto__' }))).toBe('Invalid record id');
+    expect(validateChange(edit({ id: 'toString' }))).toBe('Invalid record id');
+    expect(validateChange(edit({}))).toBeNull();
+  });
+
+  it('are not found as records that were never written', () => {
+    const db = emptyDatabase();
+    expect(findRecord(db, 'constructor', 'name')).toBeUndefined();
+    applyChange(db, edit({}));
+    expect(findRecord(db, 'customers', 'constructor')).toBeUndefined();
+    expect(findRecord(db, 'customers', 'c1')).toMatchObject({ rev: 1 });
+  });
+
+  it('stay ordinary keys in a database read back from JSON', () => {
+    const db = fromStoredJson(JSON.parse('{"serverId":"s","revision":1,"collections":{"customers":{"__proto__":{"rev":1}}}}'));
+    expect(Object.getPrototypeOf(db.collections.customers)).toBeNull();
+    expect(findRecord(db, 'customers', '__proto__')).toEqual({ rev: 1 });
+    expect(findRecord(db, 'customers', 'toString')).toBeUndefined();
+  });
+});
+
+describe('detectLocalChanges', () => {
+  const now = '2026-05-01T10:00:00.000Z';
+
+  it('marks new, changed and deleted records as pending', () => {
+    const synced = detectLocalChanges(emptySyncState(), storedData({ customers: [{ id: 'c1', name: 'Amy' }, { id: 'c2', name: 'Ben' }] }), now);
+    expect(countPendingChanges(synced)).toBe(2);
+    expect(synced.records['customers/c1']).toMatchObject({ rev: 0, hash: null, changedAt: now });
+
+    // Pretend the server accepted both
+    const agreed = {
+      ...synced,
+      records: Object.fromEntries(Object.entries(synced.records).map(([k, e]) => [k, { rev: 1, hash: e.pendingHash as string }])),
+    };
+    const later = '2026-05-02T10:00:00.000Z';
+    const next = detectLocalChanges(agreed, storedData({ customers: [{ id: 'c1', name: 'Amy Lin' }] }), later);
+    expect(next.records['customers/c1']).toMatchObject({ rev: 1, changedAt: later });
+    expect(next.records['customers/c1'].pendingHash).not.toBe(agreed.records['customers/c1'].hash);
+    expect(next.records['customers/c2']).toMatchObject({ rev: 1, pendingHash: null, changedAt: later });
+  });
+
+  it('returns the same state when no hash changed', () => {
+    const data = storedData({ customers: [{ id: 'c1', name: 'Amy' }] });
+    const state = detectLocalChanges(emptySyncState(), data, now);
+    expect(detectLocalChanges(state, storedData({ customers: [{ id: 'c1', name: 'Amy' }] }), '2026-05-03T00:00:00.000Z')).toBe(state);
+  });
+
+  it('keeps the time of the first edit while it is still pending', () => {
+    const state = detectLocalChanges(emptySyncState(), storedData({ customers: [{ id: 'c1', name: 'Amy' }] }), now);
+    const again = detectLocalChanges(state, storedData({ customers: [{ id: 'c1', name: 'Amy' }] }), '2026-05-03T00:00:00.000Z');
+    expect(again.records['customers/c1'].changedAt).toBe(now);
+  });
+
+  it('clears the pending edit when the record is changed back', () => {
+    const original = storedData({ customers: [{ id: 'c1', name: 'Amy' }] });
+    const first = detectLocalChanges(emptySyncState(), original, now);
+    const agreed = { ...first, records: { 'customers/c1': { rev: 1, hash: first.records['customers/c1'].pendingHash as string } } };
+    const edited = detectLocalChanges(agreed, storedData({ customers: [{ id: 'c1', name: 'Amy Lin' }] }), now);
+    expect(countPendingChanges(edited)).toBe(1);
+    const reverted = detectLocalChanges(edited, original, now);
+    expect(countPendingChanges(reverted)).toBe(0);
+    expect(reverted.records['customers/c1']).toEqual({ rev: 1, hash: agreed.records['customers/c1'].hash });
+  });
+});
+
+describe('applyRemoteChanges', () => {
+  it('updates and deletes in place and appends new records', () => {
+    const data = storedData({
+      customers: [{ id: 'c1', name: 'Amy' }, { id: 'c2', name: 'Ben' }, { id: 'c3', name: 'Cal' }],
+    });
+    const next = applyRemoteChanges(data, [
+      remote({ id: 'c2', data: { id: 'c2', name: 'Ben Wu' } }),
+      remote({ id: 'c1', deleted: true, data: null }),
+      remote({ id: 'c4', data: { id: 'c4', name: 'Dee' } }),
+      remote({ id: 'c5', deleted: true, data: null }),
+    ]);
+    expect(next.collections.customers).toEqual([
+      { id: 'c2', name: 'Ben Wu' },
+      { id: 'c3', name: 'Cal' },
+      { id: 'c4', name: 'Dee' },
+    ]);
+    expect(data.collections.customers).toHaveLength(3);
+  });
+
+  it('takes the last change when a batch holds several for one record', () => {
+    const next = applyRemoteChanges(storedData({}), [
+      remote({ rev: 1, data: { id: 'c1', name: 'Amy' } }),
+      remote({ rev: 2, data: { id: 'c1', name: 'Amy Lin' } }),
+    ]);
+    expect(next.collections.customers).toEqual([{ id: 'c1', name: 'Amy Lin' }]);
+  });
+
+  it('ignores collections this version does not know', () => {
+    const data = storedData({});
+    expect(applyRemoteChanges(data, [remote({ collection: 'wishlists' })])).toBe(data);
+  });
+
+  it('uses the key path of the collection', () => {
+    const next = applyRemoteChanges(storedData({ countries: [{ code: 'JP', name: 'Japan' }] }), [
+      remote({ collection: 'countries', id: 'JP', data: { code: 'JP', name: '日本' } }),
+    ]);
+    expect(next.collections.countries).toEqual([{ code: 'JP', name: '日本' }]);
+  });
+});
+
+// A device talking to an in-memory server that runs the real server rules
+const serveFrom = (db: ReturnType<typeof createDatabase>) => {
+  vi.stubGlobal('fetch', async (url: string, init?: RequestInit) => {
+    const { pathname, searchParams } = new URL(url);
+    const body = pathname === '/api/health'
+      ? { ok: true, serverId: db.serverId, revision: db.revision }
+      : pathname === '/api/changes'
+        ? { serverId: db.serverId, revision: db.revision, changes: listChanges(db, Number(searchParams.get('since'))) }
+        : { results: JSON.parse(String(init?.body)).changes.map((change: object) => applyChange(db, change as never)) };
+    return new Response(JSON.stringify(body), { status: 200 });
+  });
+};
+
+const device = (deviceId: string, data: StoredData) => {
+  let state: SyncState = emptySyncState();
+  const ctx = {
+    settings: { enabled: true, serverUrl: 'http://sync.test', token: '', deviceId, deviceName: deviceId, invoiceCode: deviceId },
+    getData: () => data,
+    getState: () => state,
+    setState: (next: SyncState) => { state = next; },
+    applyRemote: (changes: RemoteChange[]) => { data = applyRemoteChanges(data, changes); },
+  };
+  return { sync: (): Promise<SyncConflict[]> => runSync(ctx), data: () => data, edit: (next: StoredData) => { data = next; } };
+};
+
+describe('runSync', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('takes the records the server already has on a first sync instead of pushing its own', async () => {
+    const db = emptyDatabase();
+    serveFrom(db);
+    const laptop = device('laptop', storedData({ countries: [{ code: 'JP', label: '日本' }] }));
+    await laptop.sync();
+    laptop.edit(storedData({ countries: [{ code: 'JP', label: '日本 (東京)' }] }));
+    await laptop.sync();
+
+    // A new device starts with the default country list and one record of its own
+    const phone = device('phone', storedData({ countries: [{ code: 'JP', label: '日本' }], customers: [{ id: 'c1', name: 'Amy' }] }));
+    const conflicts = await phone.sync();
+
+    expect(phone.data().collections.countries).toEqual([{ code: 'JP', label: '日本 (東京)' }]);
+    expect(findRecord(db, 'countries', 'JP')?.data).toEqual({ code: 'JP', label: '日本 (東京)' });
+    expect(findRecord(db, 'customers', 'c1')?.data).toEqual({ id: 'c1', name: 'Amy' });
+    expect(conflicts).toMatchObject([{ collection: 'countries', key: 'JP', winner: 'remote', lost: { label: '日本' } }]);
+  });
+
+  it('pushes later edits from that device as usual', async () => {
+    const db = emptyDatabase();
+    serveFrom(db);
+    const laptop = device('laptop', storedData({ countries: [{ code: 'JP', label: '日本' }] }));
+    await laptop.sync();
+    const phone = device('phone', storedData({ countries: [{ code: 'JP', label: '日本' }] }));
+    expect(await phone.sync()).toEqual([]);
+
+    phone.edit(storedData({ countries: [{ code: 'JP', label: 'Japan' }] }));
+    await phone.sync();
+    await laptop.sync();
+    expect(laptop.data().collections.countries).toEqual([{ code: 'JP', label: 'Japan' }]);
+  });
+});
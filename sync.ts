@@ -0,0 +1,303 @@
+// ==========================================
+// SYNC CLIENT (talks to server/sync-server.mjs)
+// ==========================================
+// Local edits are found by comparing a hash of each record with the hash of the version last agreed with
+// the server, so the rest of the app does not need to know sync exists. A sync pushes pending edits
+// (the server settles clashes by last writer wins and reports the losing version), then pulls everything
+// other devices wrote since the last revision this device has seen. The first sync with a server pulls before
+// it pushes, so a new device does not overwrite the shared data with its own starting records.
+
+import { COLLECTION_NAMES, recordKey, type CollectionName, type StoredData } from './storage';
+
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string;  // e.g. http://192.168.1.20:8787
+  token: string;      // Matches SYNC_TOKEN on the server; empty when the server has none
+  deviceId: string;
+  deviceName: string; // Shown to the other devices when a conflict involves this one
+  invoiceCode: string; // Put in the statement numbers this device issues, so two devices never issue the same number
+}
+
+export interface SyncRecordState {
+  rev: number;                 // Server revision of the version this device last agreed on (0 = never on the server)
+  hash: string | null;         // Hash of that version; null when it is deleted or was never synced
+  pendingHash?: string | null; // Local edit waiting to be pushed (null = deleted locally)
+  changedAt?: string;          // When that edit was made; decides who wins a conflict
+}
+
+export interface SyncState {
+  serverId: string;     // Server the revisions belong to; a different server starts over
+  lastRevision: number;
+  lastSyncedAt: string | null;
+  records: Record<string, SyncRecordState>;
+}
+
+export interface RemoteChange {
+  collection: string;
+  id: string;
+  rev: number;
+  updatedAt: string;
+  deviceId: string;
+  deviceName: string;
+  deleted: boolean;
+  data: unknown;
+}
+
+export interface SyncConflict {
+  id: string;
+  collection: CollectionName;
+  key: string;
+  winner: 'local' | 'remote'; // Whose version was kept
+  lost: unknown;              // The version that was replaced; null when it was a deletion
+  lostDevice: string;
+  lostAt: string;             // When the replaced version was edited
+  detectedAt: string;
+}
+
+interface PushResult {
+  result: 'applied' | 'rejected';
+  record: RemoteChange | null;
+  overwritten?: RemoteChange;
+}
+
+const PUSH_BATCH_SIZE = 200;
+
+export const emptySyncState = (): SyncState => ({ serverId: '', lastRevision: 0, lastSyncedAt: null, records: {} });
+
+const stateKey = (collection: string, key: string) => `${collection}/${key}`;
+
+const splitStateKey = (k: string): { collection: CollectionName; key: string } => {
+  const slash = k.indexOf('/');
+  return { collection: k.slice(0, slash) as CollectionName, key: k.slice(slash + 1) };
+};
+
+// cyrb53: a fast 53-bit string hash, plenty to tell whether a record changed
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const hashRecord = (record: unknown): string => hashString(JSON.stringify(record));
+
+const findRecord = (data: StoredData, collection: CollectionName, key: string): object | undefined =>
+  data.collections[collection].find(r => recordKey(collection, r) === key);
+
+// Marks records whose content differs from the last synced version; returns the same state when nothing changed
+export const detectLocalChanges = (state: SyncState, data: StoredData, now = new Date().toISOString()): SyncState => {
+  const records = { ...state.records };
+  let changed = false;
+
+  const mark = (k: string, hash: string | null) => {
+    const entry = records[k] || { rev: 0, hash: null };
+    if (hash === entry.hash) {
+      if (entry.changedAt) {
+        records[k] = { rev: entry.rev, hash: entry.hash };
+        changed = true;
+      }
+      return;
+    }
+    if (entry.changedAt && entry.pendingHash === hash) return;
+    records[k] = { rev: entry.rev, hash: entry.hash, pendingHash: hash, changedAt: now };
+    changed = true;
+  };
+
+  const seen = new Set<string>();
+  COLLECTION_NAMES.forEach(collection => {
+    data.collections[collection].forEach(record => {
+      const k = stateKey(collection, recordKey(collection, record));
+      seen.add(k);
+      mark(k, hashRecord(record));
+    });
+  });
+  Object.keys(records).forEach(k => {
+    if (!seen.has(k)) mark(k, null);
+  });
+
+  return changed ? { ...state, records } : state;
+};
+
+export const countPendingChanges = (state: SyncState): number =>
+  Object.values(state.records).filter(entry => entry.changedAt).length;
+
+// Upserts and deletes remote versions into the local collections, keeping the local order
+export const applyRemoteChanges = (data: StoredData, changes: RemoteChange[]): StoredData => {
+  const byCollection = new Map<CollectionName, Map<string, RemoteChange>>();
+  changes.forEach(change => {
+    if (!COLLECTION_NAMES.includes(change.collection as CollectionName)) return;
+    const name = change.collection as CollectionName;
+    if (!byCollection.has(name)) byCollection.set(name, new Map());
+    byCollection.get(name)!.set(change.id, change);
+  });
+  if (byCollection.size === 0) return data;
+
+  const collections = { ...data.collections };
+  byCollection.forEach((pending, name) => {
+    const kept = collections[name].flatMap(record => {
+      const change = pending.get(recordKey(name, record));
+      if (!change) return [record];
+      pending.delete(change.id);
+      return change.deleted ? [] : [change.data as typeof record];
+    });
+    const added = [...pending.values()].filter(c => !c.deleted).map(c => c.data as typeof kept[number]);
+    collections[name] = [...kept, ...added];
+  });
+  return { ...data, collections };
+};
+
+const request = async <T>(settings: SyncSettings, path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${settings.serverUrl.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `Sync server answered HTTP ${response.status}`);
+  return body as T;
+};
+
+export const checkServer = (settings: SyncSettings) =>
+  request<{ ok: boolean; serverId: string; revision: number }>(settings, '/api/health');
+
+export interface SyncContext {
+  settings: SyncSettings;
+  getData: () => StoredData; // Read again after every request, so edits made meanwhile are not lost
+  getState: () => SyncState;
+  setState: (state: SyncState) => void;
+  applyRemote: (changes: RemoteChange[]) => void;
+}
+
+const updateRecords = (state: SyncState, updates: Record<string, SyncRecordState>): SyncState =>
+  ({ ...state, records: { ...state.records, ...updates } });
+
+// One full round: push pending edits, then pull. Returns the conflicts found along the way.
+export const runSync = async (ctx: SyncContext): Promise<SyncConflict[]> => {
+  const { settings } = ctx;
+  const conflicts: SyncConflict[] = [];
+  const detectedAt = new Date().toISOString();
+
+  // Revisions only mean something on the server that issued them; on a new or reset server every record is pushed again
+  const health = await checkServer(settings);
+  if (health.serverId !== ctx.getState().serverId) {
+    ctx.setState({ ...emptySyncState(), serverId: health.serverId });
+  }
+
+  // --- First sync with this server ---
+  // This device's records were never synced, so their edit times are only when they were noticed. Pushing them
+  // first would let them (even the default countries every new device starts with) replace what other devices
+  // edited, so records the server already has are taken from the server, and any local version they replace
+  // is listed as a conflict.
+  if (ctx.getState().lastRevision === 0) {
+    const { revision, changes } = await request<{ revision: number; changes: RemoteChange[] }>(settings, '/api/changes?since=0');
+    const data = ctx.getData();
+    const state = ctx.getState();
+    const updates: Record<string, SyncRecordState> = {};
+    const incoming = changes.filter(change => COLLECTION_NAMES.includes(change.collection as CollectionName));
+    incoming.forEach(change => {
+      const collection = change.collection as CollectionName;
+      const k = stateKey(collection, change.id);
+      const hash = change.deleted ? null : hashRecord(change.data);
+      updates[k] = { rev: change.rev, hash };
+      const local = findRecord(data, collection, change.id);
+      if (local && hashRecord(local) !== hash) {
+        conflicts.push({
+          id: `${k}@${detectedAt}`, collection, key: change.id, winner: 'remote',
+          lost: local, lostDevice: settings.deviceName, lostAt: state.records[k]?.changedAt ?? detectedAt, detectedAt,
+        });
+      }
+    });
+    ctx.setState({ ...updateRecords(state, updates), lastRevision: revision });
+    if (incoming.length > 0) ctx.applyRemote(incoming);
+  }
+
+  ctx.setState(detectLocalChanges(ctx.getState(), ctx.getData()));
+
+  // --- Push ---
+  const pending = Object.entries(ctx.getState().records).filter(([, entry]) => entry.changedAt);
+  for (let start = 0; start < pending.length; start += PUSH_BATCH_SIZE) {
+    const batch = pending.slice(start, start + PUSH_BATCH_SIZE);
+    const data = ctx.getData();
+    const outgoing = batch.map(([k, entry]) => {
+      const { collection, key } = splitStateKey(k);
+      const record = findRecord(data, collection, key);
+      return {
+        k,
+        record,
+        hash: record ? hashRecord(record) : null,
+        change: {
+          collection,
+          id: key,
+          baseRev: entry.rev,
+          updatedAt: entry.changedAt as string,
+          deviceId: settings.deviceId,
+          deviceName: settings.deviceName,
+          deleted: !record,
+          data: record ?? null,
+        },
+      };
+    });
+
+    const { results } = await request<{ results: PushResult[] }>(settings, '/api/push', {
+      method: 'POST',
+      body: JSON.stringify({ changes: outgoing.map(o => o.change) }),
+    });
+
+    const updates: Record<string, SyncRecordState> = {};
+    const adopted: RemoteChange[] = [];
+    results.forEach((result, i) => {
+      const { k, record, hash, change } = outgoing[i];
+      if (result.result === 'applied') {
+        updates[k] = { rev: result.record?.rev ?? 0, hash };
+        const lost = result.overwritten;
+        if (lost && lost.deviceId !== settings.deviceId) {
+          conflicts.push({
+            id: `${k}@${detectedAt}`, collection: change.collection, key: change.id, winner: 'local',
+            lost: lost.deleted ? null : lost.data, lostDevice: lost.deviceName, lostAt: lost.updatedAt, detectedAt,
+          });
+        }
+        return;
+      }
+      // The server kept a newer edit from another device; take it and record what this device lost
+      const remote = result.record as RemoteChange;
+      updates[k] = { rev: remote.rev, hash: remote.deleted ? null : hashRecord(remote.data) };
+      adopted.push(remote);
+      conflicts.push({
+        id: `${k}@${detectedAt}`, collection: change.collection, key: change.id, winner: 'remote',
+        lost: record ?? null, lostDevice: settings.deviceName, lostAt: change.updatedAt, detectedAt,
+      });
+    });
+    ctx.setState(updateRecords(ctx.getState(), updates));
+    if (adopted.length > 0) ctx.applyRemote(adopted);
+  }
+
+  // --- Pull ---
+  const since = ctx.getState().lastRevision;
+  const { revision, changes } = await request<{ revision: number; changes: RemoteChange[] }>(
+    settings, `/api/changes?since=${since}`
+  );
+  const state = ctx.getState();
+  const updates: Record<string, SyncRecordState> = {};
+  const incoming = changes.filter(change => {
+    if (!COLLECTION_NAMES.includes(change.collection as CollectionName)) return false;
+    const k = stateKey(change.collection, change.id);
+    const entry = state.records[k];
+    if (entry && entry.rev >= change.rev) return false; // Our own push coming back
+    // Edited here while this sync ran: the next push lets the server decide which edit wins
+    if (entry?.changedAt) return false;
+    updates[k] = { rev: change.rev, hash: change.deleted ? null : hashRecord(change.data) };
+    return true;
+  });
+
+  ctx.setState({ ...updateRecords(ctx.getState(), updates), lastRevision: revision, lastSyncedAt: new Date().toISOString() });
+  if (incoming.length > 0) ctx.applyRemote(incoming);
+  return conflicts;
+};
@@ -1,16 +1,266 @@
-export type Country = 'JP' | 'KR' | 'OTHER';
+// Code of a SourcingCountry in the user-managed registry (e.g. 'JP', 'KR', 'US')
+export type Country = string;
+
+export type CountryColor = 'red' | 'blue' | 'green' | 'amber' | 'purple' | 'teal' | 'pink' | 'gray';
+
+export interface SourcingCountry {
+  code: Country;
+  label: string;        // Display name, e.g. '日本'
+  currencyCode: string; // ISO 4217 code, e.g. 'JPY'
+  symbol: string;       // Currency symbol shown before foreign amounts
+  rate: number;         // Default cost rate to Local Currency
+  sellingRate: number;  // Default selling rate to Local Currency
+  color: CountryColor;
+}
+
+export type OrderStatus = 'requested' | 'purchased' | 'shipped' | 'arrived' | 'delivered' | 'cancelled';
 
 export interface Transaction {
   id: string;
   country: Country;    // Origin country
-  customerName: string;
+  customerId?: string; // Link to Customer; missing on records created before the directory
+  customerName: string; // Denormalized copy of the customer's name for display/export
   itemName: string;
   quantity: number;
-  costJpy: number;     // Cost per unit in Foreign Currency
+  costForeign: number;     // Cost per unit in Foreign Currency
   exchangeRate: number; // Current Rate (Cost Rate) used at time of purchase
   sellingExchangeRate?: number; // Selling Rate (Reference/Pricing)
   priceSold: number;   // Sold price per unit in Local Currency
   date: string;
+  status?: OrderStatus; // Missing on older records, treated as 'requested'
+  statusHistory?: Partial<Record<OrderStatus, string>>; // ISO timestamp each stage was reached
+  shipmentId?: string; // Shipment (box) this item was sent home in
+  weightGrams?: number; // Weight per unit, used for weight-based cost allocation
+  tripId?: string; // Buying trip this item was purchased on
+  exchangeRateDate?: string; // Rate-table date exchangeRate was taken from; absent when typed by hand
+  cardSettlementId?: string; // Card statement / charge this purchase was settled on
+  taxRefundStatus?: TaxRefundStatus; // Missing means costForeign is simply what was paid
+  taxRate?: number;         // Consumption / VAT rate in percent, e.g. 10
+  taxRefundPerUnit?: number; // Refund per unit in Foreign Currency, deducted from costForeign for net cost
+  taxRefundReceivedAt?: string;
+  fromStock?: boolean; // Sold out of InventoryLots; cost comes from FIFO lot cost instead of costForeign
+  productId?: string; // Catalog product, linked by item name / alias when saved
+  orderId?: string; // Lines entered together share one; older records are single-line orders keyed by their own id
+}
+
+// A customer order as shown in the list: its line items are the transactions sharing an orderId.
+// Customer, date, country and rates are shared by every line and read from the first one.
+export interface Order {
+  id: string;
+  customerId?: string;
+  customerName: string;
+  date: string;
+  country: Country;
+  exchangeRate: number;
+  lines: Transaction[];
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  aliases: string[];         // Other names / spellings that resolve to this product
+  country: Country;          // Usual sourcing country
+  lastCostForeign: number;   // Latest recorded cost per unit in Foreign Currency
+  usualPrice: number;        // Latest selling price per unit in Local Currency
+  category?: string;
+  barcode?: string;          // JAN / EAN code
+  lastRecordedDate?: string; // Date of the transaction the prices were learned from
+  pricesSetOn?: string;      // Day the cost, price or country was last set by hand; older transactions no longer change them
+}
+
+// selling_rate: start from costForeign × sellingExchangeRate; cost_rate: start from the local cost itself
+export type PricingBase = 'selling_rate' | 'cost_rate';
+
+export interface PricingFeeTier {
+  upToCost: number | null; // Upper bound of local unit cost for this band; null = no upper bound
+  fee: number;             // Added per unit in Local Currency
+}
+
+// How the suggested selling price is derived. Steps apply in order: base, markup, handling fee,
+// cost-band fee, minimum profit floor, then rounding up.
+export interface PricingRule {
+  id: string;
+  name: string;
+  country?: Country;        // Missing = every country
+  category?: string;        // Product category; missing = every category
+  base: PricingBase;
+  markupPercent: number;    // Percentage of the base added on top
+  handlingFee: number;      // Fixed fee per unit in Local Currency
+  feeTiers: PricingFeeTier[];
+  minProfit: number;        // Minimum profit per unit over local cost
+  roundTo: number;          // Price is rounded up to a multiple of this (1 = whole dollars)
+}
+
+// Stock bought ahead of demand, not for a specific customer
+export interface InventoryLot {
+  id: string;
+  itemName: string;     // Matched to stock sales by name
+  country: Country;
+  quantity: number;     // Units purchased
+  costForeign: number;      // Cost per unit in Foreign Currency
+  exchangeRate: number; // Cost rate to Local Currency
+  date: string;
+  notes?: string;
+}
+
+// tax_free: bought tax-exempt at the counter, costForeign is already net of tax.
+// pending / received: costForeign is tax-inclusive and taxRefundPerUnit comes back later (e.g. airport refund).
+export type TaxRefundStatus = 'none' | 'tax_free' | 'pending' | 'received';
+
+export interface CardSettlement {
+  id: string;
+  date: string;
+  description: string;  // e.g. "玉山卡 3月帳單"
+  settledAmount: number; // Amount actually billed in Local Currency, before fees
+  foreignFee: number;    // Overseas transaction fee in Local Currency
+  notes?: string;
+}
+
+export interface ExchangeRateEntry {
+  id: string;
+  currencyCode: string; // Matches SourcingCountry.currencyCode
+  date: string;         // YYYY-MM-DD the rate takes effect
+  rate: number;         // Cost rate to Local Currency
+  sellingRate?: number; // Optional selling rate to Local Currency
+}
+
+export type TripExpenseCategory = 'flight' | 'hotel' | 'transport' | 'packaging' | 'other';
+
+export interface TripExpense {
+  id: string;
+  category: TripExpenseCategory;
+  description: string;
+  amount: number;
+  isForeign: boolean;    // Amount is in the trip destination's currency
+  exchangeRate?: number; // Rate to Local Currency, required when isForeign
+}
+
+export interface Trip {
+  id: string;
+  name: string;
+  destination: Country;
+  startDate: string;
+  endDate: string;
+  expenses: TripExpense[];
+  notes?: string;
+}
+
+export type AllocationMethod = 'weight' | 'value' | 'quantity';
+
+export interface Shipment {
+  id: string;
+  name: string;
+  date: string;
+  allocationMethod: AllocationMethod;
+  freight: number;       // International freight in Local Currency
+  forwardingFee: number; // Forwarder / handling fee in Local Currency
+  customsDuty: number;   // Customs duty & import tax in Local Currency
+  notes?: string;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  lineId?: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export type PaymentType = 'deposit' | 'final' | 'refund';
+
+export type PaymentMethod = 'bank_transfer' | 'line_pay' | 'cash' | 'other';
+
+export interface Payment {
+  id: string;
+  transactionId: string;
+  type: PaymentType;
+  method: PaymentMethod;
+  amount: number;      // Always positive, in Local Currency; refunds are subtracted
+  date: string;
+  note?: string;
+}
+
+export interface InvoiceSettings {
+  shopName: string;
+  paymentInstructions: string; // Bank account, LINE Pay ID etc., printed under the total
+  numberPrefix: string;        // e.g. 'INV-'
+  nextNumber: number;          // Sequence the next issued invoice gets
+}
+
+// Customer statement for a set of transactions
+export interface Invoice {
+  id: string;
+  number: string;          // Sequential, e.g. 'INV-0001'; empty until issued
+  customerId?: string;
+  customerName: string;
+  transactionIds: string[];
+  issuedAt: string;        // ISO timestamp; empty until issued
+  total: number;           // Statement total when issued, in Local Currency
+}
+
+// Records removed together by one delete or clear; restoring puts them all back
+export interface TrashedRecords {
+  transactions: Transaction[];
+  payments?: Payment[];
+  shipments?: Shipment[];
+  inventoryLots?: InventoryLot[];
+  trips?: Trip[];
+  cardSettlements?: CardSettlement[];
+  invoices?: Invoice[];
+}
+
+export interface TrashEntry {
+  id: string;
+  deletedAt: string; // ISO timestamp
+  deletedBy: string; // Device name
+  label: string;     // What was deleted, e.g. '王小明 · 合利他命 ×2'
+  records: TrashedRecords;
+}
+
+export type ChangeAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface FieldChange {
+  field: string;
+  from: unknown; // null when the field was empty
+  to: unknown;
+}
+
+// One entry in a transaction's history
+export interface TransactionChange {
+  id: string;
+  transactionId: string;
+  at: string;      // ISO timestamp
+  by: string;      // Device name
+  action: ChangeAction;
+  summary: string; // Customer · item at the time, so the entry stays readable after a delete
+  changes: FieldChange[]; // Only for 'update'
+}
+
+export type ProfitFilter = 'all' | 'loss' | 'profit';
+
+export interface TransactionFilter {
+  query: string;              // Matches customer or item name, case-insensitive
+  country: Country | '';      // '' = every country
+  dateFrom: string;           // YYYY-MM-DD inclusive, '' = open-ended
+  dateTo: string;
+  minQuantity: number | null;
+  maxQuantity: number | null;
+  profit: ProfitFilter;       // 'loss' keeps only loss-making rows
+}
+
+export type TransactionSortKey = 'date' | 'profit' | 'margin' | 'customer';
+
+export interface PeriodSummary {
+  from: string; // YYYY-MM-DD inclusive
+  to: string;
+  sales: number;
+  cost: number;
+  profit: number;
+  margin: number; // profit / sales, 0 when nothing was sold
+  itemCount: number;
+  orderCount: number;
 }
 
 export interface SummaryStats {
@@ -18,4 +268,10 @@ export interface SummaryStats {
   totalCost: number;
   totalProfit: number;
   itemCount: number;
+  orderCount: number;    // Distinct orders, excluding cancelled lines
+  statusCounts: Record<OrderStatus, number>;
+  totalReceived: number;
+  accountsReceivable: number;
+  fxGainLoss: number;    // Realized gain (+) / loss (-) on card-settled purchases vs. the typed rate
+  settledCount: number;  // Number of transactions with a recorded card settlement
 }
\ No newline at end of file